@@ -6,9 +6,14 @@ import TopBar from './components/TopBar'
 import EpisodeTimeline from './components/EpisodeTimeline'
 import ShelfGrid, { GridItem } from './components/ShelfGrid'
 import IntroModal from './components/IntroModal'
+import CategoryNav from './components/CategoryNav'
+import { ALL_CATEGORIES, bookCategories, countByCategory } from '@/lib/categoryMapping'
 import { Book } from '@/lib/data'
 import { Episode, groupBooksByEpisode } from '@/lib/groupBooks'
 import { useScrollSpy } from '@/hooks/useScrollSpy'
+import { useSearchIndex } from '@/hooks/useSearchIndex'
+import { useFilterState } from '@/hooks/useFilterState'
+import { searchIndex } from '../lib/search-index'
 
 interface ClientPageProps {
   initialBooks: Book[]
@@ -16,7 +21,9 @@ interface ClientPageProps {
 
 export default function ClientPage({ initialBooks }: ClientPageProps) {
   const [activeEpisode, setActiveEpisode] = useState<string>()
-  const [searchTerm, setSearchTerm] = useState('')
+  const [pendingJump, setPendingJump] = useState<string>() // episode slug to scroll to once rendered
+  const { filters, updateFilters } = useFilterState(restored => setPendingJump(restored.episode))
+  const { search: searchTerm, category, season } = filters
   const [showIntroModal, setShowIntroModal] = useState(false)
   const [episodes, setEpisodes] = useState<Episode[]>([])
   const [isMobile, setIsMobile] = useState(false)
@@ -42,21 +49,54 @@ export default function ClientPage({ initialBooks }: ClientPageProps) {
     setEpisodes(groupedEpisodes)
   }, [initialBooks])
 
-  // Filter episodes based on search term
-  const filteredEpisodes = episodes.filter(episode => {
-    if (!searchTerm) return true
-
-    const searchTermLower = searchTerm.toLowerCase()
-
-    // Check episode name
-    if (episode.name.toLowerCase().includes(searchTermLower)) return true
+  // Narrow to the season from the URL before searching
+  const scopedEpisodes = useMemo(() => {
+    if (season === undefined) return episodes
+    return episodes.filter(episode => episode.seasonNumber === season)
+  }, [episodes, season])
+
+  const index = useSearchIndex(initialBooks)
+
+  // Rank books against the search index (null when not searching or still loading)
+  const searchHits = useMemo(() => {
+    if (!searchTerm.trim() || !index) return null
+    return new Map(searchIndex(index, searchTerm).map(hit => [hit.id, hit]))
+  }, [index, searchTerm])
+
+  // Keep episodes with matching books, best match first, books ranked within each episode
+  const searchedEpisodes = useMemo(() => {
+    if (!searchHits) return scopedEpisodes
+
+    const score = (book: Book) => searchHits.get(book.id)?.score ?? 0
+    return scopedEpisodes
+      .map(episode => ({
+        ...episode,
+        books: episode.books.filter(book => searchHits.has(book.id)).sort((a, b) => score(b) - score(a))
+      }))
+      .filter(episode => episode.books.length > 0)
+      .sort((a, b) => score(b.books[0]) - score(a.books[0]))
+  }, [scopedEpisodes, searchHits])
+
+  // Category counts reflect the current search and season, so the nav shows where the matches are
+  const categoryCounts = useMemo(
+    () => countByCategory(searchedEpisodes.flatMap(episode => episode.books)),
+    [searchedEpisodes]
+  )
 
-    // Check if any books in the episode match
-    return episode.books.some(book =>
-      book.title.toLowerCase().includes(searchTermLower) ||
-      book.author.toLowerCase().includes(searchTermLower)
-    )
-  })
+  const filteredEpisodes = useMemo(() => {
+    if (!category) return searchedEpisodes
+    return searchedEpisodes
+      .map(episode => ({ ...episode, books: episode.books.filter(book => bookCategories(book).includes(category)) }))
+      .filter(episode => episode.books.length > 0)
+  }, [searchedEpisodes, category])
+
+  // Every matched term, for highlighting episode names in the sidebar
+  const highlightTerms = useMemo(() => {
+    if (!searchHits) return undefined
+    const terms = new Set<string>()
+    searchHits.forEach(hit => hit.terms.forEach(term => terms.add(term)))
+    return [...terms]
+  }, [searchHits])
 
   // Flatten all episodes into a single continuous array of grid items
   const gridItems = useMemo(() => {
@@ -68,7 +108,8 @@ export default function ClientPage({ initialBooks }: ClientPageProps) {
         items.push({
           type: 'book',
           book,
-          episodeId: episode.id
+          episodeId: episode.id,
+          highlightTerms: searchHits?.get(book.id)?.terms
         })
       })
     })
@@ -85,7 +126,7 @@ export default function ClientPage({ initialBooks }: ClientPageProps) {
     }
 
     return items
-  }, [filteredEpisodes, isMobile])
+  }, [filteredEpisodes, isMobile, searchHits])
 
   // Build a key from the currently rendered episode section IDs for scroll spy
   const sectionsKey = filteredEpisodes.map(e => e.id).join('|')
@@ -93,9 +134,32 @@ export default function ClientPage({ initialBooks }: ClientPageProps) {
   // Set up scroll spy (rebind when the set of visible sections changes)
   const { jumpTo } = useScrollSpy(setActiveEpisode, sectionsKey)
 
+  // Scroll to the episode from the URL (on load and back/forward) once its books are on the page
+  useEffect(() => {
+    if (!pendingJump) return
+    const episode = filteredEpisodes.find(episode => episode.slug === pendingJump)
+    if (!episode) return
+
+    setPendingJump(undefined)
+    setActiveEpisode(episode.id)
+    jumpTo(episode.id)
+  }, [pendingJump, filteredEpisodes, jumpTo])
+
   const handleEpisodeClick = (episodeId: string) => {
     setActiveEpisode(episodeId)
     jumpTo(episodeId)
+
+    const episode = filteredEpisodes.find(episode => episode.id === episodeId)
+    if (episode) updateFilters({ episode: episode.slug }, 'push')
+  }
+
+  const setActiveCategory = (next: string) => {
+    updateFilters({ category: next === ALL_CATEGORIES ? undefined : next, episode: undefined }, 'push')
+  }
+
+  // Starting or clearing a search is a history step; refining one replaces it
+  const setSearchTerm = (term: string) => {
+    updateFilters({ search: term, episode: undefined }, searchTerm && term ? 'replace' : 'push')
   }
 
   return (
@@ -110,6 +174,7 @@ export default function ClientPage({ initialBooks }: ClientPageProps) {
           episodes={filteredEpisodes}
           activeEpisode={activeEpisode}
           onEpisodeClick={handleEpisodeClick}
+          highlightTerms={highlightTerms}
         />
       </aside>
 
@@ -123,6 +188,7 @@ export default function ClientPage({ initialBooks }: ClientPageProps) {
           onEpisodeClick={handleEpisodeClick}
           searchTerm={searchTerm}
           setSearchTerm={setSearchTerm}
+          highlightTerms={highlightTerms}
         />
 
         {/* Desktop Gray Header Bar - Fixed */}
@@ -152,6 +218,11 @@ export default function ClientPage({ initialBooks }: ClientPageProps) {
         {/* Scrollable Content */}
         <div id="shelfScroll" className="flex-1 overflow-y-auto min-h-0 p-4 md:p-8 lg:p-12">
           <div className="pt-[130px] md:pt-[100px]">
+            <CategoryNav
+              activeCategory={category ?? ALL_CATEGORIES}
+              setActiveCategory={setActiveCategory}
+              counts={categoryCounts}
+            />
             <ShelfGrid items={gridItems} />
           </div>
         </div>
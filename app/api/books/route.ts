@@ -0,0 +1,36 @@
+import type { NextRequest } from 'next/server'
+import { ApiError, errorResponse, jsonResponse, parseIntegerParam, parsePagination } from '@/lib/api'
+import { getBooks, getEpisodes } from '@/lib/books'
+import { filterBooks, paginate } from '@/lib/bookQuery'
+
+/**
+ * GET /api/books?category=&season=&author=&episode=&page=&pageSize=
+ * `episode` accepts an episode slug or its `${season}-${episode}` id.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const { page, pageSize } = parsePagination(params)
+
+    let episodeId: string | undefined
+    const episodeParam = params.get('episode')
+    if (episodeParam) {
+      const episodes = await getEpisodes()
+      const episode = episodes.find(episode => episode.slug === episodeParam || episode.id === episodeParam)
+      if (!episode) throw new ApiError(404, 'episode_not_found', `No episode matches "${episodeParam}"`)
+      episodeId = episode.id
+    }
+
+    const books = filterBooks(await getBooks(), {
+      category: params.get('category') || undefined,
+      season: parseIntegerParam(params, 'season'),
+      author: params.get('author') || undefined,
+      episodeId
+    })
+
+    const { items, ...pagination } = paginate(books, page, pageSize)
+    return jsonResponse(request, items, pagination)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
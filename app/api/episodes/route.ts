@@ -0,0 +1,15 @@
+import type { NextRequest } from 'next/server'
+import { errorResponse, jsonResponse } from '@/lib/api'
+import { getEpisodes } from '@/lib/books'
+
+/**
+ * GET /api/episodes — every episode, newest first, with its books (groupBooksByEpisode).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const episodes = await getEpisodes()
+    return jsonResponse(request, episodes, { total: episodes.length })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
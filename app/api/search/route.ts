@@ -0,0 +1,21 @@
+import type { NextRequest } from 'next/server'
+import { ApiError, errorResponse, jsonResponse, parsePagination } from '@/lib/api'
+import { getBooks } from '@/lib/books'
+import { paginate, searchBooks } from '@/lib/bookQuery'
+
+/**
+ * GET /api/search?q=&page=&pageSize= — matches titles, authors, episode names and subjects.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const query = params.get('q')?.trim()
+    if (!query) throw new ApiError(400, 'missing_query', '"q" is required')
+
+    const { page, pageSize } = parsePagination(params)
+    const { items, ...pagination } = paginate(searchBooks(await getBooks(), query), page, pageSize)
+    return jsonResponse(request, items, { query, ...pagination })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
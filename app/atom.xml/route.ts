@@ -0,0 +1,8 @@
+import { feedResponse, renderAtom } from '@/lib/feeds'
+
+/**
+ * GET /atom.xml — Atom feed of newly added books. Scope with ?category= or ?episode=<slug>.
+ */
+export async function GET(request: Request) {
+  return feedResponse(request, renderAtom, 'application/atom+xml')
+}
@@ -0,0 +1,192 @@
+import type { Metadata } from 'next'
+import Image from 'next/image'
+import Link from 'next/link'
+import { notFound, permanentRedirect } from 'next/navigation'
+import { ArrowLeft, ArrowUpRight } from 'lucide-react'
+import BookCard from '@/components/BookCard'
+import { getBookById, getBooks, getEpisodes } from '@/lib/books'
+import { getEpisodeId, getEpisodeUrl } from '@/lib/groupBooks'
+import { getRelatedBooks } from '@/lib/relatedBooks'
+import { bookCategories } from '@/lib/categoryMapping'
+import { normalizeAuthor, toTitleCase } from '../../../lib/title-case'
+import { isIsbn10, isbn10To13 } from '../../../lib/isbn'
+
+export const revalidate = 86400 // match the home page so newly scraped books get a page
+
+interface BookPageProps {
+  params: Promise<{ id: string }>
+}
+
+export async function generateStaticParams() {
+  const books = await getBooks()
+  return books.map(book => ({ id: book.id }))
+}
+
+export async function generateMetadata({ params }: BookPageProps): Promise<Metadata> {
+  const { id } = await params
+  const book = await getBookById(id)
+  if (!book) return {}
+
+  const title = toTitleCase(book.title)
+  const episodeNames = book.episodeRefs.map(ref => `"${ref.name}"`).join(', ')
+  return {
+    title: `${title} — Acquired Bookshelf`,
+    description: `${title} by ${normalizeAuthor(book.author)}, mentioned on Acquired in ${episodeNames}.`
+  }
+}
+
+export default async function BookPage({ params }: BookPageProps) {
+  const { id } = await params
+  const [book, books, episodes] = await Promise.all([getBookById(id), getBooks(), getEpisodes()])
+  if (!book) notFound()
+  // Edition ids resolve to their work; send them to the canonical page
+  if (book.id !== id) permanentRedirect(`/books/${book.id}`)
+
+  const title = toTitleCase(book.title)
+  const author = normalizeAuthor(book.author)
+  const { firstPublishYear, subjects = [], olid } = book.metadata ?? {}
+
+  // Resolve refs through the grouped episodes so links use the same (deduplicated) slugs
+  const citingEpisodes = book.episodeRefs
+    .map(ref => episodes.find(episode => episode.id === getEpisodeId(ref)))
+    .filter(episode => episode !== undefined)
+    .sort((a, b) => b.seasonNumber - a.seasonNumber || b.episodeNumber - a.episodeNumber)
+
+  const relatedBooks = getRelatedBooks(book, books)
+
+  return (
+    <main className="min-h-dvh">
+      <header className="bg-sidebar-bg border-b border-gray-400 px-4 md:px-8 lg:px-12 py-6">
+        <Link
+          href="/"
+          className="inline-flex items-center gap-1 text-sm text-sidebar-code hover:text-black"
+        >
+          <ArrowLeft size={16} />
+          All books
+        </Link>
+
+        <div className="mt-4 flex flex-col sm:flex-row gap-6">
+          <div className="relative w-[180px] h-[270px] flex-shrink-0 bg-gray-100 border border-gray-200 overflow-hidden">
+            <Image
+              src={book.coverUrl}
+              alt={title}
+              fill
+              sizes="180px"
+              className="object-cover object-center"
+              priority
+            />
+          </div>
+
+          <div className="flex flex-col gap-2 min-w-0">
+            <ul aria-label="Categories" className="flex flex-wrap gap-1.5">
+              {bookCategories(book).map((category, index) => (
+                <li
+                  key={category}
+                  className={`inline-flex items-center rounded-full px-3 py-1 w-fit ${index === 0 ? 'bg-[#575757]' : 'bg-[#8a8a8a]'}`}
+                >
+                  <span className="text-[10px] font-light text-white">{category}</span>
+                </li>
+              ))}
+            </ul>
+            <h1 className="text-2xl font-bold text-gray-900">{title}</h1>
+            <p className="text-base text-gray-700">{author}</p>
+
+            <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+              {firstPublishYear && (
+                <>
+                  <dt className="font-mono text-xs text-sidebar-code leading-5">First published</dt>
+                  <dd className="text-gray-900">{firstPublishYear}</dd>
+                </>
+              )}
+              {olid && (
+                <>
+                  <dt className="font-mono text-xs text-sidebar-code leading-5">Open Library</dt>
+                  <dd>
+                    <a
+                      href={`https://openlibrary.org/works/${olid}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-gray-900 underline decoration-gray-500 hover:decoration-gray-900"
+                    >
+                      {olid}
+                    </a>
+                  </dd>
+                </>
+              )}
+            </dl>
+
+            {subjects.length > 0 && (
+              <ul aria-label="Subjects" className="mt-1 flex flex-wrap gap-1.5">
+                {subjects.map(subject => (
+                  <li key={subject} className="rounded-full border border-gray-400 px-2 py-0.5 text-xs text-gray-700">
+                    {subject}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {book.editions && book.editions.length > 1 ? (
+              <ul aria-label="Editions" className="mt-2 flex flex-col gap-1">
+                {book.editions.map(edition => (
+                  <li key={edition.id} className="flex items-baseline gap-3 text-sm">
+                    <a
+                      href={edition.amazonUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 font-medium text-gray-900 underline decoration-gray-500 hover:decoration-gray-900"
+                    >
+                      {edition.format === 'kindle' ? 'Kindle' : 'Print'} on Amazon
+                      <ArrowUpRight size={14} />
+                    </a>
+                    {edition.format === 'print' && isIsbn10(edition.id) && (
+                      <span className="font-mono text-xs text-sidebar-code">ISBN {isbn10To13(edition.id)}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <a
+                href={book.amazonUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-2 inline-flex items-center gap-1 w-fit text-sm font-medium text-gray-900 underline decoration-gray-500 hover:decoration-gray-900"
+              >
+                View on Amazon
+                <ArrowUpRight size={14} />
+              </a>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <section aria-labelledby="cited-in" className="px-4 md:px-8 lg:px-12 pt-6">
+        <h2 id="cited-in" className="text-lg font-bold text-gray-900">
+          Mentioned in {citingEpisodes.length} episode{citingEpisodes.length === 1 ? '' : 's'}
+        </h2>
+        <ul className="mt-3 flex flex-col gap-2">
+          {citingEpisodes.map(episode => (
+            <li key={episode.id}>
+              <Link href={getEpisodeUrl(episode)} className="group inline-flex items-baseline gap-3">
+                <span className="font-mono font-extrabold text-xs text-sidebar-code">
+                  S{episode.seasonNumber} E{episode.episodeNumber}
+                </span>
+                <span className="text-gray-900 group-hover:underline">{episode.name}</span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      {relatedBooks.length > 0 && (
+        <section aria-labelledby="also-on-the-shelf" className="p-4 md:p-8 lg:p-12">
+          <h2 id="also-on-the-shelf" className="mb-4 text-lg font-bold text-gray-900">Also on the shelf</h2>
+          <div className="flex flex-wrap gap-[20px] md:gap-[30px]">
+            {relatedBooks.map(related => (
+              <BookCard key={related.id} book={related} size="sm" />
+            ))}
+          </div>
+        </section>
+      )}
+    </main>
+  )
+}
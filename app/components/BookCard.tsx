@@ -2,21 +2,31 @@
 'use client'
 
 import { Book } from '@/lib/data'
+import { getBookUrl, getEpisodeId } from '@/lib/groupBooks'
+import Highlight from './Highlight'
 import Image from 'next/image'
+import Link from 'next/link'
 
 interface BookCardProps {
   book: Book
   size: 'sm' | 'lg'
   episodeId?: string
   priority?: boolean
+  highlightTerms?: string[]
 }
 
+const EDITION_LABELS = { kindle: 'Kindle', print: 'Print' } as const
+
 const COVER_BLUR_DATA_URL =
   'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTgwIiBoZWlnaHQ9IjI0MCIgdmlld0JveD0iMCAwIDE4MCAyNDAiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZyI+PHJlY3QgZmlsbD0iI2U1ZTVlMiIgd2lkdGg9IjE4MCIgaGVpZ2h0PSIyNDAiLz48cmVjdCB4PSIyMCIgeT0iMjIiIHdpZHRoPSIxNDAiIGhlaWdodD0iMTk2IiByeD0iNiIgZmlsbD0iI2QwZDFjYyIvPjxwYXRoIGQ9Ik0zNiAxODhoMTA4IiBzdHJva2U9IiNiN2I4YjIiIHN0cm9rZS13aWR0aD0iMTAiIHN0cm9rZS1saW5lY2FwPSJyb3VuZCIvPjxwYXRoIGQ9Ik0zNiAyMDZoODQiIHN0cm9rZT0iI2I3YjhiMiIgc3Ryb2tlLXdpZHRoPSI4IiBzdHJva2UtbGluZWNhcD0icm91bmQiLz48L3N2Zz4='
 
-export default function BookCard({ book, size, episodeId, priority = false }: BookCardProps) {
+export default function BookCard({ book, size, episodeId, priority = false, highlightTerms }: BookCardProps) {
   const isBig = size === 'lg'
 
+  // Badge shows the episode this card is rendered under, falling back to the first citation
+  const episodeRef = book.episodeRefs.find(ref => getEpisodeId(ref) === episodeId) ?? book.episodeRefs[0]
+  const citationCount = book.episodeRefs.length
+
   // ALL tiles are 320px tall - same height for small and large
   // Image: 180px, Metadata: 140px (180 + 140 = 320)
   const imageHeight = 'h-[180px]'
@@ -45,7 +55,11 @@ export default function BookCard({ book, size, episodeId, priority = false }: Bo
       }}
     >
       {/* Cover image - EXPLICIT HEIGHT 180px */}
-      <div className={`relative ${imageHeight} bg-gray-100 overflow-hidden flex-shrink-0`}>
+      <Link
+        href={getBookUrl(book)}
+        aria-label={`${book.title} details`}
+        className={`relative block ${imageHeight} bg-gray-100 overflow-hidden flex-shrink-0`}
+      >
         <Image
           src={book.coverUrl}
           alt={book.title}
@@ -58,12 +72,22 @@ export default function BookCard({ book, size, episodeId, priority = false }: Bo
         />
 
         {/* Episode badge overlay - top right */}
-        {book.episodeRef && (
+        {episodeRef && (
           <div className="absolute top-2 right-2 bg-gray-900/70 text-white px-2 py-1 rounded text-[10px] font-medium">
-            S{book.episodeRef.seasonNumber}, E{book.episodeRef.episodeNumber}
+            S{episodeRef.seasonNumber}, E{episodeRef.episodeNumber}
           </div>
         )}
-      </div>
+
+        {/* Multi-episode indicator - top left */}
+        {citationCount > 1 && (
+          <div
+            className="absolute top-2 left-2 bg-active-green text-black px-2 py-1 rounded text-[10px] font-medium"
+            title={book.episodeRefs.map(ref => ref.name).join(', ')}
+          >
+            Cited in {citationCount} episodes
+          </div>
+        )}
+      </Link>
 
       {/* Meta section - EXPLICIT HEIGHT 140px */}
       <div className={`${metaHeight} p-4 flex flex-col gap-1.5 flex-shrink-0 overflow-hidden`} style={{ backgroundColor: '#D9D9D9' }}>
@@ -73,21 +97,45 @@ export default function BookCard({ book, size, episodeId, priority = false }: Bo
         </div>
 
         {/* Title - 14px bold */}
-        <h3 className={`${titleSize} font-bold text-gray-900 line-clamp-2 leading-tight`}>{book.title}</h3>
+        <h3 className={`${titleSize} font-bold text-gray-900 line-clamp-2 leading-tight`}>
+          <Link href={getBookUrl(book)} className="hover:underline">
+            <Highlight text={book.title} terms={highlightTerms} />
+          </Link>
+        </h3>
 
         {/* Author - 12px regular */}
-        <p className={`${authorSize} font-normal text-gray-600 line-clamp-1`}>{book.author}</p>
-
-        {/* Amazon link - 9px medium with 5% letter-spacing */}
-        <a
-          href={book.amazonUrl}
-          target="_blank"
-          rel="noopener noreferrer"
-          className={`mt-auto ${linkSize} font-medium text-gray-700 hover:text-gray-900 underline decoration-gray-400 hover:decoration-gray-700`}
-          style={{ letterSpacing: '0.05em' }}
-        >
-          View on Amazon ↗
-        </a>
+        <p className={`${authorSize} font-normal text-gray-600 line-clamp-1`}>
+          <Highlight text={book.author} terms={highlightTerms} />
+        </p>
+
+        {/* Amazon link(s) - 9px medium with 5% letter-spacing; one per edition when grouped */}
+        {book.editions && book.editions.length > 1 ? (
+          <p className={`mt-auto ${linkSize} font-medium text-gray-700`} style={{ letterSpacing: '0.05em' }}>
+            {book.editions.map((edition, index) => (
+              <span key={edition.id}>
+                {index > 0 && ' · '}
+                <a
+                  href={edition.amazonUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="hover:text-gray-900 underline decoration-gray-400 hover:decoration-gray-700"
+                >
+                  {EDITION_LABELS[edition.format]} ↗
+                </a>
+              </span>
+            ))}
+          </p>
+        ) : (
+          <a
+            href={book.amazonUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className={`mt-auto ${linkSize} font-medium text-gray-700 hover:text-gray-900 underline decoration-gray-400 hover:decoration-gray-700`}
+            style={{ letterSpacing: '0.05em' }}
+          >
+            View on Amazon ↗
+          </a>
+        )}
       </div>
     </article>
   )
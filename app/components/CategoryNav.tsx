@@ -3,14 +3,15 @@
 
 import { useRef, useEffect } from 'react'
 import { ChevronLeft, ChevronRight } from 'lucide-react'
-import { TARGET_CATEGORIES } from '@/lib/categoryMapping'
+import { ALL_CATEGORIES, TARGET_CATEGORIES } from '@/lib/categoryMapping'
 
 interface CategoryNavProps {
   activeCategory: string;
   setActiveCategory: (category: string) => void;
+  counts: Record<string, number>;
 }
 
-export default function CategoryNav({ activeCategory, setActiveCategory }: CategoryNavProps) {
+export default function CategoryNav({ activeCategory, setActiveCategory, counts }: CategoryNavProps) {
   const scrollContainerRef = useRef<HTMLDivElement>(null)
 
   const scroll = (direction: 'left' | 'right') => {
@@ -47,19 +48,31 @@ export default function CategoryNav({ activeCategory, setActiveCategory }: Categ
           className="flex space-x-4 overflow-x-auto scrollbar-hide"
           style={{ scrollBehavior: 'smooth' }}
         >
-          {TARGET_CATEGORIES.map((category) => (
-            <button
-              key={category}
-              onClick={() => setActiveCategory(category)}
-              className={`whitespace-nowrap px-4 py-2 rounded-full ${
-                activeCategory === category
-                  ? 'bg-[#5ebd9c] text-white'
-                  : 'bg-gray-200 text-gray-800 hover:bg-gray-300'
-              }`}
-            >
-              {category}
-            </button>
-          ))}
+          {TARGET_CATEGORIES.map((category) => {
+            const count = counts[category] || 0
+            const isActive = activeCategory === category
+            // Empty categories stay visible (greyed out) so the nav doesn't jump around while searching
+            const isEmpty = count === 0 && !isActive && category !== ALL_CATEGORIES
+
+            return (
+              <button
+                key={category}
+                onClick={() => setActiveCategory(category)}
+                disabled={isEmpty}
+                aria-pressed={isActive}
+                className={`whitespace-nowrap px-4 py-2 rounded-full text-sm ${
+                  isActive
+                    ? 'bg-active-green text-black'
+                    : isEmpty
+                      ? 'bg-gray-100 text-gray-400 cursor-default'
+                      : 'bg-gray-200 text-gray-800 hover:bg-gray-300'
+                }`}
+              >
+                {category}
+                <span className="ml-1.5 font-mono text-xs opacity-70">{count}</span>
+              </button>
+            )
+          })}
         </div>
       </div>
       <button 
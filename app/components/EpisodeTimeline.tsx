@@ -1,9 +1,11 @@
 'use client'
 
-import { X } from 'lucide-react'
+import { ArrowUpRight, X } from 'lucide-react'
 import Image from 'next/image'
-import { Episode } from '@/lib/groupBooks'
+import Link from 'next/link'
+import { Episode, getEpisodeUrl } from '@/lib/groupBooks'
 import PodcastLinks from './PodcastLinks'
+import Highlight from './Highlight'
 
 interface EpisodeTimelineProps {
   episodes: Episode[]
@@ -11,9 +13,10 @@ interface EpisodeTimelineProps {
   onEpisodeClick: (episodeId: string) => void
   showCloseButton?: boolean
   onClose?: () => void
+  highlightTerms?: string[]
 }
 
-export default function EpisodeTimeline({ episodes, activeEpisode, onEpisodeClick, showCloseButton, onClose }: EpisodeTimelineProps) {
+export default function EpisodeTimeline({ episodes, activeEpisode, onEpisodeClick, showCloseButton, onClose, highlightTerms }: EpisodeTimelineProps) {
   return (
     <div className="w-full h-full bg-sidebar-bg flex flex-col">
       {/* Header with logo */}
@@ -43,32 +46,48 @@ export default function EpisodeTimeline({ episodes, activeEpisode, onEpisodeClic
       {/* Episodes list - scrollable flex item */}
       <div className="flex-1 overflow-y-auto min-h-0">
         {episodes.map((episode) => (
-          <button
+          <div
             key={episode.id}
-            onClick={() => onEpisodeClick(episode.id)}
-            className={`w-full text-left px-6 py-3 transition-all duration-200 ${
+            className={`group relative flex items-stretch transition-all duration-200 ${
               activeEpisode === episode.id
                 ? 'bg-active-green text-black'
-                : 'hover:bg-hover-gray text-sidebar-text active:scale-95 active:bg-gray-400'
+                : 'hover:bg-hover-gray text-sidebar-text'
             }`}
           >
-            <div className="flex flex-col gap-1 w-full">
-              <div
-                className={`font-mono font-extrabold text-xs ${
-                  activeEpisode === episode.id ? 'text-black' : 'text-sidebar-code'
-                }`}
-              >
-                S{episode.seasonNumber} E{episode.episodeNumber}
-              </div>
-              <div
-                className={`font-medium text-sm line-clamp-2 ${
-                  activeEpisode === episode.id ? 'text-black' : 'text-sidebar-text'
-                }`}
-              >
-                {episode.name}
+            <button
+              onClick={() => onEpisodeClick(episode.id)}
+              className={`flex-1 min-w-0 text-left pl-6 pr-2 py-3 ${
+                activeEpisode === episode.id ? '' : 'active:scale-95 active:bg-gray-400'
+              }`}
+            >
+              <div className="flex flex-col gap-1 w-full">
+                <div
+                  className={`font-mono font-extrabold text-xs ${
+                    activeEpisode === episode.id ? 'text-black' : 'text-sidebar-code'
+                  }`}
+                >
+                  S{episode.seasonNumber} E{episode.episodeNumber}
+                </div>
+                <div
+                  className={`font-medium text-sm line-clamp-2 ${
+                    activeEpisode === episode.id ? 'text-black' : 'text-sidebar-text'
+                  }`}
+                >
+                  <Highlight text={episode.name} terms={highlightTerms} />
+                </div>
               </div>
-            </div>
-          </button>
+            </button>
+
+            {/* Shareable episode page */}
+            <Link
+              href={getEpisodeUrl(episode)}
+              className="flex items-center pr-6 pl-2 text-sidebar-code hover:text-black"
+              aria-label={`Open ${episode.name} episode page`}
+              title="Open episode page"
+            >
+              <ArrowUpRight size={16} />
+            </Link>
+          </div>
         ))}
       </div>
 
@@ -0,0 +1,25 @@
+import { highlightSegments } from '../../lib/search-index'
+
+interface HighlightProps {
+  text: string
+  terms?: string[]
+}
+
+// Wraps the words of `text` that matched the current search in <mark>
+export default function Highlight({ text, terms }: HighlightProps) {
+  if (!terms || terms.length === 0) return <>{text}</>
+
+  return (
+    <>
+      {highlightSegments(text, terms).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-active-green text-inherit rounded-sm px-[1px]">
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  )
+}
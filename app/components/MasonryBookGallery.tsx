@@ -2,6 +2,7 @@
 
 import { useRef, useEffect } from 'react'
 import { Book } from '@/lib/data'
+import { getEpisodeId } from '@/lib/groupBooks'
 import BookTile from './BookTile'
 
 interface MasonryBookGalleryProps {
@@ -17,7 +18,7 @@ export default function MasonryBookGallery({ books, activeEpisode, onScroll }: M
   useEffect(() => {
     if (activeEpisode && containerRef.current) {
       const targetBook = books.find(book => 
-        book.episodeRef && `${book.episodeRef.seasonNumber}-${book.episodeRef.episodeNumber}` === activeEpisode
+        book.episodeRefs.some(ref => getEpisodeId(ref) === activeEpisode)
       )
       if (targetBook) {
         const bookElement = document.getElementById(`book-${targetBook.id}`)
@@ -69,9 +70,8 @@ export default function MasonryBookGallery({ books, activeEpisode, onScroll }: M
             }
           }
 
-          if (currentBook && currentBook.episodeRef) {
-            const episodeId = `${currentBook.episodeRef.seasonNumber}-${currentBook.episodeRef.episodeNumber}`
-            onScroll(episodeId)
+          if (currentBook && currentBook.episodeRefs.length > 0) {
+            onScroll(getEpisodeId(currentBook.episodeRefs[0]))
           }
           
           ticking = false
@@ -107,7 +107,7 @@ export default function MasonryBookGallery({ books, activeEpisode, onScroll }: M
               id={`book-${book.id}`}
               className="break-inside-avoid"
             >
-              <BookTile {...book} size={getBookSize(index, book.id)} />
+              <BookTile {...book} episodeRef={book.episodeRefs[0] ?? null} size={getBookSize(index, book.id)} />
             </div>
           ))}
         </div>
@@ -9,9 +9,10 @@ interface MobileMenuProps {
   episodes: Episode[]
   activeEpisode?: string
   onEpisodeClick: (episodeId: string) => void
+  highlightTerms?: string[]
 }
 
-export default function MobileMenu({ episodes, activeEpisode, onEpisodeClick }: MobileMenuProps) {
+export default function MobileMenu({ episodes, activeEpisode, onEpisodeClick, highlightTerms }: MobileMenuProps) {
   const [isOpen, setIsOpen] = useState(false)
 
   const handleEpisodeClick = (episodeId: string) => {
@@ -51,6 +52,7 @@ export default function MobileMenu({ episodes, activeEpisode, onEpisodeClick }:
               onEpisodeClick={handleEpisodeClick}
               showCloseButton={true}
               onClose={() => setIsOpen(false)}
+              highlightTerms={highlightTerms}
             />
           </div>
         </div>
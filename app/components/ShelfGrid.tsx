@@ -8,7 +8,7 @@ import QuoteBlock from './QuoteBlock'
 
 // Grid item can be either a book or a quote
 export type GridItem =
-  | { type: 'book'; book: Book; episodeId: string }
+  | { type: 'book'; book: Book; episodeId: string; highlightTerms?: string[] }
   | { type: 'quote'; quote: Quote }
 
 interface ShelfGridProps {
@@ -100,11 +100,12 @@ export default function ShelfGrid({ items }: ShelfGridProps) {
 
         return (
           <BookCard
-            key={item.book.id}
+            key={`${item.episodeId}-${item.book.id}`}
             book={item.book}
             size={size}
             episodeId={item.episodeId}
             priority={bookIndex < columnCount * 2}
+            highlightTerms={item.highlightTerms}
           />
         )
       })}
@@ -10,9 +10,10 @@ interface TopBarProps {
   onEpisodeClick: (episodeId: string) => void
   searchTerm: string
   setSearchTerm: (term: string) => void
+  highlightTerms?: string[]
 }
 
-export default function TopBar({ episodes, showIntroModal, activeEpisode, onEpisodeClick, searchTerm, setSearchTerm }: TopBarProps) {
+export default function TopBar({ episodes, showIntroModal, activeEpisode, onEpisodeClick, searchTerm, setSearchTerm, highlightTerms }: TopBarProps) {
   return (
     <header className="fixed top-0 left-0 right-0 bg-sidebar-bg border-b border-gray-400 z-50 md:hidden">
       <div className="p-4">
@@ -22,6 +23,7 @@ export default function TopBar({ episodes, showIntroModal, activeEpisode, onEpis
               episodes={episodes}
               activeEpisode={activeEpisode}
               onEpisodeClick={onEpisodeClick}
+              highlightTerms={highlightTerms}
             />
             <Image
               src="/acq-bookshelf-logo.svg"
@@ -0,0 +1,113 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { ArrowLeft, ArrowUpRight } from 'lucide-react'
+import BookCard from '@/components/BookCard'
+import { getEpisodeBySlug, getEpisodes, getOtherMentions } from '@/lib/books'
+import { getAcquiredEpisodeUrl } from '@/lib/groupBooks'
+
+export const revalidate = 86400 // match the home page so newly scraped episodes get a page
+
+interface EpisodePageProps {
+  params: Promise<{ slug: string }>
+}
+
+export async function generateStaticParams() {
+  const episodes = await getEpisodes()
+  return episodes.map(episode => ({ slug: episode.slug }))
+}
+
+export async function generateMetadata({ params }: EpisodePageProps): Promise<Metadata> {
+  const { slug } = await params
+  const episode = await getEpisodeBySlug(slug)
+  if (!episode) return {}
+
+  const bookCount = `${episode.books.length} book${episode.books.length === 1 ? '' : 's'}`
+  return {
+    title: `${episode.name} — Acquired Bookshelf`,
+    description: `${bookCount} from the Acquired episode "${episode.name}" (S${episode.seasonNumber} E${episode.episodeNumber}).`,
+    alternates: {
+      types: {
+        'application/rss+xml': `/feed.xml?episode=${encodeURIComponent(episode.slug)}`,
+        'application/atom+xml': `/atom.xml?episode=${encodeURIComponent(episode.slug)}`,
+        'application/feed+json': `/feed.json?episode=${encodeURIComponent(episode.slug)}`
+      }
+    }
+  }
+}
+
+export default async function EpisodePage({ params }: EpisodePageProps) {
+  const { slug } = await params
+  const episode = await getEpisodeBySlug(slug)
+  if (!episode) notFound()
+  const otherMentions = await getOtherMentions(episode)
+  const acquiredUrl = getAcquiredEpisodeUrl(episode)
+
+  return (
+    <main className="min-h-dvh">
+      <header className="bg-sidebar-bg border-b border-gray-400 px-4 md:px-8 lg:px-12 py-6">
+        <Link
+          href="/"
+          className="inline-flex items-center gap-1 text-sm text-sidebar-code hover:text-black"
+        >
+          <ArrowLeft size={16} />
+          All episodes
+        </Link>
+
+        <div className="mt-4 flex flex-col gap-1">
+          <div className="font-mono font-extrabold text-xs text-sidebar-code">
+            S{episode.seasonNumber} E{episode.episodeNumber}
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900">{episode.name}</h1>
+          {acquiredUrl && (
+            <a
+              href={acquiredUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 w-fit text-sm font-medium text-gray-900 underline decoration-gray-500 hover:decoration-gray-900"
+            >
+              Listen on acquired.fm
+              <ArrowUpRight size={14} />
+            </a>
+          )}
+        </div>
+      </header>
+
+      <section aria-label={`Books from ${episode.name}`} className="p-4 md:p-8 lg:p-12">
+        <div className="flex flex-wrap gap-[20px] md:gap-[30px]">
+          {episode.books.map((book, index) => (
+            <BookCard
+              key={book.id}
+              book={book}
+              size="sm"
+              episodeId={episode.id}
+              priority={index < 6}
+            />
+          ))}
+        </div>
+      </section>
+
+      {otherMentions.length > 0 && (
+        <section aria-labelledby="other-mentions" className="px-4 md:px-8 lg:px-12 pb-8">
+          <h2 id="other-mentions" className="text-lg font-bold text-gray-900">Other things mentioned</h2>
+          <ul className="mt-3 flex flex-col gap-2">
+            {otherMentions.map(mention => (
+              <li key={mention.id} className="flex items-baseline gap-3">
+                <span className="font-mono text-xs text-sidebar-code">{mention.productType}</span>
+                <a
+                  href={mention.amazonUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-gray-900 underline decoration-gray-500 hover:decoration-gray-900"
+                >
+                  {mention.title}
+                  <ArrowUpRight size={14} />
+                </a>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </main>
+  )
+}
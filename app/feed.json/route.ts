@@ -0,0 +1,8 @@
+import { feedResponse, renderJsonFeed } from '@/lib/feeds'
+
+/**
+ * GET /feed.json — JSON Feed 1.1 of newly added books. Scope with ?category= or ?episode=<slug>.
+ */
+export async function GET(request: Request) {
+  return feedResponse(request, renderJsonFeed, 'application/feed+json')
+}
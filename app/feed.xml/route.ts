@@ -0,0 +1,8 @@
+import { feedResponse, renderRss } from '@/lib/feeds'
+
+/**
+ * GET /feed.xml — RSS 2.0 feed of newly added books. Scope with ?category= or ?episode=<slug>.
+ */
+export async function GET(request: Request) {
+  return feedResponse(request, renderRss, 'application/rss+xml')
+}
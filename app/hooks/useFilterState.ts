@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { EMPTY_FILTER_STATE, FilterState, parseFilterState, serializeFilterState } from '@/lib/filterState'
+
+export type HistoryMode = 'push' | 'replace'
+
+/**
+ * Filter state mirrored into the URL. The URL is read once on mount and again
+ * on back/forward (`onRestore` fires both times so the page can scroll to the
+ * restored episode); `updateFilters` writes it as a new history entry
+ * ('push') or in place ('replace').
+ */
+export function useFilterState(onRestore?: (filters: FilterState) => void) {
+  const [filters, setFilters] = useState<FilterState>(EMPTY_FILTER_STATE)
+  const filtersRef = useRef(filters)
+  const onRestoreRef = useRef(onRestore)
+  onRestoreRef.current = onRestore
+
+  useEffect(() => {
+    const restore = () => {
+      const restored = parseFilterState(window.location.search, window.location.hash)
+      filtersRef.current = restored
+      setFilters(restored)
+      onRestoreRef.current?.(restored)
+    }
+
+    restore()
+    window.addEventListener('popstate', restore)
+    return () => window.removeEventListener('popstate', restore)
+  }, [])
+
+  const updateFilters = useCallback((patch: Partial<FilterState>, mode: HistoryMode) => {
+    const next = { ...filtersRef.current, ...patch }
+    filtersRef.current = next
+    setFilters(next)
+
+    const url = `${window.location.pathname}${serializeFilterState(next)}`
+    if (url === `${window.location.pathname}${window.location.search}${window.location.hash}`) return
+    if (mode === 'push') {
+      window.history.pushState(null, '', url)
+    } else {
+      window.history.replaceState(null, '', url)
+    }
+  }, [])
+
+  return { filters, updateFilters }
+}
@@ -1,4 +1,4 @@
-import { useEffect, useRef } from 'react'
+import { useCallback, useEffect, useRef } from 'react'
 
 export function useScrollSpy(setActiveId: (id: string) => void, depsKey?: string) {
   const suppressRef = useRef(false)
@@ -78,7 +78,7 @@ export function useScrollSpy(setActiveId: (id: string) => void, depsKey?: string
     return () => clearTimeout(timer)
   }, [setActiveId, depsKey])
 
-  const jumpTo = (episodeId: string) => {
+  const jumpTo = useCallback((episodeId: string) => {
     console.log('🎯 jumpTo called:', episodeId)
 
     // Ensure DOM has settled
@@ -132,7 +132,7 @@ export function useScrollSpy(setActiveId: (id: string) => void, depsKey?: string
         }, 800)
       })
     })
-  }
+  }, [])
 
   return { jumpTo }
 }
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react'
+import { Book } from '@/lib/data'
+import { buildSearchIndex, SEARCH_INDEX_VERSION, type SearchIndex } from '../../lib/search-index'
+
+const SEARCH_INDEX_URL = '/data/search-index.json'
+
+/**
+ * Load the prebuilt search index. Falls back to indexing `books` in the browser
+ * when the file is missing (e.g. `next dev` without predev), from an older
+ * index version, or stale — the page revalidates daily, the file only on deploy.
+ */
+export function useSearchIndex(books: Book[]): SearchIndex | null {
+  const [index, setIndex] = useState<SearchIndex | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const response = await fetch(SEARCH_INDEX_URL)
+        if (!response.ok) throw new Error(`Search index returned ${response.status}`)
+        const prebuilt: SearchIndex = await response.json()
+
+        const indexed = new Set(prebuilt.ids)
+        if (prebuilt.version === SEARCH_INDEX_VERSION && books.every(book => indexed.has(book.id))) {
+          return prebuilt
+        }
+      } catch (error) {
+        console.warn('Prebuilt search index unavailable, indexing in the browser:', error)
+      }
+      return buildSearchIndex(books)
+    }
+
+    load().then(loaded => {
+      if (!cancelled) setIndex(loaded)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [books])
+
+  return index
+}
@@ -0,0 +1,105 @@
+import { createHash } from 'crypto'
+
+/**
+ * Shared plumbing for the read-only JSON API under app/api/.
+ *
+ * Every response is wrapped in a versioned envelope so consumers can detect
+ * breaking changes: `{ apiVersion, data, meta? }` on success and
+ * `{ apiVersion, error: { code, message } }` on failure. Bump API_VERSION when
+ * the shape of `data` changes incompatibly.
+ */
+
+export const API_VERSION = 1
+
+// books.json changes at most twice a month; let the CDN serve stale copies while it revalidates
+export const CACHE_CONTROL = 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400'
+
+export const DEFAULT_PAGE_SIZE = 50
+export const MAX_PAGE_SIZE = 200
+
+export interface ApiEnvelope<T, M = undefined> {
+  apiVersion: typeof API_VERSION
+  data: T
+  meta?: M
+}
+
+export interface ApiErrorEnvelope {
+  apiVersion: typeof API_VERSION
+  error: {
+    code: string
+    message: string
+  }
+}
+
+export class ApiError extends Error {
+  status: number
+  code: string
+
+  constructor(status: number, code: string, message: string) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+    this.code = code
+  }
+}
+
+/**
+ * Serialize a success envelope with a strong ETag. Answers 304 when the
+ * client's If-None-Match already matches the body.
+ */
+export function jsonResponse<T, M>(request: Request, data: T, meta?: M): Response {
+  const envelope: ApiEnvelope<T, M> = meta === undefined ? { apiVersion: API_VERSION, data } : { apiVersion: API_VERSION, data, meta }
+  const body = JSON.stringify(envelope)
+  const etag = `"${createHash('sha1').update(body).digest('base64url')}"`
+  const headers = {
+    'Cache-Control': CACHE_CONTROL,
+    ETag: etag
+  }
+
+  const ifNoneMatch = request.headers.get('if-none-match')
+  if (ifNoneMatch && ifNoneMatch.split(',').some(tag => tag.trim() === etag)) {
+    return new Response(null, { status: 304, headers })
+  }
+
+  return new Response(body, {
+    status: 200,
+    headers: { ...headers, 'Content-Type': 'application/json; charset=utf-8' }
+  })
+}
+
+export function errorResponse(error: unknown): Response {
+  const apiError = error instanceof ApiError
+    ? error
+    : new ApiError(500, 'internal_error', 'Something went wrong loading the bookshelf')
+  if (!(error instanceof ApiError)) console.error('API error:', error)
+
+  const envelope: ApiErrorEnvelope = {
+    apiVersion: API_VERSION,
+    error: { code: apiError.code, message: apiError.message }
+  }
+  return Response.json(envelope, {
+    status: apiError.status,
+    headers: { 'Cache-Control': 'no-store' }
+  })
+}
+
+/**
+ * Parse an optional positive integer query parameter, rejecting anything else with a 400.
+ */
+export function parseIntegerParam(params: URLSearchParams, name: string, { min = 1, max = Number.MAX_SAFE_INTEGER } = {}): number | undefined {
+  const raw = params.get(name)
+  if (raw === null || raw === '') return undefined
+
+  const value = Number(raw)
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new ApiError(400, 'invalid_parameter', `"${name}" must be an integer between ${min} and ${max}`)
+  }
+  return value
+}
+
+export function parsePagination(params: URLSearchParams): { page: number; pageSize: number } {
+  return {
+    page: parseIntegerParam(params, 'page') ?? 1,
+    pageSize: parseIntegerParam(params, 'pageSize', { max: MAX_PAGE_SIZE }) ?? DEFAULT_PAGE_SIZE
+  }
+}
@@ -0,0 +1,65 @@
+import { Book } from './data'
+import { getEpisodeId } from './groupBooks'
+import { bookCategories } from './categoryMapping'
+import { buildSearchIndex, searchIndex, type SearchIndex } from '../../lib/search-index'
+
+export interface BookFilters {
+  category?: string
+  season?: number
+  author?: string
+  episodeId?: string               // `${seasonNumber}-${episodeNumber}`, see getEpisodeId
+}
+
+export interface Page<T> {
+  items: T[]
+  page: number
+  pageSize: number
+  total: number
+  totalPages: number
+}
+
+/**
+ * Narrow the shelf by any combination of filters. Category matches the primary
+ * or a secondary category exactly (case-insensitive); author matches any part of the author line.
+ */
+export function filterBooks(books: Book[], filters: BookFilters): Book[] {
+  const category = filters.category?.toLowerCase()
+  const author = filters.author?.toLowerCase()
+
+  return books.filter(book => {
+    if (category && !bookCategories(book).some(name => name.toLowerCase() === category)) return false
+    if (author && !book.author.toLowerCase().includes(author)) return false
+    if (filters.season !== undefined && !book.episodeRefs.some(ref => ref.seasonNumber === filters.season)) return false
+    if (filters.episodeId && !book.episodeRefs.some(ref => getEpisodeId(ref) === filters.episodeId)) return false
+    return true
+  })
+}
+
+// getBooks() caches its array, so the index is built once per loaded shelf
+const indexCache = new WeakMap<Book[], SearchIndex>()
+
+/**
+ * Ranked fuzzy search over title, author, episode names and subjects, using
+ * the same index and scoring as the in-browser search.
+ */
+export function searchBooks(books: Book[], query: string): Book[] {
+  let index = indexCache.get(books)
+  if (!index) {
+    index = buildSearchIndex(books)
+    indexCache.set(books, index)
+  }
+
+  const byId = new Map(books.map(book => [book.id, book]))
+  return searchIndex(index, query).map(hit => byId.get(hit.id)!)
+}
+
+export function paginate<T>(items: T[], page: number, pageSize: number): Page<T> {
+  const start = (page - 1) * pageSize
+  return {
+    items: items.slice(start, start + pageSize),
+    page,
+    pageSize,
+    total: items.length,
+    totalPages: Math.max(1, Math.ceil(items.length / pageSize))
+  }
+}
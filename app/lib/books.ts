@@ -2,6 +2,10 @@ import { promises as fs } from 'fs'
 import path from 'path'
 import { processBookData } from './processBooks'
 import { Book } from './data'
+import { Episode, getEpisodeId, groupBooksByEpisode } from './groupBooks'
+import { formatBookIssues, validateBooks } from '../../lib/book-schema'
+import { findByEditionId, groupEditions } from '../../lib/editions'
+import type { OtherMention } from '../../lib/other-mentions'
 
 
 // Add cache interface
@@ -25,8 +29,15 @@ export async function getBooks(): Promise<Book[]> {
     const booksData = JSON.parse(fileContents)
     
     const booksArray = Array.isArray(booksData) ? booksData : [booksData]
-    const processedBooks = processBookData(booksArray)
-    const books = processedBooks
+
+    // Skip malformed records rather than failing the whole page
+    const { books: validBooks, issues } = validateBooks(booksArray)
+    if (issues.length > 0) {
+      console.warn(`Skipping ${booksArray.length - validBooks.length} malformed books:\n${formatBookIssues(issues)}`)
+    }
+
+    // Kindle and print editions of the same work share one tile
+    const books = groupEditions(processBookData(validBooks))
     
     // Update cache
     booksCache = {
@@ -39,4 +50,38 @@ export async function getBooks(): Promise<Book[]> {
     console.error('Error loading books:', error)
     return []
   }
-} 
\ No newline at end of file
+}
+
+export async function getEpisodes(): Promise<Episode[]> {
+  return groupBooksByEpisode(await getBooks())
+}
+
+export async function getEpisodeBySlug(slug: string): Promise<Episode | null> {
+  const episodes = await getEpisodes()
+  return episodes.find(episode => episode.slug === slug) ?? null
+}
+
+/**
+ * Looks up a work by its own id or any of its editions' ids — callers redirect
+ * when the returned book's id differs from the one asked for.
+ */
+export async function getBookById(id: string): Promise<Book | null> {
+  const books = await getBooks()
+  return findByEditionId(books, id) ?? null
+}
+
+/**
+ * Non-book products an episode linked to (films, games, watches), shown under
+ * "Other things mentioned" when SHOW_OTHER_MENTIONS=true.
+ */
+export async function getOtherMentions(episode: Episode): Promise<OtherMention[]> {
+  if (process.env.SHOW_OTHER_MENTIONS !== 'true') return []
+
+  try {
+    const mentionsPath = path.join(process.cwd(), 'public', 'data', 'other-mentions.json')
+    const mentions: OtherMention[] = JSON.parse(await fs.readFile(mentionsPath, 'utf8'))
+    return mentions.filter(mention => mention.episodeRefs.some(ref => getEpisodeId(ref) === episode.id))
+  } catch {
+    return [] // nothing recorded yet
+  }
+}
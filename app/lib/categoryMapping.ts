@@ -1,55 +1,70 @@
 // app/lib/categoryMapping.ts
-export const TARGET_CATEGORIES = [
-    "All Books",
-    "Podcast",
-    "Business & Leadership",
-    "Technology & Innovation",
-    "Startups & Venture Capital", 
-    "Biographies & History",
-    "Science & Engineering",
-    "Economics & Finance",
-    "Fiction & Literature"
-  ] as const;
-  
-  export type TargetCategory = typeof TARGET_CATEGORIES[number];
-  
-  interface BookInfo {
-    title: string;
-    author: string;
-    category: string;
-  }
-  
-  export function mapToTargetCategory(book: BookInfo): TargetCategory {
-    const searchText = `${book.title} ${book.author} ${book.category}`.toLowerCase();
-  
-    // Order matters - check most specific categories first
-    if (searchText.match(/venture|startup|entrepreneur|vc|founder/)) {
-      return "Startups & Venture Capital";
-    }
-  
-    if (searchText.match(/comput|software|programming|tech|internet|digital|code|silicon valley/)) {
-      return "Technology & Innovation";  
-    }
-  
-    if (searchText.match(/business|leadership|management|strategy|ceo|executive/)) {
-      return "Business & Leadership";
-    }
-  
-    if (searchText.match(/biography|memoir|life|history|historical/)) {
-      return "Biographies & History";
+import { classifyBook, CATEGORIES, parseCategoryOverrides, type CategoryAssignment, type Category } from '../../lib/categories';
+import { extractAsin, isAsin } from '../../lib/book-schema';
+import categoryOverridesFile from '../../data/category-overrides.json';
+
+export const ALL_CATEGORIES = "All Books";
+
+// Nav order: the "All Books" pseudo-category, then the shared taxonomy
+export const TARGET_CATEGORIES = [ALL_CATEGORIES, ...CATEGORIES] as const;
+
+export type TargetCategory = Category;
+
+const { overrides: categoryOverrides, errors: overrideErrors } = parseCategoryOverrides(categoryOverridesFile);
+if (overrideErrors.length > 0) {
+  console.warn(`Ignoring invalid category overrides:\n${overrideErrors.join('\n')}`);
+}
+
+interface BookInfo {
+  id: string;
+  title: string;
+  author: string;
+  category: string;
+  categoryReviewed?: boolean;
+  amazonUrl: string;
+  secondaryCategories?: string[];
+  metadata?: { subjects?: string[] };
+}
+
+export function classifyStoredBook(book: BookInfo): CategoryAssignment {
+  const asin = isAsin(book.id) ? book.id : extractAsin(book.amazonUrl);
+  return classifyBook(
+    {
+      title: book.title,
+      author: book.author,
+      subjects: book.metadata?.subjects,
+      category: book.category,
+      categoryReviewed: book.categoryReviewed
+    },
+    asin ? categoryOverrides[asin] : undefined
+  );
+}
+
+export function mapToTargetCategory(book: BookInfo): TargetCategory {
+  return classifyStoredBook(book).primary;
+}
+
+// Primary first, then secondaries — a book is listed under each
+export function bookCategories(book: { category: string; secondaryCategories?: string[] }): string[] {
+  return [book.category, ...(book.secondaryCategories ?? [])];
+}
+
+/**
+ * Books per category (plus the "All Books" total), counting each book once
+ * even when it is listed under several episodes. Secondary categories count too.
+ */
+export function countByCategory(books: Array<{ id: string; category: string; secondaryCategories?: string[] }>): Record<string, number> {
+  const seen = new Set<string>();
+  const counts: Record<string, number> = { [ALL_CATEGORIES]: 0 };
+
+  for (const book of books) {
+    if (seen.has(book.id)) continue;
+    seen.add(book.id);
+    counts[ALL_CATEGORIES]++;
+    for (const category of bookCategories(book)) {
+      counts[category] = (counts[category] || 0) + 1;
     }
-  
-    if (searchText.match(/economics|finance|market|stock|investment|capital/)) {
-      return "Economics & Finance";
-    }
-  
-    if (searchText.match(/science|engineering|physics|research/)) {
-      return "Science & Engineering";
-    }
-  
-    if (searchText.match(/fiction|novel|story|fantasy|sci-fi|literature/)) {
-      return "Fiction & Literature";
-    }
-  
-    return "Business & Leadership";
-  }
\ No newline at end of file
+  }
+
+  return counts;
+}
@@ -1,16 +1,2 @@
-// Define interfaces
-export interface EpisodeRef {
-    name: string
-    seasonNumber: number
-    episodeNumber: number
-  }
-  
-  export interface Book {
-    id: string
-    amazonUrl: string
-    title: string
-    author: string
-    coverUrl: string
-    category: string
-    episodeRef: EpisodeRef | null
-  }
\ No newline at end of file
+// Book records are defined once in lib/book-schema.ts and shared with the scripts
+export type { Book, BookMetadataFields, BookSource, EpisodeRef } from '../../lib/book-schema'
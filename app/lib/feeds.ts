@@ -0,0 +1,274 @@
+import { Book } from './data'
+import { Episode, getBookUrl, getEpisodeId, getEpisodeUrl } from './groupBooks'
+import { CACHE_CONTROL } from './api'
+import { getBooks, getEpisodes } from './books'
+import { bookCategories } from './categoryMapping'
+
+/**
+ * Subscription feeds of newly added books (/feed.xml, /atom.xml, /feed.json).
+ *
+ * Only books stamped with `addedAt` are included — the original hand-curated
+ * rows predate it. Each feed item is one episode, listing the books that
+ * episode added, so a scrape that adds six books produces one entry, not six.
+ */
+
+export const SITE_URL = (process.env.SITE_URL || 'https://acquired-bookshelf.vercel.app').replace(/\/$/, '')
+
+const FEED_ITEM_LIMIT = 20
+
+export interface FeedScope {
+  category?: string
+  episodeSlug?: string
+}
+
+export interface FeedItem {
+  id: string
+  url: string
+  title: string
+  episode: Episode
+  books: Book[]
+  updated: Date
+}
+
+export interface Feed {
+  title: string
+  description: string
+  homeUrl: string
+  query: string                    // scope as a query string, appended to each format's self URL
+  updated: Date
+  items: FeedItem[]
+}
+
+export class FeedScopeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FeedScopeError'
+  }
+}
+
+export function absoluteUrl(pathOrUrl: string): string {
+  return pathOrUrl.startsWith('/') ? `${SITE_URL}${pathOrUrl}` : pathOrUrl
+}
+
+export function parseFeedScope(params: URLSearchParams): FeedScope {
+  return {
+    category: params.get('category') || undefined,
+    episodeSlug: params.get('episode') || undefined
+  }
+}
+
+function scopeQuery(scope: FeedScope): string {
+  const params = new URLSearchParams()
+  if (scope.category) params.set('category', scope.category)
+  if (scope.episodeSlug) params.set('episode', scope.episodeSlug)
+  const query = params.toString()
+  return query ? `?${query}` : ''
+}
+
+/**
+ * Group the most recently added books into per-episode items, newest first.
+ * A book is filed under the episode it was added for — the first entry in
+ * `episodeRefs`, since later citations are appended.
+ */
+export function buildFeed(books: Book[], episodes: Episode[], scope: FeedScope = {}): Feed {
+  const episodesById = new Map(episodes.map(episode => [episode.id, episode]))
+  const category = scope.category?.toLowerCase()
+
+  let episodeFilter: Episode | undefined
+  if (scope.episodeSlug) {
+    episodeFilter = episodes.find(episode => episode.slug === scope.episodeSlug)
+    if (!episodeFilter) throw new FeedScopeError(`No episode matches "${scope.episodeSlug}"`)
+  }
+
+  const recent = books
+    .filter(book => book.addedAt && book.episodeRefs.length > 0)
+    .filter(book => !category || bookCategories(book).some(name => name.toLowerCase() === category))
+    .filter(book => !episodeFilter || getEpisodeId(book.episodeRefs[0]) === episodeFilter.id)
+    .sort((a, b) => Date.parse(b.addedAt!) - Date.parse(a.addedAt!))
+
+  const itemsByEpisode = new Map<string, FeedItem>()
+  for (const book of recent) {
+    const episode = episodesById.get(getEpisodeId(book.episodeRefs[0]))
+    if (!episode) continue
+
+    let item = itemsByEpisode.get(episode.id)
+    if (!item) {
+      if (itemsByEpisode.size >= FEED_ITEM_LIMIT) continue
+      const url = absoluteUrl(getEpisodeUrl(episode))
+      item = { id: url, url, title: episode.name, episode, books: [], updated: new Date(book.addedAt!) }
+      itemsByEpisode.set(episode.id, item)
+    }
+    item.books.push(book)
+  }
+
+  const items = [...itemsByEpisode.values()]
+  for (const item of items) {
+    item.title = `${item.books.length} new book${item.books.length === 1 ? '' : 's'} from ${item.episode.name}`
+  }
+
+  const scopeLabel = episodeFilter ? ` — ${episodeFilter.name}` : scope.category ? ` — ${scope.category}` : ''
+  return {
+    title: `Acquired Bookshelf${scopeLabel}`,
+    description: 'Books newly added to the Acquired Bookshelf, grouped by the episode that mentioned them',
+    homeUrl: absoluteUrl(episodeFilter ? getEpisodeUrl(episodeFilter) : '/'),
+    query: scopeQuery(scope),
+    updated: items[0]?.updated ?? new Date(0),
+    items
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function coverMimeType(coverUrl: string): string {
+  const extension = coverUrl.split(/[?#]/)[0].split('.').pop()?.toLowerCase()
+  if (extension === 'png') return 'image/png'
+  if (extension === 'webp') return 'image/webp'
+  if (extension === 'gif') return 'image/gif'
+  return 'image/jpeg'
+}
+
+function bookSummary(book: Book): string {
+  return `${book.title} by ${book.author}`
+}
+
+// Same HTML body for RSS, Atom and JSON Feed: one cover + title + author + links per book
+function itemHtml(item: FeedItem): string {
+  return item.books
+    .map(book => [
+      `<p><img src="${escapeXml(absoluteUrl(book.coverUrl))}" alt="${escapeXml(book.title)}" width="120" /></p>`,
+      `<p><a href="${escapeXml(absoluteUrl(getBookUrl(book)))}"><strong>${escapeXml(book.title)}</strong></a><br />`,
+      `${escapeXml(book.author)} · ${escapeXml(book.category)}<br />`,
+      `<a href="${escapeXml(book.amazonUrl)}">View on Amazon</a></p>`
+    ].join(''))
+    .join('\n')
+}
+
+export function renderRss(feed: Feed): string {
+  const selfUrl = absoluteUrl(`/feed.xml${feed.query}`)
+  const items = feed.items.map(item => {
+    const cover = absoluteUrl(item.books[0].coverUrl)
+    return [
+      '    <item>',
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(item.url)}</link>`,
+      `      <guid isPermaLink="false">${escapeXml(`${item.id}#${item.updated.toISOString()}`)}</guid>`,
+      `      <pubDate>${item.updated.toUTCString()}</pubDate>`,
+      `      <description>${escapeXml(item.books.map(bookSummary).join('; '))}</description>`,
+      `      <content:encoded><![CDATA[${itemHtml(item).replace(/]]>/g, ']]]]><![CDATA[>')}]]></content:encoded>`,
+      ...item.books.map(book => `      <dc:creator>${escapeXml(book.author)}</dc:creator>`),
+      // RSS allows one enclosure per item; every cover is also listed as media:content
+      `      <enclosure url="${escapeXml(cover)}" length="0" type="${coverMimeType(cover)}" />`,
+      ...item.books.map(book => {
+        const url = absoluteUrl(book.coverUrl)
+        return `      <media:content url="${escapeXml(url)}" medium="image" type="${coverMimeType(url)}" />`
+      }),
+      '    </item>'
+    ].join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:media="http://search.yahoo.com/mrss/">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.homeUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <atom:link href="${escapeXml(selfUrl)}" rel="self" type="application/rss+xml" />`,
+    `    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    ''
+  ].join('\n')
+}
+
+export function renderAtom(feed: Feed): string {
+  const selfUrl = absoluteUrl(`/atom.xml${feed.query}`)
+  const entries = feed.items.map(item => [
+    '  <entry>',
+    `    <id>${escapeXml(`${item.id}#${item.updated.toISOString()}`)}</id>`,
+    `    <title>${escapeXml(item.title)}</title>`,
+    `    <link rel="alternate" href="${escapeXml(item.url)}" />`,
+    `    <updated>${item.updated.toISOString()}</updated>`,
+    ...item.books.map(book => `    <author><name>${escapeXml(book.author)}</name></author>`),
+    ...item.books.map(book => {
+      const url = absoluteUrl(book.coverUrl)
+      return `    <link rel="enclosure" href="${escapeXml(url)}" type="${coverMimeType(url)}" title="${escapeXml(book.title)}" />`
+    }),
+    ...item.books.map(book => `    <link rel="related" href="${escapeXml(book.amazonUrl)}" title="${escapeXml(book.title)}" />`),
+    `    <summary>${escapeXml(item.books.map(bookSummary).join('; '))}</summary>`,
+    `    <content type="html">${escapeXml(itemHtml(item))}</content>`,
+    '  </entry>'
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(selfUrl)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link rel="self" href="${escapeXml(selfUrl)}" />`,
+    `  <link rel="alternate" href="${escapeXml(feed.homeUrl)}" />`,
+    `  <updated>${feed.updated.toISOString()}</updated>`,
+    ...entries,
+    '</feed>',
+    ''
+  ].join('\n')
+}
+
+/**
+ * JSON Feed 1.1 — https://www.jsonfeed.org/version/1.1/
+ */
+export function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homeUrl,
+    feed_url: absoluteUrl(`/feed.json${feed.query}`),
+    items: feed.items.map(item => ({
+      id: `${item.id}#${item.updated.toISOString()}`,
+      url: item.url,
+      title: item.title,
+      summary: item.books.map(bookSummary).join('; '),
+      content_html: itemHtml(item),
+      image: absoluteUrl(item.books[0].coverUrl),
+      date_published: item.updated.toISOString(),
+      authors: item.books.map(book => ({ name: book.author })),
+      tags: [...new Set(item.books.map(book => book.category))],
+      external_url: item.books.length === 1 ? item.books[0].amazonUrl : undefined,
+      attachments: item.books.map(book => {
+        const url = absoluteUrl(book.coverUrl)
+        return { url, mime_type: coverMimeType(url), title: book.title }
+      })
+    }))
+  }, null, 2)
+}
+
+/**
+ * Shared GET handler body for the three feed routes.
+ */
+export async function feedResponse(
+  request: Request,
+  render: (feed: Feed) => string,
+  contentType: string
+): Promise<Response> {
+  try {
+    const [books, episodes] = await Promise.all([getBooks(), getEpisodes()])
+    const feed = buildFeed(books, episodes, parseFeedScope(new URL(request.url).searchParams))
+    return new Response(render(feed), {
+      headers: { 'Content-Type': `${contentType}; charset=utf-8`, 'Cache-Control': CACHE_CONTROL }
+    })
+  } catch (error) {
+    if (error instanceof FeedScopeError) return new Response(error.message, { status: 404 })
+    console.error('Feed error:', error)
+    return new Response('Feed unavailable', { status: 500 })
+  }
+}
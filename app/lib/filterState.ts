@@ -0,0 +1,53 @@
+/**
+ * Home page filter state as it appears in the URL, so a filtered view can be
+ * shared, survives reload and works with the back button:
+ *
+ *   /?q=bogle&category=History&season=2023#nvidia-part-iii
+ *
+ * The hash is the slug of the episode the reader navigated to.
+ */
+
+export interface FilterState {
+  search: string
+  category?: string
+  season?: number
+  episode?: string                 // episode slug
+}
+
+export const EMPTY_FILTER_STATE: FilterState = { search: '' }
+
+/**
+ * Read the filter state from `location.search` and `location.hash`. A
+ * malformed hash (e.g. a truncated %-escape in a shared link) drops only the
+ * episode; the search, category and season still apply.
+ */
+export function parseFilterState(search: string, hash: string): FilterState {
+  const params = new URLSearchParams(search)
+  const season = Number(params.get('season'))
+  let episode = ''
+  try {
+    episode = decodeURIComponent(hash.replace(/^#/, ''))
+  } catch {
+    // keep the rest of the state
+  }
+
+  return {
+    search: params.get('q') ?? '',
+    category: params.get('category') || undefined,
+    season: Number.isInteger(season) && season > 0 ? season : undefined,
+    episode: episode || undefined
+  }
+}
+
+/**
+ * Build the query string + hash for `state` (relative, to append to the pathname).
+ */
+export function serializeFilterState(state: FilterState): string {
+  const params = new URLSearchParams()
+  if (state.search) params.set('q', state.search)
+  if (state.category) params.set('category', state.category)
+  if (state.season !== undefined) params.set('season', String(state.season))
+
+  const query = params.toString()
+  return `${query ? `?${query}` : ''}${state.episode ? `#${encodeURIComponent(state.episode)}` : ''}`
+}
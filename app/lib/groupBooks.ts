@@ -1,4 +1,6 @@
 import { Book } from './data'
+import { episodeRefKey } from '../../lib/episode-refs'
+import { slugify } from '../../lib/slug'
 
 export interface Quote {
   text: string
@@ -8,6 +10,8 @@ export interface Quote {
 
 export interface Episode {
   id: string
+  slug: string              // route slug, unique across episodes — may be derived or de-duplicated
+  acquiredSlug?: string     // the slug scraped from acquired.fm, when any ref carries one
   name: string
   seasonNumber: number
   episodeNumber: number
@@ -15,26 +19,54 @@ export interface Episode {
   quote?: Quote
 }
 
+// The scripts key episode refs the same way, so refs and rendered sections line up
+export const getEpisodeId = episodeRefKey
+
+export function getEpisodeUrl(episode: Pick<Episode, 'slug'>): string {
+  return `/episodes/${episode.slug}`
+}
+
+export function getBookUrl(book: Pick<Book, 'id'>): string {
+  return `/books/${book.id}`
+}
+
+/**
+ * The episode's page on acquired.fm — only known when a ref carried the scraped
+ * slug; a route slug derived from the name or de-duplicated would 404.
+ */
+export function getAcquiredEpisodeUrl(episode: Pick<Episode, 'acquiredSlug'>): string | undefined {
+  return episode.acquiredSlug && `https://www.acquired.fm/episodes/${episode.acquiredSlug}`
+}
+
 export function groupBooksByEpisode(books: Book[]): Episode[] {
   const episodeMap = new Map<string, Episode>()
   
-  // Group books by episode
+  // Group books by episode — a book cited by several episodes appears under each
   books.forEach(book => {
-    if (book.episodeRef) {
-      const episodeId = `${book.episodeRef.seasonNumber}-${book.episodeRef.episodeNumber}`
+    book.episodeRefs.forEach(ref => {
+      const episodeId = getEpisodeId(ref)
       
       if (!episodeMap.has(episodeId)) {
         episodeMap.set(episodeId, {
           id: episodeId,
-          name: book.episodeRef.name,
-          seasonNumber: book.episodeRef.seasonNumber,
-          episodeNumber: book.episodeRef.episodeNumber,
+          // Older records predate scraped slugs, so derive one from the episode name
+          slug: ref.slug || slugify(ref.name),
+          name: ref.name,
+          seasonNumber: ref.seasonNumber,
+          episodeNumber: ref.episodeNumber,
           books: []
         })
       }
       
-      episodeMap.get(episodeId)!.books.push(book)
-    }
+      const episode = episodeMap.get(episodeId)!
+      if (ref.slug && !episode.acquiredSlug) {
+        episode.slug = ref.slug
+        episode.acquiredSlug = ref.slug
+      }
+      if (!episode.books.includes(book)) {
+        episode.books.push(book)
+      }
+    })
   })
   
   // Convert to array and sort by season/episode
@@ -45,6 +77,15 @@ export function groupBooksByEpisode(books: Book[]): Episode[] {
     return b.episodeNumber - a.episodeNumber // Newer episodes first
   })
 
+  // Derived slugs can collide across seasons — keep every episode URL unique
+  const seenSlugs = new Set<string>()
+  episodes.forEach(episode => {
+    if (!episode.slug || seenSlugs.has(episode.slug)) {
+      episode.slug = [episode.slug, episode.id].filter(Boolean).join('-')
+    }
+    seenSlugs.add(episode.slug)
+  })
+
   // Add quote to the first episode
   if (episodes.length > 0) {
     episodes[0].quote = {
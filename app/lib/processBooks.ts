@@ -1,22 +1,13 @@
-import { mapToTargetCategory } from './categoryMapping';
+import { classifyStoredBook } from './categoryMapping';
+import { Book } from './data';
+import { toCategoryFields } from '../../lib/categories';
 
-export interface Book {
-  title: string;
-  author: string;
-  category: string;
-  id: string;
-  amazonUrl: string;
-  coverUrl: string;
-  episodeRef: {
-    name: string;
-    seasonNumber: number;
-    episodeNumber: number;
-  } | null;
-}
+export type { Book };
 
 export function processBookData(books: Book[]) {
   return books.map(book => ({
     ...book,
-    category: mapToTargetCategory(book)
+    secondaryCategories: undefined, // recomputed below; overrides may have changed since the book was written
+    ...toCategoryFields(classifyStoredBook(book))
   }));
-}
\ No newline at end of file
+}
@@ -0,0 +1,40 @@
+import { Book } from './data'
+
+const DEFAULT_LIMIT = 8
+const AUTHOR_WEIGHT = 3
+
+// "Ben Gilbert & David Rosenthal", "A and B", "A, B" → individual names
+function authorNames(author: string): string[] {
+  return author
+    .split(/\s*(?:,|&|\band\b)\s*/i)
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name.length > 0 && !name.startsWith('unknown'))
+}
+
+function subjectSet(book: Book): Set<string> {
+  return new Set((book.metadata?.subjects ?? []).map(subject => subject.toLowerCase()))
+}
+
+/**
+ * Other books on the shelf that share an author or an Open Library subject with
+ * `book`, strongest match first. A shared author outweighs any single subject.
+ */
+export function getRelatedBooks(book: Book, books: Book[], limit: number = DEFAULT_LIMIT): Book[] {
+  const authors = new Set(authorNames(book.author))
+  const subjects = subjectSet(book)
+
+  return books
+    .filter(candidate => candidate.id !== book.id)
+    .map(candidate => {
+      const sharedAuthors = authorNames(candidate.author).filter(name => authors.has(name)).length
+      let sharedSubjects = 0
+      subjectSet(candidate).forEach(subject => {
+        if (subjects.has(subject)) sharedSubjects++
+      })
+      return { candidate, score: sharedAuthors * AUTHOR_WEIGHT + sharedSubjects }
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate)
+}
@@ -2,7 +2,13 @@
 const config = {
   preset: 'ts-jest',
   testEnvironment: 'node',
+  // Shared fixtures live beside the tests but aren't suites themselves
+  testPathIgnorePatterns: ['/node_modules/', '/__tests__/helpers/'],
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node'],
+  // lib/ and scripts/ import siblings as './x.js' (Node ESM); point jest at the .ts source
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+  },
   transform: {
     '^.+\\.tsx?$': ['ts-jest', {
       useESM: true,
@@ -0,0 +1,63 @@
+import { API_VERSION, ApiError, errorResponse, jsonResponse, parsePagination } from '../../app/lib/api'
+import { filterBooks, paginate, searchBooks } from '../../app/lib/bookQuery'
+import type { EpisodeRef } from '../../app/lib/data'
+import { makeBook } from './helpers/books'
+
+const nvidia: EpisodeRef = { name: 'Nvidia Part III', seasonNumber: 2022, episodeNumber: 4, slug: 'nvidia-part-iii' }
+const tsmc: EpisodeRef = { name: 'TSMC', seasonNumber: 2021, episodeNumber: 1, slug: 'tsmc' }
+
+const shelf = [
+  makeBook('1111111111', { title: 'The Nvidia Way', author: 'Tae Kim', category: 'Technology', episodeRefs: [nvidia] }),
+  makeBook('2222222222', { title: 'Chip War', author: 'Chris Miller', category: 'History', episodeRefs: [tsmc, nvidia] }),
+  makeBook('3333333333', { author: 'Morris Chang', episodeRefs: [tsmc], metadata: { subjects: ['Semiconductor industry'] } })
+]
+
+describe('filterBooks', () => {
+  test('combines category, season, author and episode filters', () => {
+    expect(filterBooks(shelf, { category: 'technology' }).map(book => book.id)).toEqual(['1111111111'])
+    expect(filterBooks(shelf, { season: 2021 }).map(book => book.id)).toEqual(['2222222222', '3333333333'])
+    expect(filterBooks(shelf, { season: 2021, author: 'miller' }).map(book => book.id)).toEqual(['2222222222'])
+    expect(filterBooks(shelf, { episodeId: '2022-4' }).map(book => book.id)).toEqual(['1111111111', '2222222222'])
+  })
+})
+
+describe('searchBooks', () => {
+  test('matches titles, episode names and subjects', () => {
+    expect(searchBooks(shelf, 'chip war').map(book => book.id)).toEqual(['2222222222'])
+    expect(searchBooks(shelf, 'TSMC').map(book => book.id)).toEqual(['2222222222', '3333333333'])
+    expect(searchBooks(shelf, 'semiconductor').map(book => book.id)).toEqual(['3333333333'])
+    expect(searchBooks(shelf, '   ')).toEqual([])
+  })
+})
+
+describe('pagination', () => {
+  test('slices a page and reports totals', () => {
+    expect(paginate(shelf, 2, 2)).toEqual({ items: [shelf[2]], page: 2, pageSize: 2, total: 3, totalPages: 2 })
+  })
+
+  test('rejects out-of-range page sizes', () => {
+    expect(parsePagination(new URLSearchParams())).toEqual({ page: 1, pageSize: 50 })
+    expect(() => parsePagination(new URLSearchParams('pageSize=1000'))).toThrow(ApiError)
+    expect(() => parsePagination(new URLSearchParams('page=0'))).toThrow(ApiError)
+  })
+})
+
+describe('responses', () => {
+  test('wraps data in a versioned envelope and answers 304 for a matching ETag', async () => {
+    const first = jsonResponse(new Request('http://localhost/api/books'), ['a'], { total: 1 })
+    const etag = first.headers.get('ETag')
+
+    expect(await first.json()).toEqual({ apiVersion: API_VERSION, data: ['a'], meta: { total: 1 } })
+    expect(first.headers.get('Cache-Control')).toContain('s-maxage')
+
+    const revalidated = jsonResponse(new Request('http://localhost/api/books', { headers: { 'If-None-Match': etag! } }), ['a'], { total: 1 })
+    expect(revalidated.status).toBe(304)
+  })
+
+  test('reports API errors with their status and code', async () => {
+    const response = errorResponse(new ApiError(400, 'missing_query', '"q" is required'))
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ apiVersion: API_VERSION, error: { code: 'missing_query', message: '"q" is required' } })
+  })
+})
@@ -0,0 +1,92 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { appendAuditEntries, auditEntries, bookHistory, loadAuditLog, revertEntry } from '../audit-log'
+import { makeBook } from './helpers/books'
+
+const at = new Date('2026-10-19T10:00:00.000Z')
+
+describe('auditEntries', () => {
+  test('records each changed field with its old and new value and the actor', () => {
+    const before = [makeBook('B000000001', { title: 'Unknown Title', metadata: { isbn: '9780000000001' } })]
+    const after = [makeBook('B000000001', { title: 'Shoe Dog', metadata: { isbn: '9780000000002' } })]
+
+    const entries = auditEntries(before, after, 'fix-unknown-books', at)
+
+    expect(entries.map(({ bookId, action, field, before, after, actor }) => ({ bookId, action, field, before, after, actor }))).toEqual([
+      { bookId: 'B000000001', action: 'update', field: 'title', before: 'Unknown Title', after: 'Shoe Dog', actor: 'fix-unknown-books' },
+      { bookId: 'B000000001', action: 'update', field: 'metadata.isbn', before: '9780000000001', after: '9780000000002', actor: 'fix-unknown-books' }
+    ])
+    expect(new Set(entries.map(entry => entry.id)).size).toBe(2)
+  })
+
+  test('records added and removed books whole, and new citations', () => {
+    const hermes = { name: 'Hermès', seasonNumber: 2025, episodeNumber: 2, slug: 'hermes' }
+    const before = [makeBook('B000000001'), makeBook('B000000002')]
+    const after = [makeBook('B000000001', { episodeRefs: [...before[0].episodeRefs, hermes] }), makeBook('B000000003')]
+
+    const entries = auditEntries(before, after, 'optimized-scraper', at)
+
+    expect(entries.map(entry => [entry.action, entry.bookId, entry.field])).toEqual([
+      ['add', 'B000000003', undefined],
+      ['update', 'B000000001', 'episodeRefs'],
+      ['remove', 'B000000002', undefined]
+    ])
+    expect(entries[2].before).toEqual(before[1])
+  })
+})
+
+describe('revertEntry', () => {
+  const [titleFix] = auditEntries([makeBook('B000000001', { title: 'Unknown Title' })], [makeBook('B000000001', { title: 'Shoe Dog' })], 'fix-unknown-books', at)
+
+  test('puts the old value back', () => {
+    const { books, conflict } = revertEntry([makeBook('B000000001', { title: 'Shoe Dog' })], titleFix)
+
+    expect(conflict).toBeUndefined()
+    expect(books[0].title).toBe('Unknown Title')
+  })
+
+  test('refuses when the field has changed since, unless forced', () => {
+    const shelf = [makeBook('B000000001', { title: 'Shoe Dog: A Memoir' })]
+
+    expect(revertEntry(shelf, titleFix).conflict).toMatch('has changed since')
+    expect(revertEntry(shelf, titleFix, { force: true }).books[0].title).toBe('Unknown Title')
+  })
+
+  test('removes a metadata field the change introduced', () => {
+    const [entry] = auditEntries([makeBook('B000000001', { metadata: {} })], [makeBook('B000000001', { metadata: { olid: 'OL1M' } })], 'enrich-book-metadata', at)
+
+    const { books } = revertEntry([makeBook('B000000001', { metadata: { olid: 'OL1M' } })], entry)
+
+    expect(books[0].metadata).toEqual({})
+  })
+
+  test('reverting a removal puts the book back', () => {
+    const [removal] = auditEntries([makeBook('B000000001')], [], 'detect-duplicates', at)
+
+    expect(revertEntry([], removal).books.map(b => b.id)).toEqual(['B000000001'])
+  })
+})
+
+describe('audit log file', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'audit-log-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('appends entries and reads a book history back in order', async () => {
+    const filePath = path.join(dir, 'audit-log.jsonl')
+    await appendAuditEntries(auditEntries([], [makeBook('B000000001')], 'manual-add-books', at), filePath)
+    await appendAuditEntries(auditEntries([makeBook('B000000001')], [makeBook('B000000001', { title: 'Shoe Dog' })], 'fix-unknown-books', at), filePath)
+
+    const history = bookHistory(await loadAuditLog(filePath), 'B000000001')
+
+    expect(history.map(entry => entry.actor)).toEqual(['manual-add-books', 'fix-unknown-books'])
+    expect(await loadAuditLog(path.join(dir, 'missing.jsonl'))).toEqual([])
+  })
+})
@@ -0,0 +1,104 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { applyBookOverrides, isOverridden, parseBookOverrides } from '../book-overrides'
+import { saveBooks } from '../book-store'
+import { makeBook } from './helpers/books'
+
+describe('parseBookOverrides', () => {
+  test('keeps valid pins and locks, reports the rest', () => {
+    const { overrides, errors } = parseBookOverrides({
+      $comment: 'keyed by ASIN',
+      B000000001: { title: 'Shoe Dog', locked: ['coverUrl'], note: 'audiobook title on Amazon' },
+      B000000002: { category: 'Cooking', isbn: '123', author: '' },
+      B000000003: { locked: ['metadata'] }
+    })
+
+    expect(overrides).toEqual({
+      B000000001: { title: 'Shoe Dog', locked: ['coverUrl'], note: 'audiobook title on Amazon' }
+    })
+    expect(errors).toEqual([
+      'B000000002: category is pinned in data/category-overrides.json',
+      'B000000002: "isbn" can\'t be overridden (expected one of title, author, coverUrl, amazonUrl, workId)',
+      'B000000002: author must be a non-empty string',
+      'B000000003: locked must list fields from title, author, coverUrl, amazonUrl, workId'
+    ])
+  })
+
+  test('holds coverUrl, amazonUrl and workId to the book schema', () => {
+    const { overrides, errors } = parseBookOverrides({
+      B000000001: { workId: 'OL123M', coverUrl: 'cover.jpg', amazonUrl: 'https://example.com/dp/B000000001' },
+      B000000002: { workId: 'OL123W', coverUrl: 'https://covers.example/shoe-dog.jpg' }
+    })
+
+    expect(overrides).toEqual({ B000000002: { workId: 'OL123W', coverUrl: 'https://covers.example/shoe-dog.jpg' } })
+    expect(errors).toEqual([
+      'B000000001: workId must be an Open Library work ID (OL…W)',
+      'B000000001: coverUrl must be a /covers/ path or an http(s) URL',
+      'B000000001: amazonUrl is not an Amazon product URL'
+    ])
+  })
+})
+
+describe('applyBookOverrides', () => {
+  test('pins values and keeps locked fields from the previous shelf', () => {
+    const { overrides } = parseBookOverrides({
+      B000000001: { title: 'Shoe Dog', author: 'Phil Knight', locked: ['coverUrl'] },
+      B000000002: { workId: 'OL45804W' }
+    })
+    const previous = [makeBook('B000000001', { coverUrl: 'https://covers.example/shoe-dog.jpg' })]
+
+    const books = applyBookOverrides(
+      [makeBook('B000000001', { coverUrl: 'https://covers.example/wrong.jpg' }), makeBook('B000000002')],
+      overrides,
+      previous
+    )
+
+    expect(books[0]).toMatchObject({ title: 'Shoe Dog', author: 'Phil Knight', coverUrl: 'https://covers.example/shoe-dog.jpg' })
+    expect(books[1].workId).toBe('OL45804W')
+    expect(isOverridden(books[0], 'coverUrl', overrides)).toBe(true)
+    expect(isOverridden(books[0], 'workId', overrides)).toBe(false)
+  })
+
+  test('matches legacy book-N rows by the ASIN in their Amazon URL', () => {
+    const { overrides } = parseBookOverrides({ B000000009: { author: 'Walter Isaacson' } })
+    const legacy = makeBook('book-7', { amazonUrl: 'https://www.amazon.com/dp/B000000009' })
+
+    expect(applyBookOverrides([legacy], overrides)[0].author).toBe('Walter Isaacson')
+  })
+})
+
+describe('book store', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'book-overrides-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('a write cannot clobber a hand-corrected field', async () => {
+    const filePath = path.join(dir, 'books.json')
+    const overridesPath = path.join(dir, 'book-overrides.json')
+    const options = { filePath, overridesPath, snapshotsDir: path.join(dir, 'snapshots'), auditLogPath: path.join(dir, 'audit-log.jsonl') }
+    writeFileSync(overridesPath, JSON.stringify({ B000000001: { title: 'Shoe Dog' } }))
+
+    await saveBooks([makeBook('B000000001', { title: 'Shoe Dog' })], 'manual-add-books', options)
+    const written = await saveBooks([makeBook('B000000001', { title: 'Shoe Dog (Audiobook)' })], 'fix-unknown-books', options)
+
+    expect(written[0].title).toBe('Shoe Dog')
+    expect(JSON.parse(readFileSync(filePath, 'utf-8'))[0].title).toBe('Shoe Dog')
+  })
+
+  test('a shelf that fails validation is not written', async () => {
+    const filePath = path.join(dir, 'books.json')
+    const options = { filePath, overridesPath: path.join(dir, 'missing.json'), snapshotsDir: path.join(dir, 'snapshots'), auditLogPath: path.join(dir, 'audit-log.jsonl') }
+    await saveBooks([makeBook('B000000001')], 'manual-add-books', options)
+
+    await expect(saveBooks([makeBook('B000000001', { workId: 'OL123M' })], 'resolve-works', options)).rejects.toThrow('workId')
+
+    expect(JSON.parse(readFileSync(filePath, 'utf-8'))[0].workId).toBeUndefined()
+  })
+})
@@ -0,0 +1,71 @@
+import path from 'path'
+import { amazonProductType, evaluateRules, loadBookRules, parseBookRules, RuleEngine } from '../book-rules'
+
+function compile(rules: unknown[]) {
+  const { rules: compiled, errors } = parseBookRules({ rules })
+  expect(errors).toEqual([])
+  return compiled
+}
+
+describe('book rules', () => {
+  test('the checked-in rules file is valid and blocks the old hardcoded cases', () => {
+    const rules = loadBookRules(path.join(__dirname, '..', '..', 'data', 'book-rules.json'))
+    const check = (subject: Parameters<typeof evaluateRules>[1]) => evaluateRules(rules, subject).rule?.id
+
+    expect(check({ amazonUrl: 'https://www.amazon.com/gp/video/detail/B0B8TR8XVF' })).toBe('non-book-product')
+    expect(check({ amazonUrl: 'https://www.amazon.com/dp/B01AB7GU0A', asin: 'B01AB7GU0A' })).toBe('blocked-asins')
+    expect(check({ amazonUrl: 'https://www.amazon.com/dp/0000000001', title: 'Dp', author: 'Someone' })).toBe('too-short-title')
+    expect(check({ amazonUrl: 'https://www.amazon.com/dp/0000000001', title: 'Coca-Cola', author: 'Someone' })).toBe('not-books')
+    expect(check({ amazonUrl: 'https://www.amazon.com/dp/0000000001', title: 'Shoe Dog', author: 'Unknown Author' })).toBe('placeholder-author')
+    expect(evaluateRules(rules, { amazonUrl: 'https://www.amazon.com/dp/1501135910', title: 'Shoe Dog', author: 'Phil Knight' })).toEqual({ allowed: true })
+  })
+
+  test('a rule matches only when all of its conditions hold', () => {
+    const rules = compile([{ id: 'r', action: 'block', title: '^Coca-Cola$', author: 'Pendergrast', reason: 'merch' }])
+
+    expect(evaluateRules(rules, { amazonUrl: 'u', title: 'coca-cola', author: 'Mark Pendergrast' }).allowed).toBe(false)
+    expect(evaluateRules(rules, { amazonUrl: 'u', title: 'Coca-Cola', author: 'Someone Else' }).allowed).toBe(true)
+    // Before metadata is fetched the title is unknown, so the rule can't match yet
+    expect(evaluateRules(rules, { amazonUrl: 'u' }).allowed).toBe(true)
+  })
+
+  test('episode-scoped rules only apply to that episode, and allow beats block', () => {
+    const rules = compile([
+      { id: 'no-asin', action: 'block', asins: ['B000000001'], reason: 'wrong link' },
+      { id: 'ok-on-lego', action: 'allow', asins: ['B000000001'], episodes: ['lego'], reason: 'the episode really cites it' }
+    ])
+    const subject = { amazonUrl: 'https://www.amazon.com/dp/B000000001', asin: 'B000000001' }
+
+    expect(evaluateRules(rules, { ...subject, episode: { name: 'Nike', slug: 'nike' } }).rule?.id).toBe('no-asin')
+    expect(evaluateRules(rules, { ...subject, episode: { name: 'LEGO', slug: 'lego' } })).toMatchObject({ allowed: true, rule: { id: 'ok-on-lego' } })
+  })
+
+  test('rejects rules without a reason, a condition or a valid regex', () => {
+    const { rules, errors } = parseBookRules({
+      rules: [
+        { id: 'a', action: 'block', title: 'x' },
+        { id: 'b', action: 'block', reason: 'nothing to match' },
+        { id: 'c', action: 'block', title: '(', reason: 'bad regex' },
+        { id: 'd', action: 'block', productTypes: ['vinyl'], reason: 'unknown type' }
+      ]
+    })
+
+    expect(rules).toEqual([])
+    expect(errors).toHaveLength(4)
+  })
+
+  test('the engine records which rule rejected which link', () => {
+    const engine = new RuleEngine(compile([{ id: 'video', action: 'block', productTypes: ['video'], reason: 'not a book' }]))
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {})
+
+    expect(engine.check({ amazonUrl: 'https://www.amazon.com/Prime-Video/dp/B0B8TR8XVF', episode: { name: 'Nike', slug: 'nike' } })).toBe(false)
+    expect(engine.check({ amazonUrl: 'https://www.amazon.com/dp/1501135910' })).toBe(true)
+    log.mockRestore()
+
+    expect(engine.rejections).toEqual([
+      { ruleId: 'video', reason: 'not a book', amazonUrl: 'https://www.amazon.com/Prime-Video/dp/B0B8TR8XVF', episode: 'nike' }
+    ])
+    expect(engine.formatReport()).toContain('video (not a book):')
+    expect(amazonProductType('https://www.audible.com/pd/B0000000')).toBe('audible')
+  })
+})
@@ -0,0 +1,78 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import { assertValidBooks, BookValidationError, extractAsin, validateBooks } from '../book-schema'
+
+const validBook = {
+  id: '1119404304',
+  title: 'Stay the Course',
+  author: 'John C. Bogle',
+  coverUrl: 'https://pub-d21319a05b8646c1928e289444e77283.r2.dev/covers/1119404304.jpg',
+  amazonUrl: 'https://www.amazon.com/Stay-Course-Story-Vanguard-Revolution/dp/1119404304',
+  category: 'Business',
+  episodeRefs: [{ name: 'Vanguard', seasonNumber: 2026, episodeNumber: 3, slug: 'vanguard' }],
+  addedAt: '2026-06-01T00:02:56.393Z',
+  source: 'automated'
+}
+
+describe('Book schema', () => {
+  test('current books.json has no malformed records', () => {
+    const booksPath = path.join(process.cwd(), 'public', 'data', 'books.json')
+    const books = JSON.parse(readFileSync(booksPath, 'utf-8'))
+
+    const { issues } = validateBooks(books)
+
+    expect(issues).toEqual([])
+  })
+
+  test('reports missing ASIN, bad cover URL and unknown source per record', () => {
+    const records = [
+      validBook,
+      { ...validBook, id: 'automated-1700000000000-0', amazonUrl: 'https://www.amazon.com/s?k=vanguard' },
+      { ...validBook, coverUrl: 'covers/1119404304.jpg' },
+      { ...validBook, source: 'scraped' }
+    ]
+
+    const { books, issues } = validateBooks(records)
+
+    expect(books).toHaveLength(1)
+    expect(issues.map(issue => [issue.index, issue.field])).toEqual([
+      [1, 'id'],
+      [2, 'coverUrl'],
+      [3, 'source']
+    ])
+  })
+
+  test('accepts legacy book-N ids when the Amazon URL carries the ASIN', () => {
+    const legacy = { ...validBook, id: 'book-84', amazonUrl: 'https://www.amazon.com/gp/product/1400077303' }
+
+    expect(validateBooks([legacy]).issues).toEqual([])
+  })
+
+  test('validates optional Open Library metadata', () => {
+    const enriched = { ...validBook, metadata: { firstPublishYear: 2018, subjects: ['Mutual funds'], olid: 'OL20033450W', provenance: { title: 'openlibrary', coverUrl: 'amazon' } } }
+    const broken = { ...validBook, metadata: { firstPublishYear: '2018', subjects: [''], provenance: { title: 1 } } }
+
+    expect(validateBooks([enriched]).issues).toEqual([])
+    expect(validateBooks([broken]).issues.map(issue => issue.field)).toEqual(['metadata.firstPublishYear', 'metadata.subjects', 'metadata.provenance'])
+  })
+
+  test('assertValidBooks throws with the structured issue list', () => {
+    const broken = { ...validBook, episodeRefs: [] }
+
+    expect(() => assertValidBooks([broken])).toThrow(BookValidationError)
+    try {
+      assertValidBooks([broken])
+    } catch (error) {
+      expect((error as BookValidationError).issues).toEqual([
+        { index: 0, id: '1119404304', field: 'episodeRefs', message: 'must be a non-empty array' }
+      ])
+    }
+  })
+
+  test('extractAsin reads /dp/, /gp/product/ and bare Kindle ASINs', () => {
+    expect(extractAsin('https://www.amazon.com/Enzo-Ferrari/dp/1788404718/ref=x')).toBe('1788404718')
+    expect(extractAsin('https://www.amazon.com/gp/product/0471446912')).toBe('0471446912')
+    expect(extractAsin('https://www.amazon.com/Secret-Life-Groceries-ebook/B083RZFYZC')).toBe('B083RZFYZC')
+    expect(extractAsin('https://www.amazon.com/s?k=books')).toBeNull()
+  })
+})
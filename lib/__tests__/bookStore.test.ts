@@ -0,0 +1,74 @@
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { loadAuditLog } from '../audit-log'
+import type { Book } from '../book-schema'
+import { listSnapshots, MAX_SNAPSHOTS, restoreSnapshot, saveBooks, writeFileAtomic } from '../book-store'
+import { makeBook } from './helpers/books'
+
+describe('book store', () => {
+  let dir: string
+  let filePath: string
+  let snapshotsDir: string
+  let auditLogPath: string
+  let clock: number
+
+  const options = () => ({ filePath, snapshotsDir, auditLogPath, overridesPath: path.join(dir, 'book-overrides.json'), now: () => new Date(clock++ * 60_000) })
+  const shelf = () => (JSON.parse(readFileSync(filePath, 'utf-8')) as Book[]).map(b => b.id)
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'book-store-'))
+    filePath = path.join(dir, 'books.json')
+    snapshotsDir = path.join(dir, 'snapshots')
+    auditLogPath = path.join(dir, 'audit-log.jsonl')
+    clock = 0
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('snapshots the previous shelf with the actor before writing', async () => {
+    await saveBooks([makeBook('B000000001')], 'manual-add-books', options())
+    await saveBooks([makeBook('B000000001'), makeBook('B000000002')], 'optimized-scraper', options())
+
+    expect(shelf()).toEqual(['B000000001', 'B000000002'])
+    const snapshots = await listSnapshots(snapshotsDir)
+    expect(snapshots).toEqual([expect.objectContaining({ actor: 'optimized-scraper', bookCount: 1 })])
+    expect((await loadAuditLog(auditLogPath)).map(entry => [entry.actor, entry.action, entry.bookId])).toEqual([
+      ['manual-add-books', 'add', 'B000000001'],
+      ['optimized-scraper', 'add', 'B000000002']
+    ])
+  })
+
+  test('restore puts a snapshot back and snapshots the shelf it replaces', async () => {
+    await saveBooks([makeBook('B000000001')], 'manual-add-books', options())
+    await saveBooks([], 'fix-unknown-books', options())
+    const [beforeFix] = await listSnapshots(snapshotsDir)
+
+    await restoreSnapshot(beforeFix.id, options())
+
+    expect(shelf()).toEqual(['B000000001'])
+    expect((await listSnapshots(snapshotsDir)).map(s => [s.actor, s.bookCount])).toEqual([
+      ['fix-unknown-books', 1],
+      ['restore', 0]
+    ])
+  })
+
+  test('keeps at most MAX_SNAPSHOTS', async () => {
+    writeFileSync(filePath, '[]')
+    for (let i = 0; i < MAX_SNAPSHOTS + 2; i++) await saveBooks([], 'enrich-book-metadata', options())
+
+    expect(readdirSync(snapshotsDir)).toHaveLength(MAX_SNAPSHOTS)
+  })
+
+  test('a failed rename cleans up the temp file', async () => {
+    const target = path.join(dir, 'target.json')
+    mkdirSync(target)
+    writeFileSync(path.join(target, 'keep'), '')
+
+    await expect(writeFileAtomic(target, '[]')).rejects.toThrow()
+
+    expect(readdirSync(dir)).toEqual(['target.json'])
+  })
+})
@@ -0,0 +1,95 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import { categorize, classifyBook, CATEGORIES, parseCategoryOverrides, UNCATEGORIZED } from '../categories'
+import { countByCategory, TARGET_CATEGORIES } from '../../app/lib/categoryMapping'
+
+describe('category taxonomy', () => {
+  test('keeps a taxonomy category a person picked', () => {
+    expect(categorize({ title: 'Anything', category: 'Fiction & Literature', categoryReviewed: true })).toBe('Fiction & Literature')
+  })
+
+  test('does not count its own earlier pick as evidence', () => {
+    expect(classifyBook({ title: 'Anything', category: 'Fiction & Literature' })).toMatchObject({ primary: 'Uncategorized', confidence: 0 })
+    expect(classifyBook({ title: 'Hard Drive', subjects: ['Programming languages'], category: 'Business & Leadership' }))
+      .toMatchObject({ primary: 'Technology & Innovation', secondary: [] })
+  })
+
+  test('prefers subjects over the title and maps legacy free-form categories', () => {
+    expect(categorize({ title: 'The Business of Dreams', subjects: ['Science fiction'] })).toBe('Fiction & Literature')
+    expect(categorize({ title: 'Hard Drive', category: 'Computer software industry' })).toBe('Technology & Innovation')
+    expect(categorize({ title: 'Secret Sauce', category: 'Venture capital' })).toBe('Startups & Venture Capital')
+  })
+
+  test('does not read "vc" out of unrelated words', () => {
+    expect(categorize({ title: 'Wavcraft' })).toBe(UNCATEGORIZED)
+  })
+
+  test('a book no signal matches is left uncategorized rather than given a real category', () => {
+    expect(classifyBook({ title: 'Wavcraft', subjects: ['Wales'] })).toEqual({
+      primary: 'Uncategorized',
+      secondary: [],
+      confidence: 0,
+      source: 'none',
+      scores: {}
+    })
+  })
+
+  test('the nav lists every taxonomy category after "All Books"', () => {
+    expect(TARGET_CATEGORIES).toEqual(['All Books', ...CATEGORIES])
+  })
+
+  test('counts each book once across episodes', () => {
+    const counts = countByCategory([
+      { id: 'a', category: 'Economics & Finance' },
+      { id: 'a', category: 'Economics & Finance' },
+      { id: 'b', category: 'Fiction & Literature' }
+    ])
+
+    expect(counts).toEqual({ 'All Books': 2, 'Economics & Finance': 1, 'Fiction & Literature': 1 })
+  })
+})
+
+describe('classifyBook', () => {
+  test('picks a primary and secondary category from subjects with a confidence', () => {
+    const assignment = classifyBook({
+      title: 'Hard Drive',
+      subjects: ['Computer software industry', 'Microsoft Corporation', 'Businesspeople, biography', 'Biography']
+    })
+
+    expect(assignment.primary).toBe('Business & Leadership')
+    expect(assignment.secondary).toEqual(['Biographies & History'])
+    expect(assignment.source).toBe('subject')
+    expect(assignment.confidence).toBeGreaterThan(0)
+    expect(assignment.confidence).toBeLessThan(1)
+  })
+
+  test('no longer reads "Life" in a title as a biography', () => {
+    expect(classifyBook({ title: 'The Ride of a Lifetime' })).toMatchObject({ source: 'none', confidence: 0 })
+  })
+
+  test('an override wins with full confidence', () => {
+    const assignment = classifyBook(
+      { title: 'Sam Walton', subjects: ['Wal-Mart stores'] },
+      { primary: 'Biographies & History', secondary: ['Business & Leadership'] }
+    )
+
+    expect(assignment).toMatchObject({ primary: 'Biographies & History', secondary: ['Business & Leadership'], confidence: 1, source: 'override' })
+  })
+
+  test('reports invalid override entries and keeps the valid ones', () => {
+    const { overrides, errors } = parseCategoryOverrides({
+      $comment: 'ignored',
+      '0553562835': 'Biographies & History',
+      '110196703X': { primary: 'Poetry' }
+    })
+
+    expect(Object.keys(overrides)).toEqual(['0553562835'])
+    expect(errors).toEqual(['110196703X: unknown primary category "Poetry"'])
+  })
+
+  test('the checked-in overrides file is valid', () => {
+    const raw = JSON.parse(readFileSync(path.join(process.cwd(), 'data', 'category-overrides.json'), 'utf-8'))
+
+    expect(parseCategoryOverrides(raw).errors).toEqual([])
+  })
+})
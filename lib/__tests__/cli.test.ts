@@ -0,0 +1,45 @@
+import { assertKnownFlags, parseArgs, stringFlag, UsageError, withLogsOnStderr } from '../cli'
+
+describe('parseArgs', () => {
+  test('splits positionals from flags', () => {
+    expect(parseArgs(['backfill', 'google', '--json', '--staged=true', '--no-refresh'])).toEqual({
+      positionals: ['backfill', 'google'],
+      flags: { json: true, staged: 'true', refresh: false }
+    })
+  })
+
+  test('value flags take the next argument; boolean flags never do', () => {
+    const args = parseArgs(['add', '--json', 'https://www.amazon.com/dp/B000000001', '--episode', 'ferrari'], ['episode'])
+
+    expect(args.positionals).toEqual(['add', 'https://www.amazon.com/dp/B000000001'])
+    expect(stringFlag(args, 'episode')).toBe('ferrari')
+  })
+
+  test('a value flag without a value is a usage error', () => {
+    expect(() => parseArgs(['add', '--episode'], ['episode'])).toThrow(UsageError)
+    expect(() => stringFlag(parseArgs(['add', '--episode']), 'episode')).toThrow('--episode needs a value')
+  })
+
+  test('everything after -- is positional', () => {
+    expect(parseArgs(['backfill', '--', '--odd-slug']).positionals).toEqual(['backfill', '--odd-slug'])
+  })
+})
+
+test('assertKnownFlags rejects typos', () => {
+  expect(() => assertKnownFlags(parseArgs(['scrape', '--dryrun']), ['json', 'dry-run'])).toThrow('Unknown flag --dryrun')
+})
+
+test('withLogsOnStderr keeps stdout for the result', async () => {
+  const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+  const log = console.log
+
+  const result = await withLogsOnStderr(async () => {
+    console.log('progress')
+    return 42
+  })
+
+  expect(result).toBe(42)
+  expect(error).toHaveBeenCalledWith('progress')
+  expect(console.log).toBe(log)
+  error.mockRestore()
+})
@@ -0,0 +1,93 @@
+import { applyMerges, findDuplicateClusters, parseDuplicateDecisions, scorePair, titleKey } from '../duplicates'
+import { makeBook } from './helpers/books'
+
+const microsoft = { name: 'Microsoft', seasonNumber: 2024, episodeNumber: 2, slug: 'microsoft' }
+const microsoftStory = { title: 'The Microsoft Story', author: 'Jeff Raikes' }
+
+describe('titleKey', () => {
+  test('ignores leading articles, casing, punctuation and subtitles', () => {
+    expect(titleKey('Microsoft Story')).toBe(titleKey('The Microsoft Story'))
+    expect(titleKey("LIAR'S POKER")).toBe(titleKey("Liar's Poker"))
+    expect(titleKey('The Hard Thing About Hard Things: Building a Business')).toBe('hard thing about hard things')
+  })
+})
+
+describe('scorePair', () => {
+  test('same title and author is a duplicate; a different author is not', () => {
+    const book = makeBook('B000000001', microsoftStory)
+
+    expect(scorePair(book, makeBook('0000000002', { ...microsoftStory, title: 'Microsoft Story' })).signals).toEqual([
+      'same title "microsoft story"',
+      'same author'
+    ])
+    expect(scorePair(book, makeBook('0000000002', { ...microsoftStory, author: 'Someone Else' })).score).toBe(0)
+  })
+
+  test('an identical cover and Open Library ID flag a pair whose titles disagree', () => {
+    const a = makeBook('B000000001', { title: 'Microsoft', author: 'Unknown Author', metadata: { olid: 'OL1W' } })
+    const b = makeBook('0000000002', { title: 'Gates', author: 'Unknown Author', metadata: { olid: 'OL1W' } })
+
+    const pair = scorePair(a, b, { B000000001: 'abc', '0000000002': 'abc' })
+    expect(pair.score).toBe(1)
+    expect(pair.signals).toEqual(['same Open Library ID OL1W', 'identical cover image'])
+  })
+})
+
+describe('findDuplicateClusters', () => {
+  const kindle = makeBook('B000000001', { ...microsoftStory, addedAt: '2024-05-01T00:00:00.000Z' })
+  const print = makeBook('0000000002', { ...microsoftStory, title: 'Microsoft Story', metadata: { olid: 'OL1W' } })
+  const sequel = makeBook('0000000003', { ...microsoftStory, title: 'The Microsoft Story, Volume 2' })
+
+  test('clusters likely duplicates and suggests the record with metadata to keep', () => {
+    const clusters = findDuplicateClusters([kindle, print, sequel])
+
+    expect(clusters).toHaveLength(1)
+    expect(clusters[0].ids).toEqual(['B000000001', '0000000002'])
+    expect(clusters[0].keep).toBe('0000000002')
+  })
+
+  test('skips editions of one work and groups confirmed distinct', () => {
+    expect(findDuplicateClusters([kindle, print], { distinct: [['0000000002', 'B000000001']] })).toEqual([])
+    expect(findDuplicateClusters([
+      { ...kindle, workId: 'OL1W' },
+      { ...print, workId: 'OL1W' }
+    ])).toEqual([])
+  })
+
+  test('ignores cover hashes shared by many books', () => {
+    const books = ['1', '2', '3'].map(n => makeBook(`000000000${n}`, { title: `Book ${'abc'[Number(n) - 1]}`, author: 'Unknown' }))
+    const coverHashes = Object.fromEntries(books.map(book => [book.id, 'placeholder']))
+
+    expect(findDuplicateClusters(books, { coverHashes })).toEqual([])
+  })
+})
+
+describe('applyMerges', () => {
+  test('keeps every episode citation of the merged records', () => {
+    const keep = makeBook('0000000002', { ...microsoftStory, episodeRefs: [microsoft] })
+    const duplicate = makeBook('B000000001', {
+      ...microsoftStory,
+      episodeRefs: [
+        microsoft,
+        { name: 'Microsoft Volume II', seasonNumber: 2024, episodeNumber: 5, slug: 'microsoft-volume-ii' }
+      ],
+      metadata: { olid: 'OL1W' }
+    })
+
+    const result = applyMerges([duplicate, keep], [{ keep: '0000000002', duplicates: ['B000000001'] }])
+
+    expect(result.books.map(book => book.id)).toEqual(['0000000002'])
+    expect(result.books[0].episodeRefs.map(ref => ref.slug)).toEqual(['microsoft', 'microsoft-volume-ii'])
+    expect(result.books[0].metadata).toEqual({ olid: 'OL1W' })
+    expect(result.applied).toEqual([{ keep: '0000000002', removed: ['B000000001'], addedRefs: 1 }])
+
+    // Re-applying the same decision is a no-op
+    expect(applyMerges(result.books, [{ keep: '0000000002', duplicates: ['B000000001'] }]).skipped).toEqual(['0000000002: already merged'])
+  })
+
+  test('rejects malformed decisions', () => {
+    const { errors } = parseDuplicateDecisions({ merges: [{ keep: 'A', duplicates: ['A'] }, { keep: 'B' }], distinct: [['C']] })
+
+    expect(errors).toHaveLength(3)
+  })
+})
@@ -0,0 +1,67 @@
+import { validateBook } from '../book-schema'
+import { editionFormat, findByEditionId, groupEditions } from '../editions'
+import { makeBook } from './helpers/books'
+
+describe('editionFormat', () => {
+  test('B-prefixed ASINs are Kindle, ISBN-10 ASINs are print', () => {
+    expect(editionFormat('B003E20ZRY')).toBe('kindle')
+    expect(editionFormat('039333869X')).toBe('print')
+  })
+})
+
+describe('groupEditions', () => {
+  const print = makeBook('039333869X', {
+    title: "Liar's Poker",
+    author: 'Michael Lewis',
+    workId: 'OL1968368W',
+    addedAt: '2024-03-01T00:00:00.000Z',
+    episodeRefs: [{ name: 'Goldman Sachs', seasonNumber: 13, episodeNumber: 1, slug: 'goldman-sachs' }]
+  })
+  const kindle = makeBook('B003E20ZRY', {
+    title: "Liar's Poker",
+    author: 'Michael Lewis',
+    workId: 'OL1968368W',
+    addedAt: '2024-05-01T00:00:00.000Z',
+    episodeRefs: [
+      { name: 'Goldman Sachs', seasonNumber: 13, episodeNumber: 1, slug: 'goldman-sachs' },
+      { name: 'Berkshire Hathaway', seasonNumber: 13, episodeNumber: 5, slug: 'berkshire-hathaway' }
+    ]
+  })
+  const other = makeBook('0316388416', { title: 'The Upstarts', author: 'Brad Stone' })
+
+  test('folds editions sharing a workId into the earliest-added record', () => {
+    const grouped = groupEditions([other, kindle, print])
+
+    expect(grouped.map(book => book.id)).toEqual(['0316388416', '039333869X'])
+    const work = grouped[1]
+    expect(work.episodeRefs.map(ref => ref.slug)).toEqual(['goldman-sachs', 'berkshire-hathaway'])
+    expect(work.editions).toEqual([
+      { id: '039333869X', amazonUrl: 'https://www.amazon.com/dp/039333869X', format: 'print' },
+      { id: 'B003E20ZRY', amazonUrl: 'https://www.amazon.com/dp/B003E20ZRY', format: 'kindle' }
+    ])
+  })
+
+  test('leaves records without a workId, or alone in their work, untouched', () => {
+    const solo = makeBook('B01HZFB3X0', { workId: 'OL17801180W' })
+    const grouped = groupEditions([other, solo])
+
+    expect(grouped[0]).toBe(other)
+    expect(grouped[1]).toBe(solo)
+    expect(solo.editions).toBeUndefined()
+  })
+
+  test('finds a work by any edition id', () => {
+    const grouped = groupEditions([print, kindle])
+
+    expect(findByEditionId(grouped, 'B003E20ZRY')?.id).toBe('039333869X')
+    expect(findByEditionId(grouped, '039333869X')?.id).toBe('039333869X')
+    expect(findByEditionId(grouped, 'B000000000')).toBeUndefined()
+  })
+})
+
+describe('workId validation', () => {
+  test('accepts Open Library work IDs and rejects edition IDs', () => {
+    expect(validateBook(makeBook('039333869X', { workId: 'OL1968368W' }))).toEqual([])
+    expect(validateBook(makeBook('039333869X', { workId: 'OL7353617M' })).map(issue => issue.field)).toEqual(['workId'])
+  })
+})
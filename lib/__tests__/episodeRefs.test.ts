@@ -0,0 +1,82 @@
+import { mergeBooksIntoShelf, compareByLatestEpisode, type EpisodeRef } from '../episode-refs'
+import { getAcquiredEpisodeUrl, groupBooksByEpisode } from '../../app/lib/groupBooks'
+import { makeBook } from './helpers/books'
+
+const microsoftVol1: EpisodeRef = { name: 'Microsoft Volume I', seasonNumber: 2023, episodeNumber: 2, slug: 'microsoft' }
+const microsoftVol2: EpisodeRef = { name: 'Microsoft Volume II', seasonNumber: 2023, episodeNumber: 5, slug: 'microsoft-volume-ii' }
+
+describe('mergeBooksIntoShelf', () => {
+  test('appends a new episode reference to a book already on the shelf', () => {
+    const existing = [makeBook('0201633612', { episodeRefs: [microsoftVol1] })]
+    const incoming = [makeBook('0201633612', { episodeRefs: [microsoftVol2] })]
+
+    const { books, added, cited } = mergeBooksIntoShelf(existing, incoming)
+
+    expect(books).toHaveLength(1)
+    expect(added).toHaveLength(0)
+    expect(cited).toHaveLength(1)
+    expect(books[0].episodeRefs).toEqual([microsoftVol1, microsoftVol2])
+  })
+
+  test('ignores a reference to an episode the book already cites', () => {
+    const existing = [makeBook('0201633612', { episodeRefs: [microsoftVol1] })]
+    const incoming = [makeBook('0201633612', { episodeRefs: [{ ...microsoftVol1 }] })]
+
+    const { books, added, cited } = mergeBooksIntoShelf(existing, incoming)
+
+    expect(added).toHaveLength(0)
+    expect(cited).toHaveLength(0)
+    expect(books[0].episodeRefs).toHaveLength(1)
+  })
+
+  test('folds duplicates within the same batch of new books', () => {
+    const incoming = [
+      makeBook('0201633612', { episodeRefs: [microsoftVol1] }),
+      makeBook('0201633612', { episodeRefs: [microsoftVol2] })
+    ]
+
+    const { books, added } = mergeBooksIntoShelf([], incoming)
+
+    expect(added).toHaveLength(1)
+    expect(books[0].episodeRefs).toHaveLength(2)
+  })
+
+  test('orders books by their most recent citation', () => {
+    const older = makeBook('1111111111', { episodeRefs: [microsoftVol1] })
+    const reCited = makeBook('2222222222', { episodeRefs: [{ ...microsoftVol1, episodeNumber: 1 }, microsoftVol2] })
+
+    expect([older, reCited].sort(compareByLatestEpisode).map(book => book.id)).toEqual(['2222222222', '1111111111'])
+  })
+})
+
+describe('groupBooksByEpisode', () => {
+  test('lists a multi-episode book under every episode that cited it', () => {
+    const shared = makeBook('0201633612', { episodeRefs: [microsoftVol1, microsoftVol2] })
+    const episodes = groupBooksByEpisode([shared, makeBook('1111111111', { episodeRefs: [microsoftVol2] })])
+
+    expect(episodes.map(episode => episode.name)).toEqual(['Microsoft Volume II', 'Microsoft Volume I'])
+    expect(episodes[0].books.map(book => book.id)).toEqual(['0201633612', '1111111111'])
+    expect(episodes[1].books.map(book => book.id)).toEqual(['0201633612'])
+  })
+  test('links to acquired.fm by the scraped slug, never a de-duplicated route slug', () => {
+    const scraped: EpisodeRef = { name: 'Tesla', seasonNumber: 2024, episodeNumber: 4, slug: 'tesla' }
+    const alsoScraped: EpisodeRef = { name: 'Tesla', seasonNumber: 2019, episodeNumber: 8, slug: 'tesla' }
+    const derived: EpisodeRef = { name: 'Tesla', seasonNumber: 2016, episodeNumber: 1 }
+    const episodes = groupBooksByEpisode([makeBook('0201633612', { episodeRefs: [scraped, alsoScraped, derived] })])
+
+    expect(episodes.map(episode => episode.slug)).toEqual(['tesla', 'tesla-2019-8', 'tesla-2016-1'])
+    expect(episodes.map(getAcquiredEpisodeUrl)).toEqual([
+      'https://www.acquired.fm/episodes/tesla',
+      'https://www.acquired.fm/episodes/tesla',
+      undefined
+    ])
+  })
+
+  test('has no acquired.fm link for an episode whose slug was derived from its name', () => {
+    const legacy: EpisodeRef = { name: 'Nvidia Part III', seasonNumber: 2022, episodeNumber: 7 }
+    const [episode] = groupBooksByEpisode([makeBook('0201633612', { episodeRefs: [legacy] })])
+
+    expect(episode.slug).toBe('nvidia-part-iii')
+    expect(getAcquiredEpisodeUrl(episode)).toBeUndefined()
+  })
+})
@@ -0,0 +1,62 @@
+import { buildFeed, FeedScopeError, renderAtom, renderJsonFeed, renderRss } from '../../app/lib/feeds'
+import { groupBooksByEpisode } from '../../app/lib/groupBooks'
+import type { EpisodeRef } from '../../app/lib/data'
+import { makeBook } from './helpers/books'
+
+const vanguard: EpisodeRef = { name: 'Vanguard', seasonNumber: 2026, episodeNumber: 3, slug: 'vanguard' }
+const costco: EpisodeRef = { name: 'Costco', seasonNumber: 2026, episodeNumber: 2, slug: 'costco' }
+
+const books = [
+  makeBook('1111111111', { episodeRefs: [costco], addedAt: '2026-05-01T00:00:00.000Z', category: 'History' }),
+  makeBook('2222222222', { episodeRefs: [vanguard], addedAt: '2026-06-01T00:00:00.000Z', author: 'Taylor Larimore', coverUrl: '/covers/2222222222.jpg' }),
+  makeBook('3333333333', {
+    episodeRefs: [vanguard],
+    addedAt: '2026-06-01T00:00:01.000Z',
+    title: 'Bogle & <Vanguard>',
+    author: 'John C. Bogle',
+    coverUrl: '/covers/3333333333.jpg'
+  }),
+  makeBook('4444444444', { episodeRefs: [costco] }) // hand-curated, no addedAt
+]
+const episodes = groupBooksByEpisode(books)
+
+describe('buildFeed', () => {
+  test('groups recently added books into one item per episode, newest first', () => {
+    const feed = buildFeed(books, episodes)
+
+    expect(feed.items.map(item => item.title)).toEqual(['2 new books from Vanguard', '1 new book from Costco'])
+    expect(feed.items[0].books.map(book => book.id)).toEqual(['3333333333', '2222222222'])
+    expect(feed.updated.toISOString()).toBe('2026-06-01T00:00:01.000Z')
+  })
+
+  test('scopes to a category or an episode', () => {
+    expect(buildFeed(books, episodes, { category: 'history' }).items.map(item => item.episode.slug)).toEqual(['costco'])
+    expect(buildFeed(books, episodes, { episodeSlug: 'vanguard' }).items).toHaveLength(1)
+    expect(() => buildFeed(books, episodes, { episodeSlug: 'missing' })).toThrow(FeedScopeError)
+  })
+})
+
+describe('feed renderers', () => {
+  const feed = buildFeed(books, episodes, { category: 'Business & Leadership' })
+
+  test('RSS escapes text and carries a cover enclosure', () => {
+    const xml = renderRss(feed)
+
+    expect(xml).toContain('Bogle &amp; &lt;Vanguard&gt; by John C. Bogle')
+    expect(xml).toContain('<enclosure url="https://acquired-bookshelf.vercel.app/covers/3333333333.jpg" length="0" type="image/jpeg" />')
+    expect(xml).toContain('/feed.xml?category=Business')
+  })
+
+  test('Atom lists every cover as an enclosure link', () => {
+    expect(renderAtom(feed).match(/rel="enclosure"/g)).toHaveLength(2)
+  })
+
+  test('JSON Feed includes authors, attachments and Amazon links', () => {
+    const json = JSON.parse(renderJsonFeed(feed))
+
+    expect(json.version).toBe('https://jsonfeed.org/version/1.1')
+    expect(json.items[0].authors).toEqual([{ name: 'John C. Bogle' }, { name: 'Taylor Larimore' }])
+    expect(json.items[0].attachments).toHaveLength(2)
+    expect(json.items[0].content_html).toContain('https://www.amazon.com/dp/2222222222')
+  })
+})
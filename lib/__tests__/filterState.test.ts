@@ -0,0 +1,26 @@
+import { parseFilterState, serializeFilterState } from '../../app/lib/filterState'
+
+describe('filter state URL encoding', () => {
+  test('round-trips search, category, season and episode', () => {
+    const state = { search: 'bogle effect', category: 'Business & Leadership', season: 2026, episode: 'vanguard' }
+    const url = serializeFilterState(state)
+
+    expect(url).toBe('?q=bogle+effect&category=Business+%26+Leadership&season=2026#vanguard')
+    expect(parseFilterState(url.slice(0, url.indexOf('#')), url.slice(url.indexOf('#')))).toEqual(state)
+  })
+
+  test('treats a bare URL as the unfiltered shelf and ignores a malformed season', () => {
+    expect(parseFilterState('', '')).toEqual({ search: '', category: undefined, season: undefined, episode: undefined })
+    expect(parseFilterState('?season=abc', '').season).toBeUndefined()
+    expect(serializeFilterState({ search: '' })).toBe('')
+  })
+
+  test('drops only the episode on a malformed hash', () => {
+    expect(parseFilterState('?q=bogle&category=History&season=2023', '#abc%')).toEqual({
+      search: 'bogle',
+      category: 'History',
+      season: 2023,
+      episode: undefined
+    })
+  })
+})
@@ -0,0 +1,19 @@
+import type { Book, EpisodeRef } from '../../book-schema'
+
+export const FERRARI: EpisodeRef = { name: 'Ferrari', seasonNumber: 2025, episodeNumber: 1, slug: 'ferrari' }
+
+/**
+ * A valid books.json record for tests — pass overrides for the fields a test is about.
+ */
+export function makeBook(id: string, overrides: Partial<Book> = {}): Book {
+  return {
+    id,
+    title: 'Title',
+    author: 'Author',
+    coverUrl: '/covers/default-book.jpg',
+    amazonUrl: `https://www.amazon.com/dp/${id}`,
+    category: 'Business & Leadership',
+    episodeRefs: [FERRARI],
+    ...overrides
+  }
+}
@@ -0,0 +1,88 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { isbn10To13, isbn13To10, isbnsEquivalent, isIsbn10 } from '../isbn'
+import { pickBestCandidate, scoreCandidate, titleSimilarity, MATCH_THRESHOLD } from '../match-confidence'
+import { enqueueForReview, loadReviewQueue, partitionForReview } from '../review-queue'
+import { makeBook } from './helpers/books'
+
+describe('ISBN helpers', () => {
+  test('converts between ISBN-10 and ISBN-13', () => {
+    expect(isbn10To13('0553562835')).toBe('9780553562835')
+    expect(isbn13To10('9780553562835')).toBe('0553562835')
+    expect(isbn10To13('110196703X')).toBe('9781101967034')
+    expect(isbn13To10('9791032305690')).toBeNull() // 979 prefix has no ISBN-10 form
+  })
+
+  test('rejects bad check digits and Kindle ASINs', () => {
+    expect(isIsbn10('0553562836')).toBe(false)
+    expect(isIsbn10('B00J6YBOFQ')).toBe(false)
+    expect(isbnsEquivalent('0-553-56283-5', '978-0553562835')).toBe(true)
+  })
+})
+
+describe('scoreCandidate', () => {
+  test('an ISBN equivalent to the ASIN is near-certain even without title evidence', () => {
+    const match = scoreCandidate({ title: 'Made in America', isbns: ['9780553562835'] }, { asin: '0553562835' })
+
+    expect(match.score).toBeGreaterThanOrEqual(0.9)
+    expect(match.signals[0]).toBe('isbn match')
+  })
+
+  test('slug and Amazon titles separate the right book from a namesake', () => {
+    const evidence = {
+      slugTitle: 'Hard Drive Bill Gates Microsoft Empire',
+      amazonTitle: 'Hard Drive: Bill Gates and the Making of the Microsoft Empire',
+      amazonAuthor: 'James Wallace'
+    }
+    const right = { title: 'Hard drive', author: 'James Wallace' }
+    const wrong = { title: 'The Hard Drive Handbook', author: 'Someone Else' }
+
+    expect(scoreCandidate(right, evidence).score).toBeGreaterThanOrEqual(MATCH_THRESHOLD)
+    expect(scoreCandidate(wrong, evidence).score).toBeLessThan(MATCH_THRESHOLD)
+    expect(pickBestCandidate([wrong, right], evidence)?.candidate).toBe(right)
+  })
+
+  test('no evidence means no confidence', () => {
+    expect(scoreCandidate({ title: 'Anything' }, {})).toEqual({ score: 0, signals: ['no evidence'] })
+  })
+
+  test('subtitles on the reference do not count against the candidate', () => {
+    expect(titleSimilarity('Zero to One', 'Zero to One: Notes on Startups, or How to Build the Future')).toBeGreaterThan(0.75)
+  })
+})
+
+describe('review queue', () => {
+  const hermes = { name: 'Hermès', seasonNumber: 2025, episodeNumber: 2, slug: 'hermes' }
+
+  test('holds back only new books below the threshold', () => {
+    const shelf = [makeBook('B000000001', { metadata: { matchConfidence: 0.2 } })]
+    const incoming = [
+      makeBook('B000000001', { metadata: { matchConfidence: 0.2 }, episodeRefs: [hermes] }),
+      makeBook('B000000002', { metadata: { matchConfidence: 0.3 } }),
+      makeBook('B000000003', { metadata: { matchConfidence: 0.8 } }),
+      makeBook('B000000004')
+    ]
+
+    const { accepted, held } = partitionForReview(shelf, incoming)
+
+    expect(held.map(b => b.id)).toEqual(['B000000002'])
+    expect(accepted.map(b => b.id)).toEqual(['B000000001', 'B000000003', 'B000000004'])
+  })
+
+  test('a book queued twice keeps one entry with both citations', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'review-queue-'))
+    const file = path.join(dir, 'review-queue.json')
+    try {
+      await enqueueForReview([makeBook('B000000002', { metadata: { matchConfidence: 0.3 } })], { B000000002: ['slug title 0.30'] }, file)
+      await enqueueForReview([makeBook('B000000002', { metadata: { matchConfidence: 0.3 }, episodeRefs: [hermes] })], {}, file)
+
+      const queue = await loadReviewQueue(file)
+      expect(queue).toHaveLength(1)
+      expect(queue[0]).toMatchObject({ matchConfidence: 0.3, matchSignals: ['slug title 0.30'] })
+      expect(queue[0].book.episodeRefs.map(ref => ref.episodeNumber)).toEqual([1, 2])
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
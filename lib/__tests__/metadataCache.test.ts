@@ -0,0 +1,109 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { MetadataCache } from '../metadata-cache'
+
+const TTL = { hit: 1000, miss: 100 }
+
+describe('MetadataCache', () => {
+  let dir: string
+  let file: string
+  let now: number
+  const clock = () => now
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'metadata-cache-'))
+    file = path.join(dir, 'metadata-cache.json')
+    now = Date.parse('2025-01-01T00:00:00Z')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('serves a stored value without fetching again', async () => {
+    const cache = new MetadataCache(file, { now: clock })
+    const fetch = jest.fn().mockResolvedValue({ title: 'Zero to One' })
+
+    await cache.remember('search', 'B00J6YBOFQ', TTL, fetch)
+    const second = await cache.remember('search', 'B00J6YBOFQ', TTL, fetch)
+
+    expect(second).toEqual({ title: 'Zero to One' })
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(cache.stats).toEqual({ hits: 1, negativeHits: 0, misses: 1, stored: 1 })
+  })
+
+  test('caches negative results for the shorter miss TTL', async () => {
+    const cache = new MetadataCache(file, { now: clock })
+    const fetch = jest.fn().mockResolvedValue(null)
+
+    await cache.remember('search', 'missing', TTL, fetch)
+    expect(await cache.remember('search', 'missing', TTL, fetch)).toBeNull()
+    expect(cache.stats.negativeHits).toBe(1)
+
+    now += TTL.miss + 1
+    await cache.remember('search', 'missing', TTL, fetch)
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  test('does not cache transient failures', async () => {
+    const cache = new MetadataCache(file, { now: clock })
+    const fetch = jest.fn().mockResolvedValueOnce(undefined).mockResolvedValueOnce('found')
+
+    expect(await cache.remember('search', 'flaky', TTL, fetch)).toBeNull()
+    expect(await cache.remember('search', 'flaky', TTL, fetch)).toBe('found')
+    expect(cache.stats.stored).toBe(1)
+  })
+
+  test('persists across instances and prunes expired entries on save', async () => {
+    const first = new MetadataCache(file, { now: clock })
+    await first.remember('search', 'kept', TTL, async () => 'value')
+    await first.remember('search', 'expiring', TTL, async () => null)
+    now += TTL.miss + 1
+    await first.save()
+
+    const saved = JSON.parse(readFileSync(file, 'utf-8'))
+    expect(Object.values(saved.entries)).toEqual([expect.objectContaining({ namespace: 'search', key: 'kept', value: 'value' })])
+
+    const second = new MetadataCache(file, { now: clock })
+    const fetch = jest.fn()
+    expect(await second.remember('search', 'kept', TTL, fetch)).toBe('value')
+    expect(fetch).not.toHaveBeenCalled()
+  })
+
+  test('concurrent lookups all land in the saved file', async () => {
+    const cache = new MetadataCache(file, { now: clock })
+    const keys = Array.from({ length: 10 }, (_, i) => `B00000000${i}`)
+
+    await Promise.all(keys.map(key => cache.remember('search', key, TTL, async () => ({ key }))))
+    await cache.save()
+
+    const saved = JSON.parse(readFileSync(file, 'utf-8'))
+    expect(Object.values(saved.entries).map(entry => (entry as { key: string }).key).sort()).toEqual(keys)
+  })
+
+  test('refresh ignores cached entries but stores the new result', async () => {
+    const seeded = new MetadataCache(file, { now: clock })
+    await seeded.remember('search', 'key', TTL, async () => 'old')
+    await seeded.save()
+
+    const refreshing = new MetadataCache(file, { now: clock, refresh: true })
+    expect(await refreshing.remember('search', 'key', TTL, async () => 'new')).toBe('new')
+    await refreshing.save()
+
+    const reread = new MetadataCache(file, { now: clock })
+    expect(await reread.remember('search', 'key', TTL, jest.fn())).toBe('new')
+  })
+
+  test('a disabled cache always fetches and never writes', async () => {
+    const cache = new MetadataCache(file, { enabled: false })
+    const fetch = jest.fn().mockResolvedValue('value')
+
+    await cache.remember('search', 'key', TTL, fetch)
+    await cache.remember('search', 'key', TTL, fetch)
+    await cache.save()
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(() => readFileSync(file)).toThrow()
+  })
+})
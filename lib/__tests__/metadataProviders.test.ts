@@ -0,0 +1,106 @@
+import { mergeProviderResults, resolveProviders, runProviderChain, type MetadataProvider, type ProviderMetadata } from '../metadata-providers'
+
+function provider(name: string, result: ProviderMetadata | null | Promise<never>, timeoutMs = 1000): MetadataProvider & { lookup: jest.Mock } {
+  return { name, timeoutMs, lookup: jest.fn().mockImplementation(() => result instanceof Promise ? result : Promise.resolve(result)) }
+}
+
+const query = { amazonUrl: 'https://www.amazon.com/dp/B00J6YBOFQ', asin: 'B00J6YBOFQ' }
+
+describe('mergeProviderResults', () => {
+  test('takes each field from the first provider that has a real value', () => {
+    const { metadata, provenance } = mergeProviderResults([
+      ['openlibrary', { title: 'Zero to One', author: 'Unknown Author', subjects: [] }],
+      ['amazon', { author: 'Peter Thiel', coverUrl: 'https://m.media-amazon.com/images/P/B00J6YBOFQ.01.L.jpg' }]
+    ])
+
+    expect(metadata).toEqual({
+      title: 'Zero to One',
+      author: 'Peter Thiel',
+      coverUrl: 'https://m.media-amazon.com/images/P/B00J6YBOFQ.01.L.jpg'
+    })
+    expect(provenance).toEqual({ title: 'openlibrary', author: 'amazon', coverUrl: 'amazon' })
+  })
+
+  test('a field priority overrides chain order for that field only', () => {
+    const { provenance } = mergeProviderResults(
+      [
+        ['openlibrary', { title: 'Zero to One', coverUrl: 'https://covers.openlibrary.org/b/id/1-L.jpg' }],
+        ['amazon', { title: 'Zero to One: Notes on Startups', coverUrl: 'https://m.media-amazon.com/1.jpg' }]
+      ],
+      { coverUrl: ['amazon'] }
+    )
+
+    expect(provenance).toEqual({ title: 'openlibrary', coverUrl: 'amazon' })
+  })
+})
+
+describe('runProviderChain', () => {
+  test('stops once title, author and cover are known', async () => {
+    const openLibrary = provider('openlibrary', { title: 'Zero to One', author: 'Peter Thiel' })
+    const amazon = provider('amazon', { coverUrl: 'https://m.media-amazon.com/1.jpg' })
+    const google = provider('google-books', { title: 'Zero to One' })
+
+    const result = await runProviderChain([openLibrary, amazon, google], query)
+
+    expect(result.responded).toEqual(['openlibrary', 'amazon'])
+    expect(google.lookup).not.toHaveBeenCalled()
+    expect(amazon.lookup).toHaveBeenCalledWith(expect.objectContaining({
+      missing: ['coverUrl'],
+      known: { title: 'Zero to One', author: 'Peter Thiel' }
+    }))
+  })
+
+  test('skips providers that fail or time out', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {})
+    const failing = { name: 'openlibrary', timeoutMs: 1000, lookup: jest.fn().mockRejectedValue(new Error('boom')) }
+    const hanging = provider('google-books', new Promise<never>(() => {}), 10)
+    const amazon = provider('amazon', { title: 'Zero to One', author: 'Peter Thiel' })
+
+    const result = await runProviderChain([failing, hanging, amazon], query)
+
+    expect(result.responded).toEqual(['amazon'])
+    expect(result.provenance).toEqual({ title: 'amazon', author: 'amazon' })
+    expect(log).toHaveBeenCalledWith('  ⏱️  google-books timed out after 10ms')
+    log.mockRestore()
+  })
+
+  test('honours per-provider timeout overrides', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    const slow = provider('openlibrary', new Promise<never>(() => {}), 60_000)
+
+    const result = await runProviderChain([slow], query, { timeouts: { openlibrary: 5 } })
+
+    expect(result.responded).toEqual([])
+    jest.restoreAllMocks()
+  })
+})
+
+describe('resolveProviders', () => {
+  const registry = {
+    openlibrary: provider('openlibrary', null),
+    amazon: provider('amazon', null),
+    'google-books': provider('google-books', null)
+  }
+
+  afterEach(() => {
+    delete process.env.METADATA_PROVIDERS
+  })
+
+  test('uses explicit names, then METADATA_PROVIDERS, then the defaults', () => {
+    expect(resolveProviders(registry, ['google-books', 'openlibrary'], ['openlibrary']).map(p => p.name)).toEqual(['google-books', 'openlibrary'])
+
+    process.env.METADATA_PROVIDERS = 'amazon, google-books'
+    expect(resolveProviders(registry, undefined, ['openlibrary']).map(p => p.name)).toEqual(['amazon', 'google-books'])
+
+    delete process.env.METADATA_PROVIDERS
+    expect(resolveProviders(registry, undefined, ['openlibrary', 'amazon']).map(p => p.name)).toEqual(['openlibrary', 'amazon'])
+  })
+
+  test('drops unknown names and falls back to the defaults when none are left', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    expect(resolveProviders(registry, ['isbndb'], ['openlibrary']).map(p => p.name)).toEqual(['openlibrary'])
+    expect(warn).toHaveBeenCalledTimes(1)
+    warn.mockRestore()
+  })
+})
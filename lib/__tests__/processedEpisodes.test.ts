@@ -0,0 +1,36 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { loadProcessedEpisodes, recordProcessedEpisodes } from '../processed-episodes'
+
+describe('processed episodes', () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'processed-episodes-'))
+    filePath = path.join(dir, 'processed-episodes.json')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('a missing file means no episodes processed yet', async () => {
+    expect(await loadProcessedEpisodes(filePath)).toEqual([])
+  })
+
+  test('records new slugs once and counts only those', async () => {
+    expect(await recordProcessedEpisodes(['nvidia', 'ferrari'], filePath)).toBe(2)
+    expect(await recordProcessedEpisodes(['ferrari', 'hermes', 'hermes'], filePath)).toBe(1)
+
+    expect(JSON.parse(readFileSync(filePath, 'utf-8'))).toEqual(['ferrari', 'hermes', 'nvidia'])
+  })
+
+  test('does not save over a corrupt file', async () => {
+    writeFileSync(filePath, '["ferrari"')
+
+    await expect(recordProcessedEpisodes(['nvidia'], filePath)).rejects.toThrow(SyntaxError)
+    expect(readFileSync(filePath, 'utf-8')).toBe('["ferrari"')
+  })
+})
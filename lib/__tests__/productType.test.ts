@@ -0,0 +1,84 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { parseBookRules, RuleEngine } from '../book-rules'
+import { loadOtherMentions, recordOtherMentions } from '../other-mentions'
+import { classifyAmazonPage, detectProductType, screenAmazonLinks } from '../product-type'
+
+const page = ({ breadcrumb = '', binding = '', formats = '', title = 'Product' }) => `
+  <div id="wayfinding-breadcrumbs_feature_div"><ul>${breadcrumb ? `<li>${breadcrumb}</li><li>Sub</li>` : ''}</ul></div>
+  <span id="productTitle"> ${title} </span>
+  ${binding ? `<span id="productBinding">${binding}</span>` : ''}
+  ${formats ? `<div id="tmmSwatches">${formats}</div>` : ''}
+`
+
+describe('classifyAmazonPage', () => {
+  test('the breadcrumb decides: books, films, and everything else', () => {
+    expect(classifyAmazonPage(page({ breadcrumb: 'Kindle Store', binding: 'Kindle Edition' }))).toEqual({
+      type: 'book',
+      title: 'Product',
+      signals: ['breadcrumb "Kindle Store"', 'binding "Kindle Edition"']
+    })
+    expect(classifyAmazonPage(page({ breadcrumb: 'Movies & TV' })).type).toBe('video')
+    expect(classifyAmazonPage(page({ breadcrumb: 'Toys & Games', title: 'Catan' }))).toMatchObject({ type: 'other', title: 'Catan' })
+  })
+
+  test('falls back to binding and format swatches, and assumes a book when the page says nothing', () => {
+    expect(classifyAmazonPage(page({ binding: 'Blu-ray' })).type).toBe('video')
+    expect(classifyAmazonPage(page({ formats: 'Hardcover $20 Paperback $12 Audiobook' })).type).toBe('book')
+    expect(classifyAmazonPage('<html><body>Enter the characters you see below</body></html>')).toMatchObject({ type: 'book' })
+  })
+})
+
+describe('screenAmazonLinks', () => {
+  const originalFetch = global.fetch
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  test('an ISBN-10 ASIN is a book without fetching the page', async () => {
+    global.fetch = jest.fn()
+
+    expect(await detectProductType('https://www.amazon.com/dp/0553562835', '0553562835')).toEqual({ type: 'book', signals: ['ISBN-10 ASIN'] })
+    expect(global.fetch).not.toHaveBeenCalled()
+  })
+
+  test('drops non-book products and keeps them as other mentions', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      text: async () => page({ breadcrumb: 'Clothing, Shoes & Jewelry', title: 'Rolex Submariner' })
+    })
+    const { rules } = parseBookRules({ rules: [{ id: 'non-book', action: 'block', productTypes: ['other'], reason: 'not a book' }] })
+    const engine = new RuleEngine(rules)
+    const episode = { name: 'Rolex', seasonNumber: 2024, episodeNumber: 3, slug: 'rolex' }
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {})
+
+    const { allowed, otherMentions } = await screenAmazonLinks(
+      ['https://www.amazon.com/dp/0553562835', 'https://www.amazon.com/Rolex-Submariner/dp/B0000WATCH'],
+      engine,
+      episode
+    )
+    log.mockRestore()
+
+    expect(allowed).toEqual(['https://www.amazon.com/dp/0553562835'])
+    expect(otherMentions).toEqual([{
+      id: 'B0000WATCH',
+      title: 'Rolex Submariner',
+      amazonUrl: 'https://www.amazon.com/Rolex-Submariner/dp/B0000WATCH',
+      productType: 'other',
+      episodeRefs: [episode]
+    }])
+    expect(engine.rejections[0]).toMatchObject({ ruleId: 'non-book', productType: 'other', signals: ['breadcrumb "Clothing, Shoes & Jewelry"'] })
+
+    const dir = mkdtempSync(path.join(tmpdir(), 'mentions-'))
+    try {
+      const file = path.join(dir, 'other-mentions.json')
+      expect(await recordOtherMentions(otherMentions, file)).toBe(1)
+      expect(await recordOtherMentions([{ ...otherMentions[0], episodeRefs: [{ ...episode, slug: 'rolex-ii', episodeNumber: 4 }] }], file)).toBe(0)
+      expect((await loadOtherMentions(file))[0].episodeRefs.map(ref => ref.slug)).toEqual(['rolex', 'rolex-ii'])
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,161 @@
+import { execFileSync } from 'child_process'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import type { Book } from '../book-schema'
+import { BOOKS_DATA_PATH, datedBranchName, FakeForgeClient, PublishGuardError, Publisher } from '../publisher'
+import { makeBook } from './helpers/books'
+
+describe('Publisher', () => {
+  let cwd: string
+  let commands: string[][]
+  let committedBooks: Book[]
+
+  const git = async (args: string[]) => {
+    commands.push(args)
+    if (args[0] === 'ls-files') return BOOKS_DATA_PATH
+    if (args[0] === 'show') return JSON.stringify(committedBooks)
+    return ''
+  }
+
+  const writeBooks = (books: Book[]) => {
+    writeFileSync(path.join(cwd, BOOKS_DATA_PATH), JSON.stringify(books))
+  }
+
+  const request = { paths: [BOOKS_DATA_PATH], title: 'chore: Add books from Ferrari', body: '', prBody: 'run report' }
+  const now = () => new Date('2026-10-19T10:00:00.000Z')
+
+  beforeEach(() => {
+    cwd = mkdtempSync(path.join(tmpdir(), 'publisher-'))
+    mkdirSync(path.join(cwd, 'public', 'data'), { recursive: true })
+    commands = []
+    committedBooks = [makeBook('B000000001')]
+    writeBooks([makeBook('B000000001'), makeBook('B000000002')])
+  })
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true })
+  })
+
+  test('push mode commits and pushes to the base branch', async () => {
+    const result = await new Publisher('push', { git, cwd }).publish(request)
+
+    expect(result).toEqual({ mode: 'push', committed: true })
+    expect(commands).toContainEqual(['commit', '-m', 'chore: Add books from Ferrari'])
+    expect(commands[commands.length - 1]).toEqual(['push', 'origin', 'HEAD:main'])
+  })
+
+  test('branch mode commits on a dated branch, pushes it and returns to the base branch', async () => {
+    const result = await new Publisher('branch', { git, cwd, now }).publish(request)
+
+    expect(result.branch).toBe('scraper/2026-10-19-1000')
+    expect(commands.slice(3)).toEqual([
+      ['checkout', '-b', 'scraper/2026-10-19-1000'],
+      ['add', '--', BOOKS_DATA_PATH],
+      ['commit', '-m', 'chore: Add books from Ferrari'],
+      ['push', 'origin', 'HEAD:refs/heads/scraper/2026-10-19-1000'],
+      ['checkout', 'main']
+    ])
+  })
+
+  test('pr mode opens a pull request with the run report as its body', async () => {
+    const forge = new FakeForgeClient()
+
+    const result = await new Publisher('pr', { git, cwd, now, forge }).publish(request)
+
+    expect(result.pullRequest).toEqual({ number: 1, url: 'fake://pull/1' })
+    expect(forge.pullRequests).toEqual([expect.objectContaining({
+      title: 'chore: Add books from Ferrari',
+      body: 'run report',
+      head: 'scraper/2026-10-19-1000',
+      base: 'main'
+    })])
+  })
+
+  test('refuses to publish when books.json lost books', async () => {
+    writeBooks([makeBook('B000000002')])
+
+    await expect(new Publisher('push', { git, cwd }).publish(request)).rejects.toThrow(PublishGuardError)
+    expect(commands.map(args => args[0])).not.toContain('commit')
+  })
+
+  test('does nothing when the paths are unchanged', async () => {
+    const clean = async (args: string[]) => {
+      commands.push(args)
+      return ''
+    }
+
+    const result = await new Publisher('push', { git: clean, cwd }).publish(request)
+
+    expect(result.committed).toBe(false)
+    expect(commands.map(args => args[0])).toEqual(['ls-files', 'diff'])
+  })
+
+  test('pr mode needs a forge client', () => {
+    expect(() => new Publisher('pr', { git, cwd })).toThrow('needs a forge client')
+  })
+})
+
+describe('Publisher with a real git repo', () => {
+  let dir: string
+  let repo: string
+
+  const git = (cwd: string, ...args: string[]) => execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim()
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'publisher-git-'))
+    repo = path.join(dir, 'repo')
+    git(dir, 'init', '--bare', '-q', 'remote.git')
+    git(dir, 'init', '-q', '-b', 'main', 'repo')
+    git(repo, 'config', 'user.email', 'scraper@example.com')
+    git(repo, 'config', 'user.name', 'Scraper')
+    git(repo, 'remote', 'add', 'origin', path.join(dir, 'remote.git'))
+    mkdirSync(path.join(repo, 'public', 'data'), { recursive: true })
+    writeFileSync(path.join(repo, BOOKS_DATA_PATH), JSON.stringify([makeBook('B000000001')]))
+    git(repo, 'add', '.')
+    git(repo, 'commit', '-q', '-m', 'initial')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('commits the changed and new paths and skips ones that do not exist', async () => {
+    writeFileSync(path.join(repo, BOOKS_DATA_PATH), JSON.stringify([makeBook('B000000001'), makeBook('B000000002')]))
+    mkdirSync(path.join(repo, 'data', 'runs'), { recursive: true })
+    writeFileSync(path.join(repo, 'data', 'audit-log.jsonl'), '{}\n')
+    writeFileSync(path.join(repo, 'data', 'runs', '2026-01-05T07-03-59Z.json'), '{}\n')
+
+    const result = await new Publisher('push', { cwd: repo, base: 'main' }).publish({
+      paths: [BOOKS_DATA_PATH, 'public/data/other-mentions.json', 'data/review-queue.json', 'data/audit-log.jsonl', 'data/runs/2026-01-05T07-03-59Z.json'],
+      title: 'chore: Add books from Ferrari',
+      body: ''
+    })
+
+    expect(result).toEqual({ mode: 'push', committed: true })
+    expect(git(path.join(dir, 'remote.git'), 'show', '--name-only', '--format=%s', 'main').split('\n')).toEqual([
+      'chore: Add books from Ferrari',
+      '',
+      'data/audit-log.jsonl',
+      'data/runs/2026-01-05T07-03-59Z.json',
+      BOOKS_DATA_PATH
+    ])
+  })
+
+  test('branch mode leaves the local base branch where it was', async () => {
+    const initial = git(repo, 'rev-parse', 'main')
+    writeFileSync(path.join(repo, BOOKS_DATA_PATH), JSON.stringify([makeBook('B000000001'), makeBook('B000000002')]))
+
+    const result = await new Publisher('branch', { cwd: repo, base: 'main', now: () => new Date('2026-10-19T10:00:00.000Z') })
+      .publish({ paths: [BOOKS_DATA_PATH], title: 'chore: Add books from Ferrari', body: '' })
+
+    expect(result).toEqual({ mode: 'branch', committed: true, branch: 'scraper/2026-10-19-1000' })
+    expect(git(repo, 'branch', '--show-current')).toBe('main')
+    expect(git(repo, 'rev-parse', 'main')).toBe(initial)
+    expect(git(path.join(dir, 'remote.git'), 'log', '-1', '--format=%s', 'scraper/2026-10-19-1000')).toBe('chore: Add books from Ferrari')
+  })
+})
+
+test('datedBranchName is unique per minute', () => {
+  expect(datedBranchName(new Date('2026-01-05T07:03:59.000Z'))).toBe('scraper/2026-01-05-0703')
+})
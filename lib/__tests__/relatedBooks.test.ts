@@ -0,0 +1,21 @@
+import { getRelatedBooks } from '../../app/lib/relatedBooks'
+import { makeBook } from './helpers/books'
+
+describe('getRelatedBooks', () => {
+  test('ranks a shared author above shared subjects and skips unrelated books', () => {
+    const book = makeBook('1111111111', { author: 'Walter Isaacson', metadata: { subjects: ['Biography', 'Technology'] } })
+    const sameAuthor = makeBook('2222222222', { author: 'Walter Isaacson & Someone Else' })
+    const sameSubjects = makeBook('3333333333', { author: 'Ashlee Vance', metadata: { subjects: ['biography', 'Technology'] } })
+    const unrelated = makeBook('4444444444', { author: 'Tom Wolfe', metadata: { subjects: ['Fiction'] } })
+
+    const related = getRelatedBooks(book, [book, unrelated, sameSubjects, sameAuthor])
+
+    expect(related.map(related => related.id)).toEqual(['2222222222', '3333333333'])
+  })
+
+  test('does not treat "Unknown Author" as a shared author', () => {
+    const book = makeBook('1111111111', { author: 'Unknown Author' })
+
+    expect(getRelatedBooks(book, [book, makeBook('2222222222', { author: 'Unknown Author' })])).toEqual([])
+  })
+})
@@ -0,0 +1,88 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import {
+  editEntry,
+  loadRejections,
+  loadReviewQueue,
+  partitionForReview,
+  takeEntries,
+  toRejection,
+  type ReviewQueueEntry
+} from '../review-queue'
+import { makeBook } from './helpers/books'
+
+const entry = (id: string): ReviewQueueEntry => ({
+  book: makeBook(id, { metadata: { matchConfidence: 0.9, provenance: { title: 'openlibrary' } } }),
+  reason: 'staged',
+  matchConfidence: 0.9,
+  matchSignals: [],
+  provenance: { title: 'openlibrary' },
+  queuedAt: '2025-01-01T00:00:00.000Z'
+})
+
+describe('staged review', () => {
+  test('staged mode holds every new book but still lets citations of shelved books through', () => {
+    const shelf = [makeBook('B000000001')]
+    const incoming = [makeBook('B000000001'), makeBook('B000000002', { metadata: { matchConfidence: 0.9 } }), makeBook('B000000003')]
+
+    const { accepted, held } = partitionForReview(shelf, incoming, { staged: true })
+
+    expect(accepted.map(b => b.id)).toEqual(['B000000001'])
+    expect(held.map(b => b.id)).toEqual(['B000000002', 'B000000003'])
+  })
+
+  test('rejected books are never proposed again', () => {
+    const rejections = { B000000002: toRejection(entry('B000000002'), 'not a book') }
+
+    const incoming = [makeBook('B000000002', { metadata: { matchConfidence: 0.2 } }), makeBook('B000000003', { metadata: { matchConfidence: 0.9 } })]
+    const { accepted, held, rejected } = partitionForReview([], incoming, { rejections })
+
+    expect(rejected.map(b => b.id)).toEqual(['B000000002'])
+    expect(held).toEqual([])
+    expect(accepted.map(b => b.id)).toEqual(['B000000003'])
+    expect(rejections.B000000002).toMatchObject({ title: 'Title', reason: 'not a book' })
+  })
+
+  test('takeEntries reports ids that are not queued', () => {
+    const { taken, remaining, missing } = takeEntries([entry('B000000001'), entry('B000000002')], ['B000000002', 'B000000009'])
+
+    expect(taken.map(e => e.book.id)).toEqual(['B000000002'])
+    expect(remaining.map(e => e.book.id)).toEqual(['B000000001'])
+    expect(missing).toEqual(['B000000009'])
+  })
+
+  test('edits are validated before they are applied', () => {
+    const queued = entry('B000000001')
+
+    expect(editEntry(queued, { title: 'Shoe Dog', category: 'Biographies & History' })).toEqual([])
+    expect(queued.book).toMatchObject({ title: 'Shoe Dog', category: 'Biographies & History', categoryConfidence: 1, categoryReviewed: true })
+    expect(queued.editedAt).toBeDefined()
+
+    expect(editEntry(queued, { category: 'Cooking' })[0].field).toBe('category')
+    expect(editEntry(queued, { title: '' })[0].field).toBe('title')
+    expect(queued.book.title).toBe('Shoe Dog')
+  })
+})
+
+describe('queue files', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'review-queue-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('a missing file is empty, a corrupt one is an error', async () => {
+    const corrupt = path.join(dir, 'corrupt.json')
+    writeFileSync(corrupt, '[{"book": ')
+
+    expect(await loadReviewQueue(path.join(dir, 'missing.json'))).toEqual([])
+    expect(await loadRejections(path.join(dir, 'missing.json'))).toEqual({})
+    await expect(loadReviewQueue(corrupt)).rejects.toThrow(SyntaxError)
+    await expect(loadRejections(corrupt)).rejects.toThrow(SyntaxError)
+  })
+})
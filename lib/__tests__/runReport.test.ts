@@ -0,0 +1,103 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import {
+  diffRunReports,
+  listRunReports,
+  loadRunReport,
+  RunRecorder,
+  saveRunReport,
+  type RunReport
+} from '../run-report'
+
+const clock = (start: number, step = 1000) => {
+  let now = start
+  return () => {
+    const date = new Date(now)
+    now += step
+    return date
+  }
+}
+
+const runAt = (iso: string, configure: (recorder: RunRecorder) => void = () => {}): RunReport => {
+  const recorder = new RunRecorder(clock(Date.parse(iso)))
+  configure(recorder)
+  return recorder.finish('success')
+}
+
+describe('RunRecorder', () => {
+  test('counts discovered episodes per source and times phases', async () => {
+    const recorder = new RunRecorder(clock(Date.parse('2026-10-19T05:00:00.000Z')))
+
+    recorder.discovered([{ discoveredVia: 'rss' }, { discoveredVia: 'sitemap' }, { discoveredVia: 'sitemap' }])
+    await recorder.time('discovery', async () => 'done')
+    const report = recorder.finish('success')
+
+    expect(report.id).toBe('2026-10-19T05-00-00-000Z')
+    expect(report.discovery).toEqual({ total: 3, bySource: { rss: 1, sitemap: 2, listing: 0 } })
+    expect(report.timings.discovery).toBe(1000)
+    expect(report.status).toBe('success')
+    expect(report.durationMs).toBe(3000)
+  })
+
+  test('records the phase of a failure even when it rethrows', async () => {
+    const recorder = new RunRecorder()
+
+    await expect(recorder.time('canary', async () => { throw new Error('selector drift') })).rejects.toThrow()
+    recorder.error('run', new Error('selector drift'))
+
+    expect(recorder.report.timings).toHaveProperty('canary')
+    expect(recorder.report.errors).toEqual([{ phase: 'run', message: 'selector drift' }])
+  })
+})
+
+describe('diffRunReports', () => {
+  test('compares headline numbers, rule rejections and errors', () => {
+    const before = runAt('2026-10-18T05:00:00.000Z', recorder => {
+      const episode = recorder.episode('ferrari', 'Ferrari')
+      episode.linksFound = 10
+      episode.rejected = [{ ruleId: 'placeholder-title', reason: 'placeholder', amazonUrl: 'https://www.amazon.com/dp/B000000001' }]
+      recorder.report.books.added = ['B000000002', 'B000000003']
+      recorder.error('publish', new Error('push rejected'))
+    })
+    const after = runAt('2026-10-19T05:00:00.000Z', recorder => {
+      const episode = recorder.episode('hermes', 'Hermès')
+      episode.linksFound = 2
+      recorder.error('episode hermes', new Error('HTTP 503'))
+    })
+
+    const diff = diffRunReports(before, after)
+
+    expect(diff.metrics).toContainEqual({ label: 'links found', from: 10, to: 2 })
+    expect(diff.metrics).toContainEqual({ label: 'books added', from: 2, to: 0 })
+    expect(diff.rules).toEqual([{ ruleId: 'placeholder-title', from: 1, to: 0 }])
+    expect(diff.newErrors).toEqual(['episode hermes: HTTP 503'])
+    expect(diff.resolvedErrors).toEqual(['publish: push rejected'])
+    expect(diff.episodesOnlyIn).toEqual({ from: ['ferrari'], to: ['hermes'] })
+  })
+})
+
+describe('run report files', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'run-reports-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('saves reports by id and loads them back by id prefix', async () => {
+    await saveRunReport(runAt('2026-10-18T05:00:00.000Z'), dir)
+    await saveRunReport(runAt('2026-10-19T05:00:00.000Z'), dir)
+
+    expect(await listRunReports(dir)).toEqual(['2026-10-18T05-00-00-000Z', '2026-10-19T05-00-00-000Z'])
+    expect((await loadRunReport('2026-10-19', dir)).startedAt).toBe('2026-10-19T05:00:00.000Z')
+    await expect(loadRunReport('2025', dir)).rejects.toThrow('No run report matching "2025"')
+  })
+
+  test('a missing runs directory means no runs yet', async () => {
+    expect(await listRunReports(path.join(dir, 'missing'))).toEqual([])
+  })
+})
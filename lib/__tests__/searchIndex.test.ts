@@ -0,0 +1,47 @@
+import { buildSearchIndex, foldText, highlightSegments, searchIndex } from '../search-index'
+
+const books = [
+  { id: 'stay', title: 'Stay the Course', author: 'John C. Bogle', episodeRefs: [{ name: 'Vanguard' }] },
+  { id: 'hermes', title: 'Hermès: The Story', author: 'Nadine Coleno', episodeRefs: [{ name: 'Hermès' }] },
+  { id: 'effect', title: 'The Bogle Effect', author: 'Eric Balchunas', episodeRefs: [{ name: 'Vanguard' }] },
+  {
+    id: 'chip',
+    title: 'Chip War',
+    author: 'Chris Miller',
+    episodeRefs: [{ name: 'TSMC' }],
+    metadata: { subjects: ['Semiconductor industry'] }
+  }
+]
+const index = buildSearchIndex(books)
+
+const ids = (query: string) => searchIndex(index, query).map(hit => hit.id)
+
+describe('search index', () => {
+  test('folds accents and apostrophes', () => {
+    expect(foldText("Hermès — Liar's Poker")).toBe('hermes liars poker')
+    expect(ids('hermes')).toEqual(['hermes'])
+  })
+
+  test('tolerates typos and matches prefixes', () => {
+    expect(ids('bogel')).toEqual(expect.arrayContaining(['stay', 'effect']))
+    expect(ids('semicond')).toEqual(['chip'])
+  })
+
+  test('ranks title matches above author matches', () => {
+    expect(ids('bogle')).toEqual(['effect', 'stay'])
+  })
+
+  test('requires every query word to match, in any order', () => {
+    expect(ids('war chip')).toEqual(['chip'])
+    expect(ids('chip vanguard')).toEqual([])
+  })
+
+  test('highlights whole words matching the hit terms', () => {
+    const [hit] = searchIndex(index, 'herm')
+
+    expect(highlightSegments('Hermès: The Story', hit.terms)).toEqual([
+      { text: 'Hermès', match: true },
+      { text: ': The Story', match: false }
+    ])
+  })
+})
@@ -0,0 +1,47 @@
+import { diffShelves, formatShelfDiff, isEmptyDiff } from '../shelf-diff'
+import { makeBook } from './helpers/books'
+
+const hermes = { name: 'Hermès', seasonNumber: 2025, episodeNumber: 2, slug: 'hermes' }
+
+describe('diffShelves', () => {
+  test('reports added books, new citations and the episodes they come from', () => {
+    const before = [makeBook('B000000001')]
+    const after = [
+      makeBook('B000000001', { episodeRefs: [...before[0].episodeRefs, hermes] }),
+      makeBook('B000000002', { title: 'Hermès', episodeRefs: [hermes] })
+    ]
+
+    const diff = diffShelves(before, after)
+
+    expect(diff.added.map(b => b.id)).toEqual(['B000000002'])
+    expect(diff.removed).toEqual([])
+    expect(diff.changed).toEqual([{ id: 'B000000001', title: 'Title', fields: [], newCitations: [hermes] }])
+    expect(diff.newEpisodes).toEqual([{ ...hermes, books: ['B000000001', 'B000000002'] }])
+  })
+
+  test('reports changed fields, down to metadata fields', () => {
+    const before = [makeBook('B000000001', { metadata: { isbn: '9780000000001', matchConfidence: 0.7 } })]
+    const after = [makeBook('B000000001', { title: 'Shoe Dog', metadata: { isbn: '9780000000001', matchConfidence: 0.9 } })]
+
+    const [changed] = diffShelves(before, after).changed
+
+    expect(changed.fields).toEqual([
+      { field: 'title', before: 'Title', after: 'Shoe Dog' },
+      { field: 'metadata.matchConfidence', before: 0.7, after: 0.9 }
+    ])
+  })
+
+  test('reports removed books', () => {
+    const diff = diffShelves([makeBook('B000000001'), makeBook('B000000002')], [makeBook('B000000001')])
+
+    expect(diff.removed.map(b => b.id)).toEqual(['B000000002'])
+    expect(formatShelfDiff(diff)).toContain('- B000000002  "Title" by Author')
+  })
+
+  test('an identical shelf is an empty diff', () => {
+    const diff = diffShelves([makeBook('B000000001')], [makeBook('B000000001')])
+
+    expect(isEmptyDiff(diff)).toBe(true)
+    expect(formatShelfDiff(diff)).toBe('books.json would not change')
+  })
+})
@@ -0,0 +1,32 @@
+import { coverKind, shelfStats } from '../shelf-stats'
+import { FERRARI, makeBook } from './helpers/books'
+
+test('coverKind tells R2, external, local and default covers apart', () => {
+  expect(coverKind('https://pub-abc.r2.dev/covers/B000000001.jpg')).toBe('r2')
+  expect(coverKind('https://covers.example.com/B000000001.jpg', 'https://covers.example.com')).toBe('r2')
+  expect(coverKind('https://covers.openlibrary.org/b/id/1-L.jpg')).toBe('external')
+  expect(coverKind('/covers/shoe-dog.jpg')).toBe('local')
+  expect(coverKind('/covers/default-book.jpg')).toBe('default')
+})
+
+test('shelfStats counts books, episodes, sources and gaps in metadata', () => {
+  const hermes = { name: 'Hermès', seasonNumber: 2025, episodeNumber: 2, slug: 'hermes' }
+  const stats = shelfStats([
+    makeBook('B000000001', { source: 'automated', metadata: { olid: 'OL1M' }, workId: 'OL1W' }),
+    makeBook('B000000002', { episodeRefs: [hermes], title: 'Unknown Title', category: 'Biographies & History' }),
+    makeBook('B000000003', { episodeRefs: [FERRARI, hermes], coverUrl: 'https://pub-abc.r2.dev/covers/3.jpg' })
+  ])
+
+  expect(stats).toMatchObject({
+    books: 3,
+    episodes: 2,
+    citations: 4,
+    categories: { 'Business & Leadership': 2, 'Biographies & History': 1 },
+    sources: { legacy: 2, automated: 1 },
+    covers: { r2: 1, external: 0, local: 0, default: 2 },
+    unknownMetadata: 1,
+    withOpenLibraryMetadata: 1,
+    withWorkId: 1,
+    latestEpisode: hermes
+  })
+})
@@ -0,0 +1,132 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import type { Book } from './book-schema.js'
+import { diffShelves } from './shelf-diff.js'
+
+/**
+ * Audit log — one line per field a write changed on a book, appended to
+ * data/audit-log.jsonl by the book store (lib/book-store.ts) on every
+ * books.json write, with the script that made it. Entries are never rewritten:
+ * reverting a change is itself a write, and is logged as one.
+ */
+
+export const AUDIT_LOG_PATH = path.join(process.cwd(), 'data', 'audit-log.jsonl')
+
+export type AuditAction = 'add' | 'update' | 'remove'
+
+export interface AuditEntry {
+  id: string
+  at: string
+  actor: string
+  bookId: string
+  action: AuditAction
+  field?: string                   // update: top-level field, metadata.<field> or episodeRefs
+  before?: unknown                 // remove: the whole book
+  after?: unknown                  // add: the whole book
+}
+
+/**
+ * The audit entries for replacing `before` with `after`.
+ */
+export function auditEntries(before: Book[], after: Book[], actor: string, at: Date = new Date()): AuditEntry[] {
+  const diff = diffShelves(before, after)
+  const beforeById = new Map(before.map(book => [book.id, book]))
+  const afterById = new Map(after.map(book => [book.id, book]))
+  const stamp = at.toISOString()
+  const prefix = at.getTime().toString(36)
+
+  const changes: Array<Omit<AuditEntry, 'id' | 'at' | 'actor'>> = [
+    ...diff.added.map(book => ({ bookId: book.id, action: 'add' as const, after: book })),
+    ...diff.changed.flatMap(({ id, fields, newCitations }) => [
+      ...fields.map(change => ({ bookId: id, action: 'update' as const, ...change })),
+      ...(newCitations.length > 0
+        ? [{
+            bookId: id,
+            action: 'update' as const,
+            field: 'episodeRefs',
+            before: beforeById.get(id)!.episodeRefs,
+            after: afterById.get(id)!.episodeRefs
+          }]
+        : [])
+    ]),
+    ...diff.removed.map(book => ({ bookId: book.id, action: 'remove' as const, before: book }))
+  ]
+
+  return changes.map((change, index) => ({ id: `${prefix}-${index}`, at: stamp, actor, ...change }))
+}
+
+export async function appendAuditEntries(entries: AuditEntry[], filePath: string = AUDIT_LOG_PATH): Promise<void> {
+  if (entries.length === 0) return
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.appendFile(filePath, entries.map(entry => JSON.stringify(entry)).join('\n') + '\n')
+}
+
+export async function loadAuditLog(filePath: string = AUDIT_LOG_PATH): Promise<AuditEntry[]> {
+  let raw: string
+  try {
+    raw = await fs.readFile(filePath, 'utf-8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+  return raw.split('\n').filter(line => line.trim()).map(line => JSON.parse(line))
+}
+
+export function bookHistory(log: AuditEntry[], bookId: string): AuditEntry[] {
+  return log.filter(entry => entry.bookId === bookId)
+}
+
+const METADATA_PREFIX = 'metadata.'
+
+function getField(book: Book, field: string): unknown {
+  if (!field.startsWith(METADATA_PREFIX)) return book[field as keyof Book]
+  return (book.metadata as Record<string, unknown> | undefined)?.[field.slice(METADATA_PREFIX.length)]
+}
+
+function setField(book: Book, field: string, value: unknown): Book {
+  const copy: Record<string, unknown> = { ...book }
+  let target = copy
+  let key = field
+  if (field.startsWith(METADATA_PREFIX)) {
+    target = copy.metadata = { ...book.metadata }
+    key = field.slice(METADATA_PREFIX.length)
+  }
+
+  if (value === undefined) delete target[key]
+  else target[key] = value
+  return copy as unknown as Book
+}
+
+/**
+ * Undo one audit entry on `books`. Refuses (returns `conflict`) when the book
+ * has moved on since — the field no longer holds the value the entry set —
+ * unless `force` is passed.
+ */
+export function revertEntry(
+  books: Book[],
+  entry: AuditEntry,
+  options: { force?: boolean } = {}
+): { books: Book[]; conflict?: string } {
+  const current = books.find(book => book.id === entry.bookId)
+
+  if (entry.action === 'add') {
+    if (!current) return { books, conflict: `${entry.bookId} is no longer on the shelf` }
+    return { books: books.filter(book => book.id !== entry.bookId) }
+  }
+
+  if (entry.action === 'remove') {
+    if (current) return { books, conflict: `${entry.bookId} is already back on the shelf` }
+    return { books: [...books, entry.before as Book] }
+  }
+
+  if (!current) return { books, conflict: `${entry.bookId} is no longer on the shelf` }
+  const field = entry.field!
+  const value = getField(current, field)
+  if (!options.force && JSON.stringify(value) !== JSON.stringify(entry.after)) {
+    return {
+      books,
+      conflict: `${entry.bookId} ${field} has changed since (now ${JSON.stringify(value)}) — pass --force to revert anyway`
+    }
+  }
+  return { books: books.map(book => (book === current ? setField(book, field, entry.before) : book)) }
+}
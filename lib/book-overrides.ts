@@ -0,0 +1,155 @@
+/**
+ * Manual overrides — hand corrections to books.json that no script may undo,
+ * keyed by ASIN in data/book-overrides.json. An entry either pins a field to a
+ * value, or locks it to whatever books.json held before the write (for a fix
+ * made by editing books.json directly):
+ *
+ *   { "B000000001": { "title": "Shoe Dog", "locked": ["author"], "note": "..." } }
+ *
+ * The book store (lib/book-store.ts) applies them as the last step of every
+ * books.json write, so re-enrichment, fix-unknown-books or a re-scrape can't
+ * clobber them. Categories aren't pinned here: data/category-overrides.json is
+ * their one pin file, read by both the classifier and the app.
+ */
+
+import { readFileSync } from 'fs'
+import * as path from 'path'
+import { extractAsin, isAmazonUrl, isCoverUrl, isWorkId, type Book } from './book-schema.js'
+
+export const BOOK_OVERRIDES_PATH = path.join(process.cwd(), 'data', 'book-overrides.json')
+
+export const OVERRIDABLE_FIELDS = ['title', 'author', 'coverUrl', 'amazonUrl', 'workId'] as const
+
+export type OverridableField = typeof OVERRIDABLE_FIELDS[number]
+
+export type BookOverride = Partial<Pick<Book, OverridableField>> & {
+  locked?: OverridableField[]
+  note?: string
+}
+
+export type BookOverrides = Record<string, BookOverride>
+
+function isOverridableField(value: unknown): value is OverridableField {
+  return typeof value === 'string' && (OVERRIDABLE_FIELDS as readonly string[]).includes(value)
+}
+
+function fieldError(field: OverridableField, value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return 'must be a non-empty string'
+  if (field === 'amazonUrl' && (!isAmazonUrl(value) || !extractAsin(value))) return 'is not an Amazon product URL'
+  if (field === 'coverUrl' && !isCoverUrl(value)) return 'must be a /covers/ path or an http(s) URL'
+  if (field === 'workId' && !isWorkId(value)) return 'must be an Open Library work ID (OL…W)'
+  return null
+}
+
+export function parseBookOverrides(raw: unknown): { overrides: BookOverrides; errors: string[] } {
+  const overrides: BookOverrides = {}
+  const errors: string[] = []
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { overrides, errors: ['book overrides must be an object keyed by ASIN'] }
+  }
+
+  for (const [asin, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (asin.startsWith('$')) continue // "$comment" and similar annotations
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push(`${asin}: must be an object of field values and/or "locked"`)
+      continue
+    }
+
+    const entry = value as Record<string, unknown>
+    const override: BookOverride = {}
+    for (const [key, fieldValue] of Object.entries(entry)) {
+      if (key === 'note' || key === 'locked') continue
+      if (key === 'category' || key === 'secondaryCategories') {
+        errors.push(`${asin}: ${key} is pinned in data/category-overrides.json`)
+        continue
+      }
+      if (!isOverridableField(key)) {
+        errors.push(`${asin}: "${key}" can't be overridden (expected one of ${OVERRIDABLE_FIELDS.join(', ')})`)
+        continue
+      }
+      const error = fieldError(key, fieldValue)
+      if (error) errors.push(`${asin}: ${key} ${error}`)
+      else Object.assign(override, { [key]: fieldValue })
+    }
+
+    if (entry.locked !== undefined) {
+      const locked = Array.isArray(entry.locked) ? entry.locked : []
+      const unknown = locked.filter(field => !isOverridableField(field))
+      if (!Array.isArray(entry.locked) || unknown.length > 0) {
+        errors.push(`${asin}: locked must list fields from ${OVERRIDABLE_FIELDS.join(', ')}`)
+      }
+      const fields = locked.filter(isOverridableField)
+      if (fields.length > 0) override.locked = fields
+    }
+    if (typeof entry.note === 'string') override.note = entry.note
+
+    if (Object.keys(override).some(key => key !== 'note')) overrides[asin] = override
+  }
+
+  return { overrides, errors }
+}
+
+export function loadBookOverrides(filePath: string = BOOK_OVERRIDES_PATH): BookOverrides {
+  let raw: unknown
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf-8'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {}
+    throw error
+  }
+
+  const { overrides, errors } = parseBookOverrides(raw)
+  if (errors.length > 0) {
+    console.warn(`⚠️  Ignoring invalid book overrides in ${filePath}:\n${errors.map(error => `  - ${error}`).join('\n')}`)
+  }
+  return overrides
+}
+
+/**
+ * The override for a book — by id, or by the ASIN in its Amazon URL for the
+ * legacy book-N rows.
+ */
+export function overrideFor(book: Book, overrides: BookOverrides): BookOverride | undefined {
+  if (overrides[book.id]) return overrides[book.id]
+  const asin = extractAsin(book.amazonUrl)
+  return asin ? overrides[asin] : undefined
+}
+
+/**
+ * Whether `field` on `book` is pinned or locked — writers can skip work the
+ * overrides would throw away.
+ */
+export function isOverridden(book: Book, field: OverridableField, overrides: BookOverrides): boolean {
+  const override = overrideFor(book, overrides)
+  return !!override && (override[field] !== undefined || !!override.locked?.includes(field))
+}
+
+/**
+ * `books` with every override applied: pinned fields take the override value,
+ * locked fields keep their value from `previous` (the shelf being replaced).
+ */
+export function applyBookOverrides(books: Book[], overrides: BookOverrides, previous: Book[] = []): Book[] {
+  if (Object.keys(overrides).length === 0) return books
+  const previousById = new Map(previous.map(book => [book.id, book]))
+
+  return books.map(book => {
+    const override = overrideFor(book, overrides)
+    if (!override) return book
+
+    const result: Book = { ...book }
+    const before = previousById.get(book.id)
+    if (before) {
+      for (const field of override.locked ?? []) setField(result, field, before[field])
+    }
+    for (const field of OVERRIDABLE_FIELDS) {
+      if (override[field] !== undefined) setField(result, field, override[field])
+    }
+    return result
+  })
+}
+
+function setField<K extends OverridableField>(book: Book, field: K, value: Book[K]): void {
+  if (value === undefined) delete book[field]
+  else book[field] = value
+}
@@ -0,0 +1,226 @@
+import { readFileSync } from 'fs'
+import * as path from 'path'
+
+/**
+ * Link rules — which Amazon links cited on an episode page become books.
+ * The rules live in data/book-rules.json so a bad link is fixed by adding a
+ * line there rather than a code change, and the scraper, backfill and manual
+ * add all judge links the same way.
+ *
+ * A rule matches when every condition it sets holds: `asins`, `title` and
+ * `author` (case-insensitive regexes), `productTypes`, and `episodes` (slug or
+ * name of the citing episode — the rule then only applies there). Product
+ * types come from the Amazon page when lib/product-type.ts has read it, else
+ * from the URL. `allow` rules win over `block` rules, so a one-off exception
+ * doesn't need the block rule rewritten. Links are checked twice: before metadata is fetched (only
+ * ASIN, product type and episode are known) and again on the finished record.
+ */
+
+export const BOOK_RULES_PATH = path.join(process.cwd(), 'data', 'book-rules.json')
+
+export type RuleAction = 'block' | 'allow'
+
+export const PRODUCT_TYPES = ['book', 'video', 'audible', 'music', 'other'] as const
+
+export type AmazonProductType = typeof PRODUCT_TYPES[number]
+
+export interface BookRule {
+  id: string
+  action: RuleAction
+  reason: string
+  asins?: string[]
+  title?: string                   // regex
+  author?: string                  // regex
+  productTypes?: AmazonProductType[]
+  episodes?: string[]              // episode slugs or names
+}
+
+interface CompiledRule {
+  rule: BookRule
+  title?: RegExp
+  author?: RegExp
+}
+
+export interface RuleSubject {
+  amazonUrl: string
+  asin?: string | null
+  title?: string                   // absent before metadata is fetched
+  author?: string
+  episode?: { name: string; slug?: string }
+  productType?: AmazonProductType  // detected from the product page (lib/product-type.ts); else judged from the URL
+  productSignals?: string[]
+}
+
+export interface RuleVerdict {
+  allowed: boolean
+  rule?: BookRule                  // the rule that decided, if any
+}
+
+export interface RuleRejection {
+  ruleId: string
+  reason: string
+  amazonUrl: string
+  title?: string
+  episode?: string
+  productType?: AmazonProductType
+  signals?: string[]               // why the product type was detected
+}
+
+/**
+ * What an Amazon link points at, judged from the URL alone.
+ */
+export function amazonProductType(amazonUrl: string): AmazonProductType {
+  if (/\/gp\/video\/|\/Prime-Video\//i.test(amazonUrl)) return 'video'
+  if (/audible\.com|\/audible\//i.test(amazonUrl)) return 'audible'
+  if (/\/music\/|\/dmusic\//i.test(amazonUrl)) return 'music'
+  return 'book'
+}
+
+function compileRegex(pattern: unknown, field: string, ruleId: string, errors: string[]): RegExp | undefined {
+  if (pattern === undefined) return undefined
+  if (typeof pattern !== 'string') {
+    errors.push(`${ruleId}: "${field}" must be a regex string`)
+    return undefined
+  }
+  try {
+    return new RegExp(pattern, 'i')
+  } catch (error) {
+    errors.push(`${ruleId}: invalid ${field} regex: ${error instanceof Error ? error.message : error}`)
+    return undefined
+  }
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string')
+}
+
+export function parseBookRules(raw: unknown): { rules: CompiledRule[]; errors: string[] } {
+  const list = (raw as { rules?: unknown } | null)?.rules
+  if (!Array.isArray(list)) return { rules: [], errors: ['book rules must be an object with a "rules" array'] }
+
+  const rules: CompiledRule[] = []
+  const errors: string[] = []
+  const seen = new Set<string>()
+
+  list.forEach((value, index) => {
+    const entry = (value ?? {}) as Record<string, unknown>
+    const id = typeof entry.id === 'string' && entry.id ? entry.id : `rules[${index}]`
+    const before = errors.length
+
+    if (seen.has(id)) errors.push(`${id}: duplicate rule id`)
+    seen.add(id)
+    if (entry.action !== 'block' && entry.action !== 'allow') errors.push(`${id}: action must be "block" or "allow"`)
+    if (typeof entry.reason !== 'string' || !entry.reason.trim()) errors.push(`${id}: every rule needs a reason`)
+    for (const field of ['asins', 'episodes', 'productTypes'] as const) {
+      if (entry[field] !== undefined && !isStringList(entry[field])) errors.push(`${id}: "${field}" must be a non-empty list of strings`)
+    }
+    const unknownTypes = isStringList(entry.productTypes)
+      ? entry.productTypes.filter(type => !(PRODUCT_TYPES as readonly string[]).includes(type))
+      : []
+    if (unknownTypes.length > 0) errors.push(`${id}: unknown product types ${unknownTypes.join(', ')} (known: ${PRODUCT_TYPES.join(', ')})`)
+
+    const title = compileRegex(entry.title, 'title', id, errors)
+    const author = compileRegex(entry.author, 'author', id, errors)
+    if (!entry.asins && !title && !author && !entry.productTypes && errors.length === before) {
+      errors.push(`${id}: needs at least one of asins, title, author or productTypes`)
+    }
+
+    if (errors.length === before) {
+      rules.push({ rule: { ...(entry as unknown as BookRule), id }, title, author })
+    }
+  })
+
+  return { rules, errors }
+}
+
+export function loadBookRules(filePath: string = BOOK_RULES_PATH): CompiledRule[] {
+  let raw: unknown
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf-8'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+
+  const { rules, errors } = parseBookRules(raw)
+  if (errors.length > 0) {
+    console.warn(`⚠️  Ignoring invalid book rules in ${filePath}:\n${errors.map(error => `  - ${error}`).join('\n')}`)
+  }
+  return rules
+}
+
+/**
+ * Whether `rule` matches. A condition on a field the subject doesn't have yet
+ * (title before metadata is fetched) doesn't match — it is checked again later.
+ */
+function matches({ rule, title, author }: CompiledRule, subject: RuleSubject): boolean {
+  if (rule.episodes) {
+    const { name, slug } = subject.episode ?? {}
+    const scoped = rule.episodes.some(episode =>
+      episode.toLowerCase() === slug?.toLowerCase() || episode.toLowerCase() === name?.toLowerCase()
+    )
+    if (!scoped) return false
+  }
+  if (rule.asins && !(subject.asin && rule.asins.includes(subject.asin))) return false
+  if (rule.productTypes && !rule.productTypes.includes(subject.productType ?? amazonProductType(subject.amazonUrl))) return false
+  if (title && (subject.title === undefined || !title.test(subject.title))) return false
+  if (author && (subject.author === undefined || !author.test(subject.author))) return false
+  return true
+}
+
+export function evaluateRules(rules: CompiledRule[], subject: RuleSubject): RuleVerdict {
+  const matched = rules.filter(compiled => matches(compiled, subject))
+  const allow = matched.find(({ rule }) => rule.action === 'allow')
+  if (allow) return { allowed: true, rule: allow.rule }
+  const block = matched.find(({ rule }) => rule.action === 'block')
+  return block ? { allowed: false, rule: block.rule } : { allowed: true }
+}
+
+/**
+ * Rules plus a log of what they rejected during one run.
+ */
+export class RuleEngine {
+  readonly rejections: RuleRejection[] = []
+
+  constructor(private readonly rules: CompiledRule[] = loadBookRules()) {}
+
+  check(subject: RuleSubject): boolean {
+    const verdict = evaluateRules(this.rules, subject)
+    if (!verdict.allowed && verdict.rule) {
+      this.rejections.push({
+        ruleId: verdict.rule.id,
+        reason: verdict.rule.reason,
+        amazonUrl: subject.amazonUrl,
+        ...(subject.title !== undefined ? { title: subject.title } : {}),
+        ...(subject.episode ? { episode: subject.episode.slug ?? subject.episode.name } : {}),
+        ...(subject.productType && subject.productType !== 'book'
+          ? { productType: subject.productType, signals: subject.productSignals ?? [] }
+          : {})
+      })
+      console.log(`  🚫 ${subject.title ? `"${subject.title}"` : subject.amazonUrl} rejected by rule ${verdict.rule.id}: ${verdict.rule.reason}`)
+    }
+    return verdict.allowed
+  }
+
+  /**
+   * Rejections grouped by rule, for the end-of-run summary.
+   */
+  formatReport(): string {
+    if (this.rejections.length === 0) return 'No links rejected by book rules'
+
+    const byRule = new Map<string, RuleRejection[]>()
+    for (const rejection of this.rejections) {
+      byRule.set(rejection.ruleId, [...(byRule.get(rejection.ruleId) ?? []), rejection])
+    }
+
+    const lines = [`${this.rejections.length} links rejected by book rules:`]
+    for (const [ruleId, rejections] of byRule) {
+      lines.push(`  ${ruleId} (${rejections[0].reason}):`)
+      for (const { amazonUrl, title, episode, productType, signals } of rejections) {
+        const detected = productType ? ` — ${productType}${signals?.length ? `: ${signals.join(', ')}` : ''}` : ''
+        lines.push(`    - ${title ? `"${title}" ` : ''}${amazonUrl}${episode ? ` [${episode}]` : ''}${detected}`)
+      }
+    }
+    return lines.join('\n')
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * Book schema — the single definition of a `public/data/books.json` record,
+ * shared by the Next.js app (getBooks) and every script that writes the file.
+ *
+ * `validateBooks` checks untrusted JSON at runtime and returns the valid records
+ * plus a structured issue list, so a malformed row is reported and skipped
+ * instead of crashing the page or being written back to disk.
+ *
+ * Keep this module free of runtime imports — it is bundled into the app.
+ */
+
+export const BOOK_SOURCES = ['automated', 'backfill', 'manual'] as const
+
+export type BookSource = typeof BOOK_SOURCES[number]
+
+export interface EpisodeRef {
+  name: string
+  seasonNumber: number
+  episodeNumber: number
+  slug?: string
+}
+
+/**
+ * Open Library details captured at enrichment time. Optional — the original
+ * hand-curated rows were written before the scraper kept these fields.
+ */
+export interface BookMetadataFields {
+  firstPublishYear?: number
+  subjects?: string[]
+  olid?: string                  // Open Library work ID, e.g. OL123W
+  isbn?: string
+  provenance?: Record<string, string> // field → metadata provider that supplied it
+  matchConfidence?: number       // 0–1, how sure we are the metadata is the linked book
+}
+
+export type EditionFormat = 'kindle' | 'print'
+
+/**
+ * One Amazon listing of a work. Derived when editions are grouped
+ * (lib/editions.ts) — never stored in books.json.
+ */
+export interface Edition {
+  id: string                     // the edition's own book id (ASIN)
+  amazonUrl: string
+  format: EditionFormat
+}
+
+export interface Book {
+  id: string                     // ASIN (a few legacy rows use book-N with the ASIN in amazonUrl)
+  title: string
+  author: string
+  coverUrl: string               // R2 / Open Library / Amazon URL, or a /covers/ path
+  amazonUrl: string
+  category: string
+  secondaryCategories?: string[]
+  categoryConfidence?: number    // 0–1, from classifyBook in lib/categories.ts
+  categoryReviewed?: boolean     // category picked by a person in review, not the classifier
+  episodeRefs: EpisodeRef[]      // every episode that cited the book
+  metadata?: BookMetadataFields
+  workId?: string                // Open Library work ID shared by every edition of the book, e.g. OL45804W
+  editions?: Edition[]           // set by groupEditions when several records share a workId; not stored
+  addedAt?: string               // ISO 8601, set by the automated writers
+  source?: BookSource            // absent on the original hand-curated rows
+}
+
+export interface BookIssue {
+  index: number
+  id?: string
+  field: string
+  message: string
+}
+
+export class BookValidationError extends Error {
+  issues: BookIssue[]
+
+  constructor(issues: BookIssue[]) {
+    super(`${issues.length} invalid book field${issues.length === 1 ? '' : 's'}:\n${formatBookIssues(issues)}`)
+    this.name = 'BookValidationError'
+    this.issues = issues
+  }
+}
+
+const ASIN_RE = /^[0-9B][0-9A-Z]{9}$/
+const WORK_ID_RE = /^OL\d+W$/
+const URL_ASIN_RE = /\/(?:dp|gp\/product)\/([A-Z0-9]{10})/i
+const STANDALONE_ASIN_RE = /\/(B[0-9A-Z]{9})(?:[/?#]|$)/
+
+export function isAsin(value: string): boolean {
+  return ASIN_RE.test(value)
+}
+
+/**
+ * Pull the ASIN out of an Amazon product URL (`/dp/…`, `/gp/product/…` or a bare `/B0…` segment).
+ */
+export function extractAsin(amazonUrl: string): string | null {
+  const match = amazonUrl.match(URL_ASIN_RE) || amazonUrl.match(STANDALONE_ASIN_RE)
+  return match ? match[1].toUpperCase() : null
+}
+
+export function isWorkId(value: string): boolean {
+  return WORK_ID_RE.test(value)
+}
+
+/**
+ * A stored cover: a site path (/covers/…) or an http(s) URL.
+ */
+export function isCoverUrl(value: string): boolean {
+  return value.trim().length > 0 && (value.startsWith('/') || parseHttpUrl(value) !== null)
+}
+
+export function isAmazonUrl(value: string): boolean {
+  const url = parseHttpUrl(value)
+  return !!url && /(^|\.)amazon\./i.test(url.hostname)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+function isUnitInterval(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1
+}
+
+function parseHttpUrl(value: string): URL | null {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url : null
+  } catch {
+    return null
+  }
+}
+
+function validateEpisodeRef(value: unknown, field: string, push: (field: string, message: string) => void): void {
+  if (!isRecord(value)) {
+    push(field, 'must be an object')
+    return
+  }
+  if (!isNonEmptyString(value.name)) push(`${field}.name`, 'must be a non-empty string')
+  if (!Number.isInteger(value.seasonNumber)) push(`${field}.seasonNumber`, 'must be an integer')
+  if (!Number.isInteger(value.episodeNumber) || (value.episodeNumber as number) < 0) {
+    push(`${field}.episodeNumber`, 'must be a non-negative integer')
+  }
+  if (value.slug !== undefined && !isNonEmptyString(value.slug)) push(`${field}.slug`, 'must be a non-empty string when set')
+}
+
+function validateMetadata(value: unknown, push: (field: string, message: string) => void): void {
+  if (!isRecord(value)) {
+    push('metadata', 'must be an object when set')
+    return
+  }
+  if (value.firstPublishYear !== undefined && !Number.isInteger(value.firstPublishYear)) {
+    push('metadata.firstPublishYear', 'must be an integer when set')
+  }
+  if (value.subjects !== undefined && (!Array.isArray(value.subjects) || !value.subjects.every(isNonEmptyString))) {
+    push('metadata.subjects', 'must be an array of non-empty strings when set')
+  }
+  if (value.olid !== undefined && !isNonEmptyString(value.olid)) push('metadata.olid', 'must be a non-empty string when set')
+  if (value.isbn !== undefined && !isNonEmptyString(value.isbn)) push('metadata.isbn', 'must be a non-empty string when set')
+  if (value.matchConfidence !== undefined && !isUnitInterval(value.matchConfidence)) {
+    push('metadata.matchConfidence', 'must be a number between 0 and 1 when set')
+  }
+  if (value.provenance !== undefined && (!isRecord(value.provenance) || !Object.values(value.provenance).every(isNonEmptyString))) {
+    push('metadata.provenance', 'must map field names to provider names when set')
+  }
+}
+
+/**
+ * Check a single untrusted record. Returns an empty list when the record is a valid Book.
+ */
+export function validateBook(value: unknown, index: number = 0): BookIssue[] {
+  const issues: BookIssue[] = []
+  const id = isRecord(value) && typeof value.id === 'string' ? value.id : undefined
+  const push = (field: string, message: string) => issues.push({ index, id, field, message })
+
+  if (!isRecord(value)) {
+    push('', 'record must be an object')
+    return issues
+  }
+
+  if (!isNonEmptyString(value.id)) push('id', 'must be a non-empty string')
+  if (!isNonEmptyString(value.title)) push('title', 'must be a non-empty string')
+  if (!isNonEmptyString(value.author)) push('author', 'must be a non-empty string')
+  if (!isNonEmptyString(value.category)) push('category', 'must be a non-empty string')
+  if (value.secondaryCategories !== undefined && (!Array.isArray(value.secondaryCategories) || !value.secondaryCategories.every(isNonEmptyString))) {
+    push('secondaryCategories', 'must be an array of non-empty strings when set')
+  }
+  if (value.categoryConfidence !== undefined && !isUnitInterval(value.categoryConfidence)) {
+    push('categoryConfidence', 'must be a number between 0 and 1 when set')
+  }
+  if (value.categoryReviewed !== undefined && typeof value.categoryReviewed !== 'boolean') {
+    push('categoryReviewed', 'must be a boolean when set')
+  }
+
+  if (!isNonEmptyString(value.amazonUrl)) {
+    push('amazonUrl', 'must be a non-empty string')
+  } else if (!isAmazonUrl(value.amazonUrl)) {
+    push('amazonUrl', `not an Amazon URL: ${value.amazonUrl}`)
+  }
+
+  // The ASIN is the book's identity — take it from the id, or from the URL for legacy book-N ids
+  if (isNonEmptyString(value.id) && !isAsin(value.id)) {
+    const urlAsin = isNonEmptyString(value.amazonUrl) ? extractAsin(value.amazonUrl) : null
+    if (!urlAsin) push('id', `missing ASIN: id "${value.id}" is not an ASIN and amazonUrl has none`)
+  }
+
+  if (value.workId !== undefined && (typeof value.workId !== 'string' || !isWorkId(value.workId))) {
+    push('workId', `must be an Open Library work ID (OL…W) when set: ${String(value.workId)}`)
+  }
+
+  if (!isNonEmptyString(value.coverUrl)) {
+    push('coverUrl', 'must be a non-empty string')
+  } else if (!isCoverUrl(value.coverUrl)) {
+    push('coverUrl', `bad cover URL: ${value.coverUrl}`)
+  }
+
+  if (!Array.isArray(value.episodeRefs) || value.episodeRefs.length === 0) {
+    push('episodeRefs', 'must be a non-empty array')
+  } else {
+    value.episodeRefs.forEach((ref, i) => validateEpisodeRef(ref, `episodeRefs[${i}]`, push))
+  }
+
+  if (value.metadata !== undefined) validateMetadata(value.metadata, push)
+
+  if (value.addedAt !== undefined && (typeof value.addedAt !== 'string' || Number.isNaN(Date.parse(value.addedAt)))) {
+    push('addedAt', 'must be an ISO 8601 date string when set')
+  }
+
+  if (value.source !== undefined && !BOOK_SOURCES.includes(value.source as BookSource)) {
+    push('source', `unknown source "${String(value.source)}" (expected ${BOOK_SOURCES.join(', ')})`)
+  }
+
+  return issues
+}
+
+/**
+ * Validate a list of untrusted records. Invalid records are left out of `books`
+ * and described in `issues`; callers decide whether to skip, warn or abort.
+ */
+export function validateBooks(values: unknown[]): { books: Book[]; issues: BookIssue[] } {
+  const books: Book[] = []
+  const issues: BookIssue[] = []
+
+  values.forEach((value, index) => {
+    const recordIssues = validateBook(value, index)
+    if (recordIssues.length === 0) {
+      books.push(value as Book)
+    } else {
+      issues.push(...recordIssues)
+    }
+  })
+
+  return { books, issues }
+}
+
+/**
+ * Guard for writers: throws a BookValidationError listing every issue rather than
+ * letting a malformed record reach books.json.
+ */
+export function assertValidBooks(values: unknown[]): Book[] {
+  const { books, issues } = validateBooks(values)
+  if (issues.length > 0) throw new BookValidationError(issues)
+  return books
+}
+
+export function formatBookIssues(issues: BookIssue[]): string {
+  return issues
+    .map(issue => {
+      const where = issue.id ? `#${issue.index} (${issue.id})` : `#${issue.index}`
+      return `  - ${where} ${issue.field ? `${issue.field}: ` : ''}${issue.message}`
+    })
+    .join('\n')
+}
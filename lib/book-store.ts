@@ -0,0 +1,159 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { appendAuditEntries, auditEntries, AUDIT_LOG_PATH } from './audit-log.js'
+import { applyBookOverrides, BOOK_OVERRIDES_PATH, loadBookOverrides } from './book-overrides.js'
+import { assertValidBooks, type Book } from './book-schema.js'
+
+/**
+ * The books.json store every script writes through. Writes go to a temp file
+ * that is renamed over the original, so a crash mid-write never leaves a
+ * truncated shelf; and the file is snapshotted to data/snapshots/ before each
+ * change, tagged with the script about to make it, so a bad write can be
+ * undone with `npm run restore-snapshot`. Manual overrides
+ * (lib/book-overrides.ts) are applied last, whichever script is writing, and
+ * each field the write changed is appended to the audit log (lib/audit-log.ts).
+ */
+
+export const BOOKS_PATH = path.join(process.cwd(), 'public', 'data', 'books.json')
+
+export const SNAPSHOTS_DIR = path.join(process.cwd(), 'data', 'snapshots')
+
+// Older snapshots are pruned when a new one is taken
+export const MAX_SNAPSHOTS = 30
+
+export interface Snapshot {
+  id: string
+  takenAt: string
+  actor: string                    // script whose write followed the snapshot
+  books: Book[]                    // books.json as it was before that write
+}
+
+export type SnapshotInfo = Omit<Snapshot, 'books'> & { bookCount: number }
+
+export interface StoreOptions {
+  filePath?: string
+  snapshotsDir?: string
+  auditLogPath?: string
+  overridesPath?: string
+  now?: () => Date
+}
+
+/**
+ * Write via a temp file in the same directory and rename it into place.
+ */
+export async function writeFileAtomic(filePath: string, contents: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`
+  try {
+    await fs.writeFile(tempPath, contents)
+    await fs.rename(tempPath, filePath)
+  } catch (error) {
+    await fs.rm(tempPath, { force: true })
+    throw error
+  }
+}
+
+export async function writeJsonAtomic(filePath: string, value: unknown): Promise<void> {
+  await writeFileAtomic(filePath, JSON.stringify(value, null, 2))
+}
+
+export async function loadBooks(filePath: string = BOOKS_PATH): Promise<Book[]> {
+  return JSON.parse(await fs.readFile(filePath, 'utf-8'))
+}
+
+async function loadBooksIfPresent(filePath: string): Promise<Book[] | null> {
+  try {
+    return await loadBooks(filePath)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+function snapshotId(date: Date, actor: string): string {
+  return `${date.toISOString().replace(/[:.]/g, '-')}-${actor.replace(/[^a-z0-9-]+/gi, '-')}`
+}
+
+/**
+ * Copy the current books.json into data/snapshots/ and prune the oldest beyond
+ * MAX_SNAPSHOTS. Returns null when there is no books.json yet.
+ */
+export async function takeSnapshot(actor: string, options: StoreOptions = {}): Promise<SnapshotInfo | null> {
+  const books = await loadBooksIfPresent(options.filePath ?? BOOKS_PATH)
+  return books && writeSnapshot(books, actor, options)
+}
+
+async function writeSnapshot(books: Book[], actor: string, options: StoreOptions): Promise<SnapshotInfo> {
+  const { snapshotsDir = SNAPSHOTS_DIR, now = () => new Date() } = options
+  const takenAt = now()
+  const snapshot: Snapshot = { id: snapshotId(takenAt, actor), takenAt: takenAt.toISOString(), actor, books }
+  await writeJsonAtomic(path.join(snapshotsDir, `${snapshot.id}.json`), snapshot)
+
+  const ids = await snapshotIds(snapshotsDir)
+  for (const id of ids.slice(0, Math.max(0, ids.length - MAX_SNAPSHOTS))) {
+    await fs.rm(path.join(snapshotsDir, `${id}.json`), { force: true })
+  }
+  return { id: snapshot.id, takenAt: snapshot.takenAt, actor, bookCount: books.length }
+}
+
+/**
+ * Snapshot the current shelf, atomically replace it with `books` plus the
+ * manual overrides, and log what changed. `actor` names the script making the
+ * change. Returns the shelf as written.
+ */
+export async function saveBooks(books: Book[], actor: string, options: StoreOptions = {}): Promise<Book[]> {
+  const { filePath = BOOKS_PATH, auditLogPath = AUDIT_LOG_PATH, overridesPath = BOOK_OVERRIDES_PATH, now = () => new Date() } = options
+  const previous = await loadBooksIfPresent(filePath)
+  // Overrides are checked when loaded, but the shelf they produce is what gets written
+  const shelf = assertValidBooks(applyBookOverrides(books, loadBookOverrides(overridesPath), previous ?? []))
+  if (previous) await writeSnapshot(previous, actor, options)
+
+  await writeJsonAtomic(filePath, shelf)
+  await appendAuditEntries(auditEntries(previous ?? [], shelf, actor, now()), auditLogPath)
+  return shelf
+}
+
+async function snapshotIds(snapshotsDir: string): Promise<string[]> {
+  try {
+    const files = await fs.readdir(snapshotsDir)
+    return files.filter(file => file.endsWith('.json')).map(file => file.slice(0, -'.json'.length)).sort()
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+}
+
+/**
+ * Snapshots, oldest first.
+ */
+export async function listSnapshots(snapshotsDir: string = SNAPSHOTS_DIR): Promise<SnapshotInfo[]> {
+  const snapshots: SnapshotInfo[] = []
+  for (const id of await snapshotIds(snapshotsDir)) {
+    const { takenAt, actor, books } = await loadSnapshot(id, snapshotsDir)
+    snapshots.push({ id, takenAt, actor, bookCount: books.length })
+  }
+  return snapshots
+}
+
+/**
+ * Load a snapshot by id or unique id prefix.
+ */
+export async function loadSnapshot(ref: string, snapshotsDir: string = SNAPSHOTS_DIR): Promise<Snapshot> {
+  const matches = (await snapshotIds(snapshotsDir)).filter(id => id.startsWith(ref))
+  if (matches.length === 0) throw new Error(`No snapshot matching "${ref}" in ${snapshotsDir}`)
+  if (matches.length > 1 && !matches.includes(ref)) {
+    throw new Error(`"${ref}" matches ${matches.length} snapshots — use more of the id`)
+  }
+  const id = matches.includes(ref) ? ref : matches[0]
+  return JSON.parse(await fs.readFile(path.join(snapshotsDir, `${id}.json`), 'utf-8'))
+}
+
+/**
+ * Put a snapshot back as books.json. The shelf being replaced is snapshotted
+ * first, so a restore can itself be undone.
+ */
+export async function restoreSnapshot(ref: string, options: StoreOptions = {}): Promise<Snapshot> {
+  const snapshot = await loadSnapshot(ref, options.snapshotsDir)
+  await saveBooks(snapshot.books, 'restore', options)
+  return snapshot
+}
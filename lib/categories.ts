@@ -0,0 +1,224 @@
+/**
+ * Category taxonomy — the one list of shelf categories, used by the scrapers
+ * when they write `category` and by the app (processBookData) when it reads
+ * books.json, so both sides speak the same vocabulary.
+ *
+ * `classifyBook` scores every category from the book's Open Library subjects
+ * (strongest signal), a category a person picked or a legacy free-form one,
+ * and its title (weakest), then picks a primary category, up to two secondary ones and a
+ * 0–1 confidence. A checked-in override (data/category-overrides.json, keyed
+ * by ASIN) always wins. A book no signal matches goes to "Uncategorized" with
+ * zero confidence rather than a real category, so `npm run category-report`
+ * (which lists low-confidence picks) flags it for review.
+ *
+ * Keep this module free of runtime imports — it is bundled into the app.
+ */
+
+export const CATEGORIES = [
+  'Business & Leadership',
+  'Technology & Innovation',
+  'Startups & Venture Capital',
+  'Biographies & History',
+  'Science & Engineering',
+  'Economics & Finance',
+  'Fiction & Literature',
+  'Uncategorized'                  // no signal matched — awaiting a category override
+] as const
+
+export type Category = typeof CATEGORIES[number]
+
+export const UNCATEGORIZED: Category = 'Uncategorized'
+
+// Assignments below this are listed by the category report for review
+export const LOW_CONFIDENCE_THRESHOLD = 0.5
+
+const MAX_SECONDARY = 2
+const SECONDARY_RATIO = 0.5        // a secondary needs at least half the primary's score
+const FULL_CONFIDENCE_SCORE = 2    // evidence needed before confidence can reach 1
+
+const SIGNAL_WEIGHTS = {
+  subject: 1,                      // per matching Open Library subject
+  reviewed: 2,                     // a taxonomy category picked by a person
+  legacy: 1.5,                     // an older free-form category (often a raw subject)
+  title: 0.5
+} as const
+
+export type CategorySignal = keyof typeof SIGNAL_WEIGHTS
+
+export type CategorySource = CategorySignal | 'override' | 'none'
+
+export interface CategoryInput {
+  title: string
+  author?: string
+  subjects?: string[]
+  category?: string                // the record's current category, if any
+  categoryReviewed?: boolean       // whether a person picked `category`
+}
+
+export interface CategoryOverride {
+  primary: Category
+  secondary?: Category[]
+  note?: string
+}
+
+export type CategoryOverrides = Record<string, CategoryOverride> // keyed by ASIN
+
+export interface CategoryAssignment {
+  primary: Category
+  secondary: Category[]
+  confidence: number               // 0–1, rounded to two decimals
+  source: CategorySource           // signal that contributed most to the primary
+  scores: Partial<Record<Category, number>>
+}
+
+// Listed most specific first; ties in score go to the earlier category
+const CATEGORY_RULES: Array<[Category, RegExp]> = [
+  ['Startups & Venture Capital', /venture|start-?up|entrepreneur|\bvc\b|founder|silicon valley/],
+  ['Fiction & Literature', /fiction|novel|fantasy|sci-?fi|literature|stories|poetry|ciencia/],
+  ['Technology & Innovation', /comput|software|programming|technolog|\btech\b|internet|digital|semiconductor|video games|wireless|electronic|information superhighway/],
+  ['Economics & Finance', /economic|financ|invest|stock|money|bank|crypto|capital market|credit/],
+  ['Biographies & History', /biograph|memoir|history|historical|autobiograph/],
+  ['Science & Engineering', /science|engineering|physics|research|aerospace|spacecraft|medicine|insulin|communication theory/],
+  ['Business & Leadership', /business|leadership|management|strategy|\bceo\b|executive|industr|marketing|advertising|retail|corporat|organizational|\bfirm\b|commerce|trade/]
+]
+
+export function isCategory(value: string): value is Category {
+  return (CATEGORIES as readonly string[]).includes(value)
+}
+
+function matchingCategories(text: string): Category[] {
+  const lower = text.toLowerCase()
+  return CATEGORY_RULES.filter(([, pattern]) => pattern.test(lower)).map(([category]) => category)
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Score every category for a book and pick primary + secondary categories.
+ * Pass the book's override (looked up by ASIN) to pin the result.
+ */
+export function classifyBook(book: CategoryInput, override?: CategoryOverride): CategoryAssignment {
+  if (override) {
+    return {
+      primary: override.primary,
+      secondary: (override.secondary ?? []).filter(category => category !== override.primary),
+      confidence: 1,
+      source: 'override',
+      scores: {}
+    }
+  }
+
+  const scores = new Map<Category, number>()
+  const contributions = new Map<Category, Map<CategorySignal, number>>()
+  const vote = (category: Category, signal: CategorySignal) => {
+    const weight = SIGNAL_WEIGHTS[signal]
+    scores.set(category, (scores.get(category) ?? 0) + weight)
+    const bySignal = contributions.get(category) ?? new Map<CategorySignal, number>()
+    bySignal.set(signal, (bySignal.get(signal) ?? 0) + weight)
+    contributions.set(category, bySignal)
+  }
+
+  for (const subject of book.subjects ?? []) {
+    matchingCategories(subject).forEach(category => vote(category, 'subject'))
+  }
+  if (book.category && isCategory(book.category)) {
+    // Otherwise it is this classifier's earlier pick, which must not reinforce itself
+    if (book.categoryReviewed && book.category !== UNCATEGORIZED) vote(book.category, 'reviewed')
+  } else if (book.category) {
+    matchingCategories(book.category).forEach(category => vote(category, 'legacy'))
+  }
+  matchingCategories(book.title).forEach(category => vote(category, 'title'))
+
+  const ranked = CATEGORIES
+    .filter(category => scores.has(category))
+    .sort((a, b) => scores.get(b)! - scores.get(a)! || ruleOrder(a) - ruleOrder(b))
+
+  if (ranked.length === 0) {
+    return { primary: UNCATEGORIZED, secondary: [], confidence: 0, source: 'none', scores: {} }
+  }
+
+  const primary = ranked[0]
+  const primaryScore = scores.get(primary)!
+  const total = [...scores.values()].reduce((sum, score) => sum + score, 0)
+  const confidence = (primaryScore / total) * Math.min(1, primaryScore / FULL_CONFIDENCE_SCORE)
+
+  const [source] = [...contributions.get(primary)!.entries()].sort((a, b) => b[1] - a[1])[0]
+
+  return {
+    primary,
+    secondary: ranked
+      .slice(1)
+      .filter(category => scores.get(category)! >= primaryScore * SECONDARY_RATIO)
+      .slice(0, MAX_SECONDARY),
+    confidence: round(confidence),
+    source,
+    scores: Object.fromEntries([...scores.entries()].map(([category, score]) => [category, round(score)]))
+  }
+}
+
+function ruleOrder(category: Category): number {
+  return CATEGORY_RULES.findIndex(([ruleCategory]) => ruleCategory === category)
+}
+
+/**
+ * Primary category only — for callers that don't need secondaries or confidence.
+ */
+export function categorize(book: CategoryInput, override?: CategoryOverride): Category {
+  return classifyBook(book, override).primary
+}
+
+/**
+ * The category fields stored on a books.json record.
+ */
+export function toCategoryFields(assignment: CategoryAssignment): {
+  category: Category
+  secondaryCategories?: Category[]
+  categoryConfidence: number
+} {
+  return {
+    category: assignment.primary,
+    ...(assignment.secondary.length > 0 ? { secondaryCategories: assignment.secondary } : {}),
+    categoryConfidence: assignment.confidence
+  }
+}
+
+/**
+ * Validate the overrides file. Bad entries are reported and skipped rather than
+ * failing the build.
+ */
+export function parseCategoryOverrides(raw: unknown): { overrides: CategoryOverrides; errors: string[] } {
+  const overrides: CategoryOverrides = {}
+  const errors: string[] = []
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { overrides, errors: ['category overrides must be an object keyed by ASIN'] }
+  }
+
+  for (const [asin, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (asin.startsWith('$')) continue // "$comment" and similar annotations
+    const entry = typeof value === 'string' ? { primary: value } : value as Record<string, unknown>
+    if (typeof entry !== 'object' || entry === null) {
+      errors.push(`${asin}: must be a category name or { primary, secondary?, note? }`)
+      continue
+    }
+
+    const { primary, secondary, note } = entry as { primary?: unknown; secondary?: unknown; note?: unknown }
+    if (typeof primary !== 'string' || !isCategory(primary)) {
+      errors.push(`${asin}: unknown primary category "${String(primary)}"`)
+      continue
+    }
+    const secondaryList = Array.isArray(secondary) ? secondary : []
+    const unknown = secondaryList.filter(category => typeof category !== 'string' || !isCategory(category))
+    if (unknown.length > 0) errors.push(`${asin}: unknown secondary categories ${unknown.map(String).join(', ')}`)
+
+    overrides[asin] = {
+      primary,
+      secondary: secondaryList.filter((category): category is Category => typeof category === 'string' && isCategory(category)),
+      ...(typeof note === 'string' ? { note } : {})
+    }
+  }
+
+  return { overrides, errors }
+}
@@ -0,0 +1,26 @@
+/**
+ * Node-side loader for data/category-overrides.json, used by the scripts.
+ * The app imports the same file directly (see app/lib/categoryMapping.ts).
+ */
+
+import { readFileSync } from 'fs'
+import * as path from 'path'
+import { parseCategoryOverrides, type CategoryOverrides } from './categories.js'
+
+export const CATEGORY_OVERRIDES_PATH = path.join(process.cwd(), 'data', 'category-overrides.json')
+
+export function loadCategoryOverrides(filePath: string = CATEGORY_OVERRIDES_PATH): CategoryOverrides {
+  let raw: unknown
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf-8'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {}
+    throw error
+  }
+
+  const { overrides, errors } = parseCategoryOverrides(raw)
+  if (errors.length > 0) {
+    console.warn(`⚠️  Ignoring invalid category overrides in ${filePath}:\n${errors.map(error => `  - ${error}`).join('\n')}`)
+  }
+  return overrides
+}
@@ -0,0 +1,93 @@
+/**
+ * Shared plumbing for the `bookshelf` CLI (scripts/bookshelf.ts): flag
+ * parsing, exit codes and --json output.
+ *
+ * Exit codes are the same for every subcommand — scripts and CI can branch on
+ * them without knowing which command ran.
+ */
+
+export const EXIT_CODES = {
+  ok: 0,
+  failed: 1,                       // the command threw
+  usage: 2,                        // bad subcommand, flag or argument
+  incomplete: 3                    // finished, but left work undone (failed uploads, gaps found, ...)
+} as const
+
+export type ExitCode = typeof EXIT_CODES[keyof typeof EXIT_CODES]
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UsageError'
+  }
+}
+
+export interface ParsedArgs {
+  positionals: string[]
+  flags: Record<string, string | boolean>
+}
+
+/**
+ * Split `args` into positionals and flags. `--flag=value` and `--no-flag` work
+ * for any flag; `--flag value` only for the names in `valueFlags`, so a bare
+ * boolean flag never swallows the positional after it. `--` ends flag parsing.
+ */
+export function parseArgs(args: string[], valueFlags: readonly string[] = []): ParsedArgs {
+  const positionals: string[] = []
+  const flags: Record<string, string | boolean> = {}
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === '--') {
+      positionals.push(...args.slice(i + 1))
+      break
+    }
+    if (!arg.startsWith('--')) {
+      positionals.push(arg)
+      continue
+    }
+
+    const [name, ...rest] = arg.slice(2).split('=')
+    if (rest.length > 0) flags[name] = rest.join('=')
+    else if (valueFlags.includes(name)) {
+      const value = args[i + 1]
+      if (value === undefined || value.startsWith('--')) throw new UsageError(`--${name} needs a value`)
+      flags[name] = value
+      i++
+    } else if (name.startsWith('no-')) flags[name.slice(3)] = false
+    else flags[name] = true
+  }
+
+  return { positionals, flags }
+}
+
+export function stringFlag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags[name]
+  if (value === undefined || value === false) return undefined
+  if (value === true) throw new UsageError(`--${name} needs a value`)
+  return value
+}
+
+/**
+ * Reject flags a command doesn't take, so a typo fails loudly instead of
+ * being ignored.
+ */
+export function assertKnownFlags(args: ParsedArgs, known: readonly string[]): void {
+  const unknown = Object.keys(args.flags).filter(flag => !known.includes(flag))
+  if (unknown.length > 0) throw new UsageError(`Unknown flag ${unknown.map(flag => `--${flag}`).join(', ')}`)
+}
+
+/**
+ * Run `fn` with console.log/info routed to stderr, so the progress output the
+ * scripts print doesn't corrupt JSON written to stdout.
+ */
+export async function withLogsOnStderr<T>(fn: () => Promise<T>): Promise<T> {
+  const { log, info } = console
+  console.log = console.info = (...args: unknown[]) => console.error(...args)
+  try {
+    return await fn()
+  } finally {
+    console.log = log
+    console.info = info
+  }
+}
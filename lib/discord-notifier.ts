@@ -101,6 +101,26 @@ export class DiscordNotifier {
     await this.sendWebhook({ embeds: embeds.slice(0, 10) })
   }
 
+  /**
+   * Send a notification about books already on the shelf that a new episode
+   * cited again — kept apart from notifyBooksAdded so they aren't announced as new.
+   * `episode` names the episodes that newly cited the book.
+   */
+  async notifyBooksCited(books: DiscordBookEntry[]): Promise<void> {
+    if (books.length === 0) return
+
+    const lines = books.map(book => `• **${book.title}** — ${book.author}, now also in ${book.episode}`)
+    const embed: DiscordEmbed = {
+      title: `🔁 ${books.length} book${books.length > 1 ? 's' : ''} cited again`,
+      description: lines.slice(0, 20).join('\n') + (books.length > 20 ? `\n…and ${books.length - 20} more` : ''),
+      color: 0x0099ff, // Blue
+      timestamp: new Date().toISOString(),
+      footer: { text: 'Acquired Bookshelf Scraper' }
+    }
+
+    await this.sendWebhook({ embeds: [embed] })
+  }
+
   /**
    * Send a notification about books with unknown metadata
    */
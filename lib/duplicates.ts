@@ -0,0 +1,301 @@
+import { readFileSync } from 'fs'
+import * as path from 'path'
+import type { Book } from './book-schema.js'
+import { mergeEpisodeRefs } from './episode-refs.js'
+import { authorSimilarity, titleSimilarity } from './match-confidence.js'
+import { normalizeAuthor, toTitleCase } from './title-case.js'
+
+/**
+ * Duplicate detection — the same book recorded twice under slightly different
+ * titles ("Microsoft Story" / "The Microsoft Story"), author spellings or ASINs.
+ * Pairs are scored on normalized title, author tokens, Open Library ID and cover
+ * image hash, then clustered. Nothing is merged automatically: the report is
+ * reviewed and approved merges go in data/duplicate-decisions.json.
+ *
+ * Editions already grouped by `workId` (lib/editions.ts) are not duplicates.
+ */
+
+export const DUPLICATE_DECISIONS_PATH = path.join(process.cwd(), 'data', 'duplicate-decisions.json')
+
+export const DUPLICATE_THRESHOLD = 0.6
+
+const WEIGHTS = {
+  sameTitle: 0.5,
+  similarTitle: 0.35,
+  sameAuthor: 0.3,
+  conflictingAuthor: -0.5,
+  sameOlid: 0.6,
+  sameCover: 0.5
+}
+
+const SIMILAR_TITLE = 0.85
+// A cover shared by this many books is a placeholder ("no image"), not evidence
+const PLACEHOLDER_COVER_COUNT = 3
+
+export interface MergeDecision {
+  keep: string                     // id of the record that survives
+  duplicates: string[]             // ids folded into it and removed
+  note?: string
+}
+
+export interface DuplicateDecisions {
+  merges: MergeDecision[]
+  distinct: string[][]             // groups reviewed and confirmed to be different books
+}
+
+export interface DuplicatePair {
+  a: string
+  b: string
+  score: number
+  signals: string[]
+}
+
+export interface DuplicateCluster {
+  ids: string[]
+  keep: string                     // suggested survivor
+  score: number                    // strongest pair score in the cluster
+  signals: string[]
+}
+
+/**
+ * Comparison key for a title: title-cased (so casing quirks agree), subtitle
+ * dropped, leading article dropped, punctuation collapsed.
+ */
+export function titleKey(title: string): string {
+  return toTitleCase(title)
+    .split(/:|\s[-\u2014\u2013]\s/)[0]
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['\u2018\u2019]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^(the|a|an) /, '')
+}
+
+function numbering(title: string): string {
+  return (title.toLowerCase().match(/\b(\d+|[ivx]+)\b/g) ?? []).sort().join(' ')
+}
+
+function sameNumbering(a: string, b: string): boolean {
+  return numbering(a) === numbering(b)
+}
+
+function hasKnownAuthor(book: Book): boolean {
+  return book.author.trim().length > 0 && !/^unknown/i.test(book.author.trim())
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+export function scorePair(a: Book, b: Book, coverHashes: Record<string, string> = {}): DuplicatePair {
+  const signals: string[] = []
+  let score = 0
+
+  const keyA = titleKey(a.title)
+  const keyB = titleKey(b.title)
+  if (keyA && keyA === keyB) {
+    score += WEIGHTS.sameTitle
+    signals.push(`same title "${keyA}"`)
+  } else {
+    const similarity = Math.max(titleSimilarity(a.title, b.title), titleSimilarity(b.title, a.title))
+    // "Volume 2", "Part II" and the like are sequels, not spelling variants
+    if (similarity >= SIMILAR_TITLE && sameNumbering(a.title, b.title)) {
+      score += WEIGHTS.similarTitle
+      signals.push(`similar title ${similarity.toFixed(2)}`)
+    }
+  }
+
+  if (hasKnownAuthor(a) && hasKnownAuthor(b)) {
+    const authorA = normalizeAuthor(a.author)
+    const authorB = normalizeAuthor(b.author)
+    if (Math.max(authorSimilarity(authorA, authorB), authorSimilarity(authorB, authorA)) === 1) {
+      score += WEIGHTS.sameAuthor
+      signals.push('same author')
+    } else {
+      score += WEIGHTS.conflictingAuthor
+      signals.push(`different authors "${a.author}" / "${b.author}"`)
+    }
+  }
+
+  const olid = a.metadata?.olid
+  if (olid && olid === b.metadata?.olid) {
+    score += WEIGHTS.sameOlid
+    signals.push(`same Open Library ID ${olid}`)
+  }
+
+  const cover = coverHashes[a.id]
+  if (cover && cover === coverHashes[b.id]) {
+    score += WEIGHTS.sameCover
+    signals.push('identical cover image')
+  }
+
+  return { a: a.id, b: b.id, score: round(Math.max(0, Math.min(1, score))), signals }
+}
+
+/**
+ * Drop hashes shared by so many books they must be a placeholder image.
+ */
+function withoutPlaceholderCovers(coverHashes: Record<string, string>): Record<string, string> {
+  const counts = new Map<string, number>()
+  for (const hash of Object.values(coverHashes)) counts.set(hash, (counts.get(hash) ?? 0) + 1)
+  return Object.fromEntries(Object.entries(coverHashes).filter(([, hash]) => counts.get(hash)! < PLACEHOLDER_COVER_COUNT))
+}
+
+/**
+ * The record to keep: one with Open Library metadata, then the most citations,
+ * then the first added (hand-curated rows have no addedAt and count as oldest).
+ */
+function suggestKeep(books: Book[]): Book {
+  return [...books].sort((a, b) =>
+    Number(Boolean(b.metadata)) - Number(Boolean(a.metadata)) ||
+    b.episodeRefs.length - a.episodeRefs.length ||
+    (a.addedAt ?? '').localeCompare(b.addedAt ?? '')
+  )[0]
+}
+
+export function findDuplicateClusters(
+  books: Book[],
+  options: { coverHashes?: Record<string, string>; distinct?: string[][]; threshold?: number } = {}
+): DuplicateCluster[] {
+  const threshold = options.threshold ?? DUPLICATE_THRESHOLD
+  const coverHashes = withoutPlaceholderCovers(options.coverHashes ?? {})
+  const distinctGroups = (options.distinct ?? []).map(group => new Set(group))
+  const confirmedDistinct = (a: string, b: string) => distinctGroups.some(group => group.has(a) && group.has(b))
+
+  // Union-find over pairs above the threshold
+  const parent = new Map(books.map(book => [book.id, book.id]))
+  const find = (id: string): string => {
+    const root = parent.get(id)!
+    if (root === id) return id
+    const top = find(root)
+    parent.set(id, top)
+    return top
+  }
+
+  const pairs: DuplicatePair[] = []
+  for (let i = 0; i < books.length; i++) {
+    for (let j = i + 1; j < books.length; j++) {
+      const [a, b] = [books[i], books[j]]
+      if (a.workId && a.workId === b.workId) continue // editions of one work
+      if (confirmedDistinct(a.id, b.id)) continue
+      const pair = scorePair(a, b, coverHashes)
+      if (pair.score < threshold) continue
+      pairs.push(pair)
+      parent.set(find(a.id), find(b.id))
+    }
+  }
+
+  const clusters = new Map<string, DuplicatePair[]>()
+  for (const pair of pairs) {
+    const root = find(pair.a)
+    clusters.set(root, [...(clusters.get(root) ?? []), pair])
+  }
+
+  const byId = new Map(books.map(book => [book.id, book]))
+  return [...clusters.values()]
+    .map(clusterPairs => {
+      const ids = books.map(book => book.id).filter(id => clusterPairs.some(pair => pair.a === id || pair.b === id))
+      const strongest = clusterPairs.reduce((best, pair) => (pair.score > best.score ? pair : best))
+      return {
+        ids,
+        keep: suggestKeep(ids.map(id => byId.get(id)!)).id,
+        score: strongest.score,
+        signals: strongest.signals
+      }
+    })
+    .sort((a, b) => b.score - a.score)
+}
+
+export function parseDuplicateDecisions(raw: unknown): { decisions: DuplicateDecisions; errors: string[] } {
+  const decisions: DuplicateDecisions = { merges: [], distinct: [] }
+  const errors: string[] = []
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { decisions, errors: ['duplicate decisions must be an object with "merges" and "distinct"'] }
+  }
+
+  const { merges = [], distinct = [] } = raw as { merges?: unknown; distinct?: unknown }
+  const isIdList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(id => typeof id === 'string' && id.length > 0)
+
+  if (!Array.isArray(merges)) errors.push('"merges" must be an array')
+  else merges.forEach((merge, index) => {
+    const { keep, duplicates, note } = (merge ?? {}) as Partial<Record<keyof MergeDecision, unknown>>
+    if (typeof keep !== 'string' || !isIdList(duplicates) || duplicates.length === 0) {
+      errors.push(`merges[${index}]: must be { keep: id, duplicates: [id, ...], note? }`)
+    } else if (duplicates.includes(keep)) {
+      errors.push(`merges[${index}]: "${keep}" is both kept and merged away`)
+    } else {
+      decisions.merges.push({ keep, duplicates, ...(typeof note === 'string' ? { note } : {}) })
+    }
+  })
+
+  if (!Array.isArray(distinct)) errors.push('"distinct" must be an array')
+  else distinct.forEach((group, index) => {
+    if (isIdList(group) && group.length > 1) decisions.distinct.push(group)
+    else errors.push(`distinct[${index}]: must be a list of two or more ids`)
+  })
+
+  return { decisions, errors }
+}
+
+export function loadDuplicateDecisions(filePath: string = DUPLICATE_DECISIONS_PATH): { decisions: DuplicateDecisions; errors: string[] } {
+  try {
+    return parseDuplicateDecisions(JSON.parse(readFileSync(filePath, 'utf-8')))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { decisions: { merges: [], distinct: [] }, errors: [] }
+    throw error
+  }
+}
+
+export interface AppliedMerge {
+  keep: string
+  removed: string[]
+  addedRefs: number                // episode citations the kept record gained
+}
+
+/**
+ * Fold each decision's duplicates into its kept record — every episode citation
+ * is carried over, and metadata, workId and a real cover fill gaps on the kept
+ * record. Decisions whose ids are already gone are reported, not errors, so a
+ * decisions file can be re-applied safely.
+ */
+export function applyMerges(books: Book[], merges: MergeDecision[]): { books: Book[]; applied: AppliedMerge[]; skipped: string[] } {
+  const byId = new Map(books.map(book => [book.id, book]))
+  const removed = new Set<string>()
+  const applied: AppliedMerge[] = []
+  const skipped: string[] = []
+
+  for (const merge of merges) {
+    const keep = byId.get(merge.keep)
+    if (!keep || removed.has(merge.keep)) {
+      skipped.push(`${merge.keep}: kept record not in books.json`)
+      continue
+    }
+
+    const duplicates = merge.duplicates
+      .filter(id => !removed.has(id))
+      .map(id => byId.get(id))
+      .filter((book): book is Book => book !== undefined)
+    if (duplicates.length === 0) {
+      skipped.push(`${merge.keep}: already merged`)
+      continue
+    }
+
+    let addedRefs = 0
+    for (const duplicate of duplicates) {
+      addedRefs += mergeEpisodeRefs(keep.episodeRefs, duplicate.episodeRefs).length
+      keep.metadata ??= duplicate.metadata
+      keep.workId ??= duplicate.workId
+      if (keep.coverUrl.startsWith('/covers/default') && !duplicate.coverUrl.startsWith('/covers/default')) {
+        keep.coverUrl = duplicate.coverUrl
+      }
+      removed.add(duplicate.id)
+    }
+    applied.push({ keep: keep.id, removed: duplicates.map(book => book.id), addedRefs })
+  }
+
+  return { books: books.filter(book => !removed.has(book.id)), applied, skipped }
+}
@@ -0,0 +1,97 @@
+import type { Book, Edition, EditionFormat, EpisodeRef } from './book-schema'
+
+/**
+ * Edition grouping — the Kindle and print listings of one book are separate
+ * books.json records (each keyed by its own ASIN) that share a `workId`.
+ * `groupEditions` folds them into one record per work, so the shelf shows a
+ * single tile that links to every edition. Records without a `workId` are left
+ * alone; `npm run resolve-works` fills it in.
+ *
+ * Keep this module free of runtime imports — it is bundled into the app.
+ */
+
+const KINDLE_ASIN_RE = /^B[0-9A-Z]{9}$/
+
+/**
+ * Kindle ASINs start with B; a print book's ASIN is its ISBN-10.
+ */
+export function editionFormat(asin: string): EditionFormat {
+  return KINDLE_ASIN_RE.test(asin) ? 'kindle' : 'print'
+}
+
+function asinOf(book: Book): string {
+  if (/^[0-9B][0-9A-Z]{9}$/.test(book.id)) return book.id
+  // Legacy book-N ids keep the ASIN in the URL
+  return book.amazonUrl.match(/\/(?:dp|gp\/product)\/([A-Z0-9]{10})/i)?.[1]?.toUpperCase() ?? book.id
+}
+
+function toEdition(book: Book): Edition {
+  return { id: book.id, amazonUrl: book.amazonUrl, format: editionFormat(asinOf(book)) }
+}
+
+function episodeKey(ref: EpisodeRef): string {
+  return ref.slug ?? `${ref.seasonNumber}-${ref.episodeNumber}`
+}
+
+/**
+ * The record that represents the work: the first edition added to the shelf, so
+ * the tile (and its URL) stays put when another edition is cited later.
+ * Hand-curated rows have no addedAt and count as oldest.
+ */
+function pickPrimary<T extends Book>(editions: T[]): T {
+  return editions.reduce((primary, book) => ((book.addedAt ?? '') < (primary.addedAt ?? '') ? book : primary))
+}
+
+function mergeEditions<T extends Book>(editions: T[]): T {
+  const primary = pickPrimary(editions)
+  const others = editions.filter(book => book !== primary)
+
+  const episodeRefs = [...primary.episodeRefs]
+  const seen = new Set(episodeRefs.map(episodeKey))
+  for (const ref of others.flatMap(book => book.episodeRefs)) {
+    if (seen.has(episodeKey(ref))) continue
+    seen.add(episodeKey(ref))
+    episodeRefs.push(ref)
+  }
+
+  return {
+    ...primary,
+    episodeRefs,
+    metadata: primary.metadata ?? others.find(book => book.metadata)?.metadata,
+    editions: [primary, ...others].map(toEdition)
+  }
+}
+
+/**
+ * One record per work, in the position of the work's first record in `books`.
+ */
+export function groupEditions<T extends Book>(books: T[]): T[] {
+  const byWork = new Map<string, T[]>()
+  for (const book of books) {
+    if (!book.workId) continue
+    const group = byWork.get(book.workId) ?? []
+    group.push(book)
+    byWork.set(book.workId, group)
+  }
+
+  const grouped: T[] = []
+  const emitted = new Set<string>()
+  for (const book of books) {
+    const group = book.workId ? byWork.get(book.workId)! : [book]
+    if (group.length === 1) {
+      grouped.push(book)
+      continue
+    }
+    if (emitted.has(book.workId!)) continue
+    emitted.add(book.workId!)
+    grouped.push(mergeEditions(group))
+  }
+  return grouped
+}
+
+/**
+ * Find a work by its own id or the id of any of its editions.
+ */
+export function findByEditionId<T extends Book>(books: T[], id: string): T | undefined {
+  return books.find(book => book.id === id || book.editions?.some(edition => edition.id === id))
+}
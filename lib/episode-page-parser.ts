@@ -9,8 +9,11 @@
  */
 
 import type { CheerioAPI } from 'cheerio'
+import type { EpisodeRef } from './book-schema.js'
 import type { URLValidator } from './url-validator.js'
 
+export const EPISODES_URL = 'https://www.acquired.fm/episodes'
+
 const AMAZON_HOST_RE = /amazon\./i
 const ASIN_RE = /\/(?:dp|gp\/product)\/([A-Z0-9]{10})/i
 const STANDALONE_ASIN_RE = /\/([B][0-9A-Z]{9})(?:[/?#]|$)/i
@@ -130,3 +133,38 @@ export function parseSeasonEpisodeHint(
 
   return null
 }
+
+/**
+ * The episode page for a slug ("google-the-ai-company"); full URLs pass through.
+ */
+export function episodePageUrl(slugOrUrl: string): string {
+  return /^https?:\/\//i.test(slugOrUrl) ? slugOrUrl : `${EPISODES_URL}/${slugOrUrl.replace(/^\/+|\/+$/g, '')}`
+}
+
+export function episodeSlugFromUrl(url: string): string {
+  return (url.split('/episodes/')[1] || 'unknown').split(/[/?#]/)[0]
+}
+
+/**
+ * The episode reference for a page: title and season/episode hint from the
+ * page when given, else a title-cased slug in the current year.
+ */
+export function extractEpisodeInfo(url: string, $?: CheerioAPI): Required<EpisodeRef> {
+  const slug = episodeSlugFromUrl(url)
+  let name = slug.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')
+
+  let seasonNumber = new Date().getFullYear()
+  let episodeNumber = 0
+
+  if ($) {
+    const pageTitle = extractEpisodeTitle($)
+    if (pageTitle && pageTitle.length > 1) name = pageTitle
+    const hint = parseSeasonEpisodeHint($)
+    if (hint) {
+      seasonNumber = hint.seasonNumber
+      episodeNumber = hint.episodeNumber
+    }
+  }
+
+  return { name, seasonNumber, episodeNumber, slug }
+}
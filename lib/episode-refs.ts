@@ -0,0 +1,101 @@
+/**
+ * Episode references — a book can be cited by several episodes, so every
+ * record in books.json carries an `episodeRefs` array rather than a single ref.
+ *
+ * Helpers here are shared by the scraper, backfill and migration scripts so that
+ * a book re-cited by a later episode gains a reference instead of being dropped.
+ */
+
+import type { EpisodeRef } from './book-schema.js'
+
+export type { EpisodeRef }
+
+interface BookWithEpisodeRefs {
+  id: string
+  episodeRefs: EpisodeRef[]
+}
+
+/**
+ * Stable identity for an episode reference — also the site's episode id
+ * (getEpisodeId in app/lib/groupBooks.ts).
+ */
+export function episodeRefKey(ref: EpisodeRef): string {
+  return `${ref.seasonNumber}-${ref.episodeNumber}`
+}
+
+function isSameEpisode(a: EpisodeRef, b: EpisodeRef): boolean {
+  if (a.slug && b.slug) return a.slug === b.slug
+  return episodeRefKey(a) === episodeRefKey(b)
+}
+
+/**
+ * Append refs from `incoming` that aren't already present in `existing`.
+ * Returns the refs that were actually added (empty when nothing changed).
+ */
+export function mergeEpisodeRefs(existing: EpisodeRef[], incoming: EpisodeRef[]): EpisodeRef[] {
+  const added: EpisodeRef[] = []
+  for (const ref of incoming) {
+    if (existing.some(known => isSameEpisode(known, ref))) continue
+    existing.push(ref)
+    added.push(ref)
+  }
+  return added
+}
+
+/**
+ * Most recent episode that cited the book — used for ordering books.json
+ * and for deciding which seasons have already been scraped.
+ */
+export function latestEpisodeRef(refs: EpisodeRef[]): EpisodeRef | undefined {
+  return refs.reduce<EpisodeRef | undefined>((latest, ref) => {
+    if (!latest) return ref
+    if (ref.seasonNumber !== latest.seasonNumber) {
+      return ref.seasonNumber > latest.seasonNumber ? ref : latest
+    }
+    return ref.episodeNumber > latest.episodeNumber ? ref : latest
+  }, undefined)
+}
+
+/**
+ * Newest-first ordering for books.json, keyed on each book's latest citation.
+ */
+export function compareByLatestEpisode(a: { episodeRefs: EpisodeRef[] }, b: { episodeRefs: EpisodeRef[] }): number {
+  const aRef = latestEpisodeRef(a.episodeRefs)
+  const bRef = latestEpisodeRef(b.episodeRefs)
+  const aSeason = aRef?.seasonNumber ?? 0
+  const bSeason = bRef?.seasonNumber ?? 0
+  if (aSeason !== bSeason) return bSeason - aSeason
+  return (bRef?.episodeNumber ?? 0) - (aRef?.episodeNumber ?? 0)
+}
+
+/**
+ * Merge newly discovered books into the existing shelf. Books whose id is
+ * already on the shelf (or repeated within `newBooks`) gain the new episode
+ * references instead of being discarded.
+ */
+export function mergeBooksIntoShelf<T extends BookWithEpisodeRefs>(
+  existingBooks: T[],
+  newBooks: T[]
+): { books: T[]; added: T[]; cited: Array<{ book: T; refs: EpisodeRef[] }> } {
+  const byId = new Map<string, T>()
+  for (const book of existingBooks) byId.set(book.id, book)
+
+  const added: T[] = []
+  const cited: Array<{ book: T; refs: EpisodeRef[] }> = []
+
+  for (const book of newBooks) {
+    const existing = byId.get(book.id)
+    if (!existing) {
+      const copy = { ...book, episodeRefs: [...book.episodeRefs] }
+      byId.set(book.id, copy)
+      added.push(copy)
+      continue
+    }
+    const newRefs = mergeEpisodeRefs(existing.episodeRefs, book.episodeRefs)
+    if (newRefs.length > 0 && !added.includes(existing)) {
+      cited.push({ book: existing, refs: newRefs })
+    }
+  }
+
+  return { books: [...byId.values()], added, cited }
+}
@@ -0,0 +1,74 @@
+import { DEFAULT_TTL, getMetadataCache } from './metadata-cache.js'
+import { scoreCandidate } from './match-confidence.js'
+import type { LookupQuery, MetadataProvider, ProviderMetadata } from './metadata-providers.js'
+
+/**
+ * Google Books volumes API. Works without a key at low volume; set
+ * GOOGLE_BOOKS_API_KEY for the cron. Searches by ISBN when one is known (or the
+ * ASIN is an ISBN-10), otherwise by title + author.
+ */
+
+const VOLUMES_URL = 'https://www.googleapis.com/books/v1/volumes'
+
+interface GoogleVolumeInfo {
+  title?: string
+  subtitle?: string
+  authors?: string[]
+  publishedDate?: string
+  industryIdentifiers?: Array<{ type: string; identifier: string }>
+  categories?: string[]
+  imageLinks?: { thumbnail?: string; smallThumbnail?: string }
+}
+
+function buildQuery({ asin, titleHint, known }: LookupQuery): string | null {
+  const isbn = known.isbn ?? (asin && /^\d{9}[\dX]$/.test(asin) ? asin : undefined)
+  if (isbn) return `isbn:${isbn}`
+
+  const title = known.title ?? titleHint
+  if (!title) return null
+  return known.author ? `intitle:${title} inauthor:${known.author}` : `intitle:${title}`
+}
+
+function toProviderMetadata(volume: GoogleVolumeInfo, { asin, titleHint }: LookupQuery): ProviderMetadata {
+  const isbn13 = volume.industryIdentifiers?.find(id => id.type === 'ISBN_13')?.identifier
+  const isbn10 = volume.industryIdentifiers?.find(id => id.type === 'ISBN_10')?.identifier
+  const year = Number(volume.publishedDate?.slice(0, 4))
+  const thumbnail = volume.imageLinks?.thumbnail ?? volume.imageLinks?.smallThumbnail
+
+  return {
+    title: volume.title,
+    author: volume.authors?.[0],
+    // Thumbnails come back as http with a page-curl effect; ask for the plain image over https
+    coverUrl: thumbnail?.replace(/^http:/, 'https:').replace('&edge=curl', ''),
+    firstPublishYear: Number.isInteger(year) && year > 0 ? year : undefined,
+    isbn: isbn13 ?? isbn10,
+    subjects: volume.categories,
+    match: scoreCandidate(
+      { title: volume.title, author: volume.authors?.[0], isbns: volume.industryIdentifiers?.map(id => id.identifier) },
+      { asin, slugTitle: titleHint }
+    )
+  }
+}
+
+export const googleBooksProvider: MetadataProvider = {
+  name: 'google-books',
+  timeoutMs: 10_000,
+
+  async lookup(query) {
+    const q = buildQuery(query)
+    if (!q) return null
+
+    const key = process.env.GOOGLE_BOOKS_API_KEY
+    const url = `${VOLUMES_URL}?q=${encodeURIComponent(q)}&maxResults=1&printType=books${key ? `&key=${key}` : ''}`
+
+    // Cache on the query, not the URL, so adding an API key doesn't invalidate entries
+    const volume = await getMetadataCache().remember('google-books', q, DEFAULT_TTL, async () => {
+      const response = await fetch(url)
+      if (!response.ok) return undefined
+      const data = await response.json()
+      return (data?.items?.[0]?.volumeInfo as GoogleVolumeInfo | undefined) ?? null
+    })
+
+    return volume ? toProviderMetadata(volume, query) : null
+  }
+}
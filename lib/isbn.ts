@@ -0,0 +1,71 @@
+/**
+ * ISBN-10 / ISBN-13 helpers. A physical book's ASIN is its ISBN-10, so these
+ * let an Amazon link be compared with the ISBNs Open Library lists for a work.
+ *
+ * Keep this module free of runtime imports — it is bundled into the app.
+ */
+
+const ISBN10_RE = /^\d{9}[\dX]$/
+const ISBN13_RE = /^97[89]\d{10}$/
+
+/**
+ * Strip hyphens/spaces and upper-case a trailing x. Does not validate.
+ */
+export function cleanIsbn(value: string): string {
+  return value.replace(/[\s-]/g, '').toUpperCase()
+}
+
+function isbn10CheckDigit(first9: string): string {
+  const sum = [...first9].reduce((total, digit, i) => total + Number(digit) * (10 - i), 0)
+  const check = (11 - (sum % 11)) % 11
+  return check === 10 ? 'X' : String(check)
+}
+
+function isbn13CheckDigit(first12: string): string {
+  const sum = [...first12].reduce((total, digit, i) => total + Number(digit) * (i % 2 === 0 ? 1 : 3), 0)
+  return String((10 - (sum % 10)) % 10)
+}
+
+export function isIsbn10(value: string): boolean {
+  const isbn = cleanIsbn(value)
+  return ISBN10_RE.test(isbn) && isbn10CheckDigit(isbn.slice(0, 9)) === isbn[9]
+}
+
+export function isIsbn13(value: string): boolean {
+  const isbn = cleanIsbn(value)
+  return ISBN13_RE.test(isbn) && isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12]
+}
+
+export function isbn10To13(value: string): string | null {
+  const isbn = cleanIsbn(value)
+  if (!isIsbn10(isbn)) return null
+  const first12 = `978${isbn.slice(0, 9)}`
+  return first12 + isbn13CheckDigit(first12)
+}
+
+/**
+ * Only 978-prefixed ISBN-13s have an ISBN-10 form.
+ */
+export function isbn13To10(value: string): string | null {
+  const isbn = cleanIsbn(value)
+  if (!isIsbn13(isbn) || !isbn.startsWith('978')) return null
+  const first9 = isbn.slice(3, 12)
+  return first9 + isbn10CheckDigit(first9)
+}
+
+/**
+ * Canonical ISBN-13 for any valid ISBN-10 or ISBN-13, else null.
+ */
+export function toIsbn13(value: string): string | null {
+  const isbn = cleanIsbn(value)
+  if (isIsbn13(isbn)) return isbn
+  return isbn10To13(isbn)
+}
+
+/**
+ * True when both identify the same edition, whichever form each is in.
+ */
+export function isbnsEquivalent(a: string, b: string): boolean {
+  const left = toIsbn13(a)
+  return left !== null && left === toIsbn13(b)
+}
@@ -0,0 +1,54 @@
+import { DEFAULT_TTL, getMetadataCache } from './metadata-cache.js'
+import { scoreCandidate } from './match-confidence.js'
+import type { MetadataProvider } from './metadata-providers.js'
+
+/**
+ * ISBNdb (api2.isbndb.com). Paid, so it only runs when ISBNDB_API_KEY is set,
+ * and only looks up by ISBN — a Kindle ASIN alone isn't enough.
+ */
+
+const BOOK_URL = 'https://api2.isbndb.com/book'
+
+interface IsbndbBook {
+  title?: string
+  title_long?: string
+  authors?: string[]
+  image?: string
+  date_published?: string
+  isbn13?: string
+  subjects?: string[]
+}
+
+export const isbndbProvider: MetadataProvider = {
+  name: 'isbndb',
+  timeoutMs: 10_000,
+
+  async lookup({ asin, titleHint, known }) {
+    const apiKey = process.env.ISBNDB_API_KEY
+    const isbn = known.isbn ?? (asin && /^\d{9}[\dX]$/.test(asin) ? asin : undefined)
+    if (!apiKey || !isbn) return null
+
+    const book = await getMetadataCache().remember('isbndb', isbn, DEFAULT_TTL, async () => {
+      const response = await fetch(`${BOOK_URL}/${isbn}`, { headers: { Authorization: apiKey } })
+      if (response.status === 404) return null
+      if (!response.ok) return undefined
+      const data = await response.json()
+      return (data?.book as IsbndbBook | undefined) ?? null
+    })
+    if (!book) return null
+
+    const year = Number(book.date_published?.slice(0, 4))
+    return {
+      title: book.title ?? book.title_long,
+      author: book.authors?.[0],
+      coverUrl: book.image,
+      firstPublishYear: Number.isInteger(year) && year > 0 ? year : undefined,
+      isbn: book.isbn13 ?? isbn,
+      subjects: book.subjects,
+      match: scoreCandidate(
+        { title: book.title, author: book.authors?.[0], isbns: [isbn, ...(book.isbn13 ? [book.isbn13] : [])] },
+        { asin, slugTitle: titleHint }
+      )
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { isbnsEquivalent, toIsbn13 } from './isbn.js'
+
+/**
+ * Match confidence — how sure we are that a metadata candidate (an Open Library
+ * search result, a Google Books volume) is the book the Amazon link points to.
+ *
+ * Evidence, strongest first: the ASIN is an ISBN-10 that the candidate lists
+ * (in either ISBN form), the title/author scraped from the Amazon product page,
+ * and the title in the Amazon URL slug. Scores are 0–1; a book whose winning
+ * score is below MATCH_THRESHOLD goes to the review queue instead of books.json.
+ */
+
+export const MATCH_THRESHOLD = 0.6
+
+const ISBN_MATCH_FLOOR = 0.9     // an ISBN match can only be pulled down this far
+
+// Relative weight of each signal when it's available
+const SIGNAL_WEIGHTS = {
+  amazonTitle: 0.45,
+  slugTitle: 0.35,
+  asinSearch: 0.3,               // candidate came back from a search for the ASIN itself
+  amazonAuthor: 0.2
+} as const
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'of', 'and', 'to', 'in', 'on', 'for', 'by', 'with',
+  'edition', 'kindle', 'ebook', 'hardcover', 'paperback', 'audiobook', 'book', 'books', 'novel'
+])
+
+export interface MatchEvidence {
+  asin?: string
+  slugTitle?: string             // title guessed from the Amazon URL slug
+  amazonTitle?: string           // scraped from the product page
+  amazonAuthor?: string
+}
+
+export interface MatchCandidate {
+  title?: string
+  author?: string
+  isbns?: string[]
+  viaAsinSearch?: boolean
+}
+
+export interface MatchScore {
+  score: number                  // 0–1, rounded to two decimals
+  signals: string[]              // human-readable breakdown for logs and the review queue
+}
+
+function tokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['\u2018\u2019]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0 && !STOPWORDS.has(token))
+}
+
+/**
+ * How well `candidate` is covered by `reference` (0–1). Mostly coverage of the
+ * candidate's words — Amazon titles and slugs carry subtitles Open Library
+ * often drops — blended with Dice overlap so a one-word candidate can't score
+ * perfectly against a long reference.
+ */
+export function titleSimilarity(candidate: string, reference: string): number {
+  const a = new Set(tokens(candidate))
+  const b = new Set(tokens(reference))
+  if (a.size === 0 || b.size === 0) return 0
+
+  const shared = [...a].filter(token => b.has(token)).length
+  const coverage = shared / a.size
+  const dice = (2 * shared) / (a.size + b.size)
+  return 0.7 * coverage + 0.3 * dice
+}
+
+/**
+ * 1 when the surnames agree, otherwise the share of the candidate's name tokens
+ * found in the reference.
+ */
+export function authorSimilarity(candidate: string, reference: string): number {
+  const a = tokens(candidate)
+  const b = new Set(tokens(reference))
+  if (a.length === 0 || b.size === 0) return 0
+  if (b.has(a[a.length - 1])) return 1
+  return a.filter(token => b.has(token)).length / a.length
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+export function scoreCandidate(candidate: MatchCandidate, evidence: MatchEvidence): MatchScore {
+  const signals: string[] = []
+  let weighted = 0
+  let totalWeight = 0
+  const add = (signal: keyof typeof SIGNAL_WEIGHTS, value: number, label: string) => {
+    weighted += SIGNAL_WEIGHTS[signal] * value
+    totalWeight += SIGNAL_WEIGHTS[signal]
+    signals.push(`${label} ${round(value).toFixed(2)}`)
+  }
+
+  if (candidate.title && evidence.amazonTitle) {
+    add('amazonTitle', titleSimilarity(candidate.title, evidence.amazonTitle), 'amazon title')
+  }
+  if (candidate.title && evidence.slugTitle) {
+    add('slugTitle', titleSimilarity(candidate.title, evidence.slugTitle), 'slug title')
+  }
+  if (candidate.author && evidence.amazonAuthor) {
+    add('amazonAuthor', authorSimilarity(candidate.author, evidence.amazonAuthor), 'amazon author')
+  }
+  if (candidate.viaAsinSearch) add('asinSearch', 1, 'asin search')
+
+  let score = totalWeight > 0 ? weighted / totalWeight : 0
+
+  const asinIsbn = evidence.asin ? toIsbn13(evidence.asin) : null
+  if (asinIsbn && candidate.isbns?.some(isbn => isbnsEquivalent(isbn, asinIsbn))) {
+    score = Math.max(score, ISBN_MATCH_FLOOR)
+    signals.unshift('isbn match')
+  }
+
+  if (signals.length === 0) signals.push('no evidence')
+  return { score: round(score), signals }
+}
+
+/**
+ * Highest-scoring candidate, or null for an empty list. Ties keep search order.
+ */
+export function pickBestCandidate<T extends MatchCandidate>(
+  candidates: T[],
+  evidence: MatchEvidence
+): { candidate: T; match: MatchScore } | null {
+  let best: { candidate: T; match: MatchScore } | null = null
+  for (const candidate of candidates) {
+    const match = scoreCandidate(candidate, evidence)
+    if (!best || match.score > best.match.score) best = { candidate, match }
+  }
+  return best
+}
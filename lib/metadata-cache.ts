@@ -0,0 +1,167 @@
+import { createHash } from 'crypto'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+
+/**
+ * On-disk cache for Open Library and Amazon lookups, so re-running a backfill
+ * or migration doesn't repeat hundreds of requests.
+ *
+ * Entries are content-addressed: the id is a hash of `namespace:key`, where the
+ * key is an ASIN or the exact query URL. Negative results ("Open Library has
+ * nothing for this ASIN") are cached too, with a shorter TTL. Transient
+ * failures (HTTP errors, timeouts) are never cached.
+ *
+ * Pass `--refresh` to any script that fetches metadata to ignore cached entries
+ * (fresh results are still written back).
+ */
+
+const CACHE_VERSION = 1
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const METADATA_CACHE_PATH = path.join(process.cwd(), 'data', 'metadata-cache.json')
+
+export interface CacheTtl {
+  hit: number                      // ms to keep a found value
+  miss: number                     // ms to keep a negative result
+}
+
+export const DEFAULT_TTL: CacheTtl = { hit: 30 * DAY_MS, miss: 3 * DAY_MS }
+
+interface CacheEntry {
+  namespace: string
+  key: string
+  value: unknown                   // null for a negative result
+  storedAt: string                 // ISO 8601
+  expiresAt: string                // ISO 8601
+}
+
+interface CacheFile {
+  version: number
+  entries: Record<string, CacheEntry>
+}
+
+export interface CacheStats {
+  hits: number
+  negativeHits: number             // hits on a cached "not found"
+  misses: number                   // not cached, expired, or bypassed by --refresh
+  stored: number
+}
+
+export interface MetadataCacheOptions {
+  enabled?: boolean                // false = pass-through (used under jest)
+  refresh?: boolean                // ignore existing entries, still store new ones
+  now?: () => number
+}
+
+/**
+ * `fetch` resolves to the value, `null` for a definite "not found" (cached as a
+ * negative), or `undefined` for a transient failure (not cached).
+ */
+export type CacheFetcher<T> = () => Promise<T | null | undefined>
+
+function entryId(namespace: string, key: string): string {
+  return createHash('sha1').update(`${namespace}:${key}`).digest('hex').slice(0, 20)
+}
+
+export class MetadataCache {
+  private entries: Record<string, CacheEntry> | null = null
+  private loading: Promise<Record<string, CacheEntry>> | null = null
+  private dirty = false
+  private readonly enabled: boolean
+  private readonly refresh: boolean
+  private readonly now: () => number
+  readonly stats: CacheStats = { hits: 0, negativeHits: 0, misses: 0, stored: 0 }
+
+  constructor(private readonly filePath: string = METADATA_CACHE_PATH, options: MetadataCacheOptions = {}) {
+    this.enabled = options.enabled ?? true
+    this.refresh = options.refresh ?? false
+    this.now = options.now ?? Date.now
+  }
+
+  async remember<T>(namespace: string, key: string, ttl: CacheTtl, fetch: CacheFetcher<T>): Promise<T | null> {
+    if (!this.enabled) return (await fetch()) ?? null
+
+    const entries = await this.load()
+    const id = entryId(namespace, key)
+    const cached = entries[id]
+
+    if (!this.refresh && cached && Date.parse(cached.expiresAt) > this.now()) {
+      this.stats.hits++
+      if (cached.value === null) this.stats.negativeHits++
+      return cached.value as T | null
+    }
+
+    this.stats.misses++
+    const value = await fetch()
+    if (value === undefined) return null
+
+    const storedAt = this.now()
+    entries[id] = {
+      namespace,
+      key,
+      value,
+      storedAt: new Date(storedAt).toISOString(),
+      expiresAt: new Date(storedAt + (value === null ? ttl.miss : ttl.hit)).toISOString()
+    }
+    this.stats.stored++
+    this.dirty = true
+    return value
+  }
+
+  /**
+   * Write the cache back to disk, dropping expired entries. No-op when nothing changed.
+   */
+  async save(): Promise<void> {
+    if (!this.enabled || !this.dirty || !this.entries) return
+
+    const now = this.now()
+    const live = Object.fromEntries(
+      Object.entries(this.entries).filter(([, entry]) => Date.parse(entry.expiresAt) > now)
+    )
+    const file: CacheFile = { version: CACHE_VERSION, entries: live }
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+    await fs.writeFile(this.filePath, JSON.stringify(file, null, 2))
+    this.dirty = false
+  }
+
+  formatStats(): string {
+    const { hits, negativeHits, misses, stored } = this.stats
+    const lookups = hits + misses
+    const rate = lookups > 0 ? Math.round((hits / lookups) * 100) : 0
+    return `${hits} hits (${negativeHits} negative), ${misses} misses, ${stored} stored — ${rate}% hit rate${this.refresh ? ' (--refresh)' : ''}`
+  }
+
+  /**
+   * Read the file once; concurrent lookups share the same promise, and so the
+   * same entries object — otherwise a late read would replace earlier stores.
+   */
+  private load(): Promise<Record<string, CacheEntry>> {
+    this.loading ??= this.readEntries()
+    return this.loading
+  }
+
+  private async readEntries(): Promise<Record<string, CacheEntry>> {
+    try {
+      const file = JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as CacheFile
+      this.entries = file.version === CACHE_VERSION && file.entries ? file.entries : {}
+    } catch {
+      this.entries = {} // first run, or an unreadable cache — start over
+    }
+    return this.entries
+  }
+}
+
+let sharedCache: MetadataCache | undefined
+
+/**
+ * The process-wide cache used by lib/openLibrary.ts. Disabled under jest so
+ * tests never read or write data/metadata-cache.json.
+ */
+export function getMetadataCache(): MetadataCache {
+  sharedCache ??= new MetadataCache(METADATA_CACHE_PATH, {
+    enabled: process.env.NODE_ENV !== 'test',
+    refresh: process.argv.includes('--refresh')
+  })
+  return sharedCache
+}
@@ -0,0 +1,178 @@
+/**
+ * Metadata provider chain. Each source (Open Library, Amazon, Google Books,
+ * ISBNdb) implements `MetadataProvider`; `runProviderChain` asks them in order
+ * until title, author and cover are all known, then merges field by field so
+ * the title can come from one source and the cover from another. The winning
+ * source of every field is recorded as provenance.
+ *
+ * Order is configurable per call or with METADATA_PROVIDERS
+ * (e.g. `METADATA_PROVIDERS=openlibrary,google-books,amazon`).
+ */
+
+import type { MatchScore } from './match-confidence.js'
+
+export const METADATA_FIELDS = ['title', 'author', 'coverUrl', 'firstPublishYear', 'isbn', 'olid', 'subjects'] as const
+
+export type MetadataField = typeof METADATA_FIELDS[number]
+
+export interface ProviderMetadata {
+  title?: string
+  author?: string
+  coverUrl?: string
+  firstPublishYear?: number
+  isbn?: string
+  olid?: string
+  subjects?: string[]
+  match?: MatchScore               // how sure the provider is this is the linked book; not merged
+}
+
+export type MetadataProvenance = Partial<Record<MetadataField, string>> // field → provider name
+
+// The chain stops once these are filled; the rest are taken if offered
+export const REQUIRED_FIELDS: MetadataField[] = ['title', 'author', 'coverUrl']
+
+// Values providers fill in when they have nothing — never worth keeping over a real one
+const PLACEHOLDERS = new Set(['Unknown Title', 'Unknown Author', '/covers/default-book.jpg'])
+
+export interface LookupQuery {
+  amazonUrl: string
+  asin?: string
+  titleHint?: string               // title guessed from the Amazon URL slug
+  known: ProviderMetadata          // merged result of the providers that ran before
+  missing: MetadataField[]         // required fields still missing — skip work for the rest
+}
+
+export interface MetadataProvider {
+  name: string
+  timeoutMs: number
+  lookup(query: LookupQuery): Promise<ProviderMetadata | null>
+}
+
+export interface ProviderChainOptions {
+  timeouts?: Record<string, number> // per-provider override of `timeoutMs`
+  fieldPriority?: Partial<Record<MetadataField, string[]>> // per-field order; defaults to chain order
+}
+
+export interface ChainResult {
+  metadata: ProviderMetadata
+  provenance: MetadataProvenance
+  responded: string[]              // providers that returned something
+  results: Array<[string, ProviderMetadata]> // raw result of each, in chain order
+}
+
+function isUsable(value: unknown): boolean {
+  if (typeof value === 'string') return value.trim().length > 0 && !PLACEHOLDERS.has(value)
+  if (typeof value === 'number') return Number.isFinite(value)
+  if (Array.isArray(value)) return value.length > 0
+  return false
+}
+
+/**
+ * Merge provider results field by field. `results` is in chain order; the first
+ * usable value wins unless `fieldPriority` names a different order for that field.
+ */
+export function mergeProviderResults(
+  results: Array<[string, ProviderMetadata]>,
+  fieldPriority: ProviderChainOptions['fieldPriority'] = {}
+): { metadata: ProviderMetadata; provenance: MetadataProvenance } {
+  const metadata: Record<string, unknown> = {}
+  const provenance: MetadataProvenance = {}
+
+  for (const field of METADATA_FIELDS) {
+    const priority = fieldPriority[field] ?? []
+    const ordered = [...results].sort(([a], [b]) => rank(priority, a) - rank(priority, b))
+    const winner = ordered.find(([, result]) => isUsable(result[field]))
+    if (winner) {
+      metadata[field] = winner[1][field]
+      provenance[field] = winner[0]
+    }
+  }
+
+  return { metadata: metadata as ProviderMetadata, provenance }
+}
+
+function rank(priority: string[], name: string): number {
+  const index = priority.indexOf(name)
+  return index === -1 ? priority.length : index
+}
+
+export function missingFields(metadata: ProviderMetadata): MetadataField[] {
+  return REQUIRED_FIELDS.filter(field => !isUsable(metadata[field]))
+}
+
+/**
+ * Resolve to null if `promise` doesn't settle within `ms`. The timer is cleared
+ * either way so it never holds the process open.
+ */
+async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<null>(resolve => {
+    timer = setTimeout(() => resolve(null), ms)
+  })
+  try {
+    return await Promise.race([promise, timeout])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+export async function runProviderChain(
+  providers: MetadataProvider[],
+  query: Omit<LookupQuery, 'known' | 'missing'>,
+  options: ProviderChainOptions = {}
+): Promise<ChainResult> {
+  const results: Array<[string, ProviderMetadata]> = []
+  let merged = mergeProviderResults(results, options.fieldPriority)
+
+  for (const provider of providers) {
+    const missing = missingFields(merged.metadata)
+    if (missing.length === 0) break
+
+    const timeoutMs = options.timeouts?.[provider.name] ?? provider.timeoutMs
+    let timedOut = true
+    const result = await withTimeout(
+      provider.lookup({ ...query, known: merged.metadata, missing }).then(
+        value => { timedOut = false; return value },
+        error => {
+          timedOut = false
+          console.log(`  ⚠️  ${provider.name} lookup failed:`, error instanceof Error ? error.message : error)
+          return null
+        }
+      ),
+      timeoutMs
+    )
+
+    if (timedOut) console.log(`  ⏱️  ${provider.name} timed out after ${timeoutMs}ms`)
+    if (!result) continue
+
+    results.push([provider.name, result])
+    merged = mergeProviderResults(results, options.fieldPriority)
+  }
+
+  return { ...merged, responded: results.map(([name]) => name), results }
+}
+
+const warnedProviders = new Set<string>()
+
+/**
+ * Resolve provider names (from options or METADATA_PROVIDERS) against a registry,
+ * skipping unknown names with a (one-time) warning.
+ */
+export function resolveProviders(
+  registry: Record<string, MetadataProvider>,
+  names: string[] | undefined,
+  defaults: string[]
+): MetadataProvider[] {
+  const requested = names ?? process.env.METADATA_PROVIDERS?.split(',').map(name => name.trim()).filter(Boolean) ?? defaults
+
+  const providers = requested.flatMap(name => {
+    if (registry[name]) return [registry[name]]
+    if (!warnedProviders.has(name)) {
+      warnedProviders.add(name)
+      console.warn(`⚠️ Unknown metadata provider "${name}" (known: ${Object.keys(registry).join(', ')})`)
+    }
+    return []
+  })
+
+  return providers.length > 0 ? providers : defaults.map(name => registry[name])
+}
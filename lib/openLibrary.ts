@@ -1,9 +1,57 @@
 import * as cheerio from 'cheerio'
+import type { BookMetadataFields } from './book-schema.js'
+import { evaluateRules, loadBookRules } from './book-rules.js'
+import { googleBooksProvider } from './google-books.js'
+import { isbndbProvider } from './isbndb.js'
+import { toIsbn13 } from './isbn.js'
+import {
+  MATCH_THRESHOLD,
+  pickBestCandidate,
+  scoreCandidate,
+  type MatchCandidate,
+  type MatchEvidence,
+  type MatchScore
+} from './match-confidence.js'
+import { DEFAULT_TTL, getMetadataCache, type CacheTtl } from './metadata-cache.js'
+import {
+  REQUIRED_FIELDS,
+  resolveProviders,
+  runProviderChain,
+  type MetadataField,
+  type MetadataProvenance,
+  type MetadataProvider,
+  type ProviderChainOptions
+} from './metadata-providers.js'
 
 // Rate limiting configuration
 const BATCH_SIZE = 10
 const DELAY_MS = 1000 // 1 second between requests
 const MAX_RETRIES = 3
+const MAX_STORED_SUBJECTS = 20 // Open Library can return hundreds; keep books.json lean
+const MAX_CACHED_DOCS = 5 // only the first few search results are ever used
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Amazon serves a captcha to obvious bots, so page fetches look like a browser
+export const AMAZON_REQUEST_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.5',
+}
+const AMAZON_PAGE_TTL: CacheTtl = { hit: 30 * DAY_MS, miss: DAY_MS } // pages get fixed; retry "no title" daily
+
+// Search result fields we read; everything else is dropped before caching
+const DOC_FIELDS = ['title', 'author_name', 'cover_i', 'first_publish_year', 'isbn', 'key', 'subject'] as const
+
+interface OpenLibraryDoc {
+  title?: string
+  author_name?: string[]
+  cover_i?: number
+  first_publish_year?: number
+  isbn?: string[]
+  key?: string
+  subject?: string[]
+}
 
 interface BookMetadata {
   title: string
@@ -13,6 +61,9 @@ interface BookMetadata {
   isbn?: string
   olid?: string // Open Library ID
   subjects?: string[]
+  provenance?: MetadataProvenance  // which provider supplied each field
+  matchConfidence?: number         // 0–1, see lib/match-confidence.ts
+  matchSignals?: string[]
 }
 
 function sleep(ms: number) {
@@ -41,6 +92,26 @@ async function fetchWithRetry(url: string, retries = MAX_RETRIES): Promise<Respo
   }
 }
 
+function pickDocFields(doc: Record<string, unknown>): OpenLibraryDoc {
+  return Object.fromEntries(DOC_FIELDS.filter(field => doc[field] !== undefined).map(field => [field, doc[field]]))
+}
+
+/**
+ * Run an Open Library search, cached by the exact query URL.
+ * Returns [] when nothing matched or the request failed.
+ */
+async function searchOpenLibrary(searchUrl: string): Promise<OpenLibraryDoc[]> {
+  const docs = await getMetadataCache().remember('openlibrary-search', searchUrl, DEFAULT_TTL, async () => {
+    const response = await fetchWithRetry(searchUrl)
+    if (!response?.ok) return undefined
+
+    const data = await response.json()
+    if (!(data?.docs?.length > 0)) return null
+    return (data.docs as Record<string, unknown>[]).slice(0, MAX_CACHED_DOCS).map(pickDocFields)
+  })
+  return docs ?? []
+}
+
 async function extractBookInfo(url: string): Promise<{ asin?: string; title?: string; author?: string }> {
   // Clean URL first - remove Google redirect wrapper
   let cleanUrl = url
@@ -64,7 +135,7 @@ async function extractBookInfo(url: string): Promise<{ asin?: string; title?: st
     const titleMatch = cleanUrl.match(/amazon\.com\/([^\/]+)\/dp\//) || 
                       cleanUrl.match(/amazon\.com\/([^\/\?]+)/)
     
-    if (titleMatch && titleMatch[1] && !titleMatch[1].includes('gp')) {
+    if (titleMatch && titleMatch[1] && !titleMatch[1].includes('gp') && titleMatch[1] !== 'dp') {
       title = titleMatch[1]
         .replace(/-/g, ' ')
         .replace(/ebook|kindle|edition|audiobook|hardcover|paperback/gi, '')
@@ -79,27 +150,34 @@ async function extractBookInfo(url: string): Promise<{ asin?: string; title?: st
   return { asin, title, author }
 }
 
+let bookRules: ReturnType<typeof loadBookRules> | undefined
+
 async function scrapeAmazonMetadata(amazonUrl: string): Promise<{ title: string; author: string } | null> {
-  try {
-    // Filter out video products - they're not books
-    if (amazonUrl.includes('/gp/video/') || amazonUrl.includes('/Prime-Video/')) {
-      console.log('  ⚠️  Detected video product, skipping...')
-      return null
-    }
+  const { asin } = await extractBookInfo(amazonUrl)
 
+  // Links the book rules reject (Prime Video, known non-books) aren't worth a page fetch
+  bookRules ??= loadBookRules()
+  const verdict = evaluateRules(bookRules, { amazonUrl, asin })
+  if (!verdict.allowed) {
+    console.log(`  ⚠️  Blocked by book rule ${verdict.rule?.id} (${verdict.rule?.reason}), skipping...`)
+    return null
+  }
+
+  return getMetadataCache().remember('amazon-page', asin ?? amazonUrl, AMAZON_PAGE_TTL, () => fetchAmazonMetadata(amazonUrl))
+}
+
+/**
+ * Resolves to undefined when Amazon didn't answer (blocked, 5xx) so the miss isn't cached.
+ */
+async function fetchAmazonMetadata(amazonUrl: string): Promise<{ title: string; author: string } | null | undefined> {
+  try {
     console.log(`  📥 Scraping Amazon page for metadata...`)
 
-    const response = await fetch(amazonUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-      }
-    })
+    const response = await fetch(amazonUrl, { headers: AMAZON_REQUEST_HEADERS })
 
     if (!response.ok) {
       console.log(`  ⚠️  Amazon returned ${response.status}`)
-      return null
+      return undefined
     }
 
     const html = await response.text()
@@ -151,7 +229,7 @@ async function scrapeAmazonMetadata(amazonUrl: string): Promise<{ title: string;
     return null
   } catch (error) {
     console.log(`  ❌ Amazon scraping failed:`, error)
-    return null
+    return undefined
   }
 }
 
@@ -160,163 +238,225 @@ async function getAmazonBookCover(amazonUrl: string): Promise<string | null> {
     const { asin } = await extractBookInfo(amazonUrl)
     if (!asin) return null
 
-    // Amazon book cover image URLs follow a predictable pattern
-    // Try different image sizes and formats
-    const imageUrls = [
-      `https://images-na.ssl-images-amazon.com/images/P/${asin}.01.L.jpg`,  // Large
-      `https://images-na.ssl-images-amazon.com/images/P/${asin}.01.M.jpg`,  // Medium
-      `https://m.media-amazon.com/images/P/${asin}.01.L.jpg`,               // Alternative CDN Large
-      `https://m.media-amazon.com/images/P/${asin}.01.M.jpg`,               // Alternative CDN Medium
-    ]
-
-    // Test each URL to see if the image exists
-    for (const imageUrl of imageUrls) {
-      try {
-        const response = await fetch(imageUrl, { method: 'HEAD' })
-        if (response.ok && response.headers.get('content-type')?.startsWith('image/')) {
-          console.log(`✅ Found Amazon cover: ${imageUrl}`)
-          return imageUrl
-        }
-      } catch (error) {
-        // Continue to next URL
-        continue
-      }
-    }
-
-    console.log(`⚠️ No Amazon cover found for ASIN: ${asin}`)
-    return null
+    return await getMetadataCache().remember('amazon-cover', asin, DEFAULT_TTL, () => findAmazonCover(asin))
   } catch (error) {
     console.error('Error getting Amazon book cover:', error)
     return null
   }
 }
 
-async function getBookMetadata(amazonUrl: string): Promise<BookMetadata | null> {
-  try {
-    const { asin, title } = await extractBookInfo(amazonUrl)
-    let bookData = null
-
-    // First try by ASIN if available
-    if (asin) {
-      const isbnSearchUrl = `https://openlibrary.org/search.json?q=${asin}`
-      const response = await fetchWithRetry(isbnSearchUrl)
-      
-      if (response?.ok) {
-        const data = await response.json()
-        if (data?.docs?.length > 0) {
-          bookData = data.docs[0]
-        }
+async function findAmazonCover(asin: string): Promise<string | null> {
+  // Amazon book cover image URLs follow a predictable pattern
+  // Try different image sizes and formats
+  const imageUrls = [
+    `https://images-na.ssl-images-amazon.com/images/P/${asin}.01.L.jpg`,  // Large
+    `https://images-na.ssl-images-amazon.com/images/P/${asin}.01.M.jpg`,  // Medium
+    `https://m.media-amazon.com/images/P/${asin}.01.L.jpg`,               // Alternative CDN Large
+    `https://m.media-amazon.com/images/P/${asin}.01.M.jpg`,               // Alternative CDN Medium
+  ]
+
+  // Test each URL to see if the image exists
+  for (const imageUrl of imageUrls) {
+    try {
+      const response = await fetch(imageUrl, { method: 'HEAD' })
+      if (response.ok && response.headers.get('content-type')?.startsWith('image/')) {
+        console.log(`✅ Found Amazon cover: ${imageUrl}`)
+        return imageUrl
       }
+    } catch (error) {
+      // Continue to next URL
+      continue
     }
+  }
 
-    // Then try by exact title if available
-    if (!bookData && title) {
-      const titleSearchUrl = `https://openlibrary.org/search.json?title=${encodeURIComponent(title)}&fields=title,author_name,cover_i,first_publish_year,isbn,key,subject`
-      const response = await fetchWithRetry(titleSearchUrl)
-      
-      if (response?.ok) {
-        const data = await response.json()
-        if (data?.docs?.length > 0) {
-          // Try to find an exact title match
-          const exactMatch = data.docs.find((doc: { title: string }) => 
-            doc.title.toLowerCase() === title.toLowerCase()
-          )
-          if (exactMatch) {
-            bookData = exactMatch
-          }
-        }
-      }
+  console.log(`⚠️ No Amazon cover found for ASIN: ${asin}`)
+  return null
+}
+
+interface OpenLibraryCandidate extends MatchCandidate {
+  doc: OpenLibraryDoc
+}
+
+function toCandidate(doc: OpenLibraryDoc, viaAsinSearch: boolean): OpenLibraryCandidate {
+  return { doc, title: doc.title, author: doc.author_name?.[0], isbns: doc.isbn, viaAsinSearch }
+}
+
+/**
+ * Open Library: ASIN search, then title search on the URL slug, then a
+ * free-text search on the slug — stopping as soon as a candidate scores above
+ * MATCH_THRESHOLD. Every result is scored rather than trusting docs[0]; if the
+ * URL alone can't vouch for any of them, the Amazon product page's title and
+ * author are fetched as extra evidence.
+ */
+async function findOpenLibraryMatch(
+  amazonUrl: string,
+  asin?: string,
+  title?: string
+): Promise<{ candidate: OpenLibraryCandidate; match: MatchScore } | null> {
+  const evidence: MatchEvidence = { asin, slugTitle: title }
+  const candidates: OpenLibraryCandidate[] = []
+  const addDocs = (docs: OpenLibraryDoc[], viaAsinSearch: boolean) => {
+    for (const doc of docs) {
+      if (!candidates.some(candidate => doc.key && candidate.doc.key === doc.key)) candidates.push(toCandidate(doc, viaAsinSearch))
     }
+  }
+  const confident = () => (pickBestCandidate(candidates, evidence)?.match.score ?? 0) >= MATCH_THRESHOLD
 
-    // If still no result, try a general search
-    if (!bookData) {
-      // Clean the URL for searching
-      const searchTerms = amazonUrl
-        .split('/dp/')[0]
-        .split('/').pop()
-        ?.replace(/-/g, ' ')
-        .replace(/ebook|kindle|edition|audiobook|hardcover|paperback/gi, '')
-        .replace(/[^a-zA-Z0-9\s]/g, ' ')
-        .trim()
+  // First try by ASIN if available
+  if (asin) {
+    addDocs(await searchOpenLibrary(`https://openlibrary.org/search.json?q=${asin}`), true)
+  }
 
-      if (searchTerms) {
-        const searchUrl = `https://openlibrary.org/search.json?q=${encodeURIComponent(searchTerms)}&fields=title,author_name,cover_i,first_publish_year,isbn,key,subject`
-        const response = await fetchWithRetry(searchUrl)
-        
-        if (response?.ok) {
-          const data = await response.json()
-          if (data?.docs?.length > 0) {
-            bookData = data.docs[0]
-          }
-        }
-      }
+  // Then try by title if available
+  if (!confident() && title) {
+    addDocs(await searchOpenLibrary(`https://openlibrary.org/search.json?title=${encodeURIComponent(title)}&fields=${DOC_FIELDS.join(',')}`), false)
+  }
+
+  // If still no good result, try a general search
+  if (!confident()) {
+    // Clean the URL for searching
+    const searchTerms = amazonUrl
+      .split('/dp/')[0]
+      .split('/').pop()
+      ?.replace(/-/g, ' ')
+      .replace(/ebook|kindle|edition|audiobook|hardcover|paperback/gi, '')
+      .replace(/[^a-zA-Z0-9\s]/g, ' ')
+      .trim()
+
+    if (searchTerms) {
+      addDocs(await searchOpenLibrary(`https://openlibrary.org/search.json?q=${encodeURIComponent(searchTerms)}&fields=${DOC_FIELDS.join(',')}`), false)
     }
+  }
 
-    if (bookData) {
-      // Try to get Open Library cover first, then fallback to Amazon
-      let coverUrl = bookData.cover_i 
-        ? `https://covers.openlibrary.org/b/id/${bookData.cover_i}-L.jpg`
-        : undefined
+  if (candidates.length === 0) return null
 
-      // If no Open Library cover, try Amazon as fallback
-      if (!coverUrl) {
-        console.log('  📸 No Open Library cover found, trying Amazon...')
-        coverUrl = await getAmazonBookCover(amazonUrl) ?? undefined
-      }
+  // Only a product link (one with an ASIN) has a page worth fetching for evidence
+  if (!confident() && asin) {
+    const page = await scrapeAmazonMetadata(amazonUrl)
+    if (page) {
+      evidence.amazonTitle = page.title
+      if (page.author !== 'Unknown Author') evidence.amazonAuthor = page.author
+    }
+  }
 
-      const metadata: BookMetadata = {
-        title: bookData.title || 'Unknown Title',
-        author: bookData.author_name?.[0] || 'Unknown Author',
-        coverUrl: coverUrl || '/covers/default-book.jpg',
-        firstPublishYear: bookData.first_publish_year,
-        isbn: bookData.isbn?.[0],
-        olid: bookData.key?.replace('/works/', ''),
-        subjects: bookData.subject || []
-      }
+  return pickBestCandidate(candidates, evidence)
+}
 
-      // Debug logging
-      console.log(`✓ Match found for "${metadata.title}" by ${metadata.author}`)
-      console.log(`  Original URL: ${amazonUrl}`)
-      if (bookData.subject?.length > 0) {
-        console.log(`  Subjects: ${bookData.subject.slice(0, 3).join(', ')}${bookData.subject.length > 3 ? '...' : ''}`)
-      }
-      
-      return metadata
+const openLibraryProvider: MetadataProvider = {
+  name: 'openlibrary',
+  timeoutMs: 30_000, // up to three searches, each with 429 backoff
+
+  async lookup({ amazonUrl, asin, titleHint }) {
+    const best = await findOpenLibraryMatch(amazonUrl, asin, titleHint)
+    if (!best) {
+      console.warn(`✗ No Open Library metadata found for ${amazonUrl}`)
+      return null
     }
 
-    // No Open Library data found - try scraping Amazon as fallback
-    console.warn(`✗ No Open Library metadata found for ${amazonUrl}`)
-    console.log('  📸 Attempting Amazon scraping as fallback...')
+    const { candidate: { doc }, match } = best
+    console.log(`✓ Match found for "${doc.title}" by ${doc.author_name?.[0]} (confidence ${match.score}: ${match.signals.join(', ')})`)
+    console.log(`  Original URL: ${amazonUrl}`)
+    const subjects = doc.subject ?? []
+    if (subjects.length > 0) {
+      console.log(`  Subjects: ${subjects.slice(0, 3).join(', ')}${subjects.length > 3 ? '...' : ''}`)
+    }
 
-    // Try to scrape title and author from Amazon page
-    const amazonMetadata = await scrapeAmazonMetadata(amazonUrl)
-    const amazonCover = await getAmazonBookCover(amazonUrl)
+    return {
+      title: doc.title,
+      author: doc.author_name?.[0],
+      coverUrl: doc.cover_i ? `https://covers.openlibrary.org/b/id/${doc.cover_i}-L.jpg` : undefined,
+      firstPublishYear: doc.first_publish_year,
+      isbn: doc.isbn?.[0],
+      olid: doc.key?.replace('/works/', ''),
+      subjects,
+      match
+    }
+  }
+}
 
-    if (amazonMetadata || amazonCover) {
-      const fallbackMetadata: BookMetadata = {
-        title: amazonMetadata?.title || 'Unknown Title',
-        author: amazonMetadata?.author || 'Unknown Author',
-        coverUrl: amazonCover || '/covers/default-book.jpg',
-        subjects: []
-      }
+/**
+ * Amazon: product-page scrape for title/author and the image CDN for the
+ * cover. Only does the work for fields earlier providers left missing.
+ */
+const amazonProvider: MetadataProvider = {
+  name: 'amazon',
+  timeoutMs: 20_000,
+
+  async lookup({ amazonUrl, missing }) {
+    console.log(`  📸 Trying Amazon for ${missing.join(', ')}...`)
+    const page = missing.includes('title') || missing.includes('author')
+      ? await scrapeAmazonMetadata(amazonUrl)
+      : null
+    const coverUrl = missing.includes('coverUrl') ? await getAmazonBookCover(amazonUrl) : null
+
+    if (!page && !coverUrl) return null
+    return {
+      title: page?.title,
+      author: page?.author,
+      coverUrl: coverUrl ?? undefined,
+      // The product page is the ASIN's own record, so its title is the right book by definition
+      ...(page ? { match: { score: 1, signals: ['amazon product page'] } } : {})
+    }
+  }
+}
 
-      console.log(`✓ Created fallback metadata: "${fallbackMetadata.title}" by ${fallbackMetadata.author}`)
-      if (amazonCover) {
-        console.log(`  📸 Using Amazon cover: ${amazonCover}`)
-      }
+const METADATA_PROVIDERS: Record<string, MetadataProvider> = {
+  openlibrary: openLibraryProvider,
+  amazon: amazonProvider,
+  'google-books': googleBooksProvider,
+  isbndb: isbndbProvider
+}
+
+const DEFAULT_PROVIDER_ORDER = ['openlibrary', 'amazon']
+
+interface MetadataLookupOptions extends ProviderChainOptions {
+  providers?: string[]             // provider names in order; defaults to METADATA_PROVIDERS env, then openlibrary → amazon
+}
 
-      return fallbackMetadata
+async function getBookMetadata(amazonUrl: string, options: MetadataLookupOptions = {}): Promise<BookMetadata | null> {
+  try {
+    const { asin, title } = await extractBookInfo(amazonUrl)
+    const providers = resolveProviders(METADATA_PROVIDERS, options.providers, DEFAULT_PROVIDER_ORDER)
+    const { metadata, provenance, results } = await runProviderChain(providers, { amazonUrl, asin, titleHint: title }, options)
+
+    if (!metadata.title && !metadata.author && !metadata.coverUrl) {
+      console.error(`❌ FAILED: Could not get any metadata for ${amazonUrl}`)
+      return null
     }
 
-    console.error(`❌ FAILED: Could not get any metadata for ${amazonUrl}`)
-    return null
+    // Confidence belongs to whichever provider supplied the title; score it against the URL if that provider didn't
+    const titleResult = results.find(([name]) => name === provenance.title)?.[1]
+    const match = titleResult?.match ?? scoreCandidate(
+      { title: metadata.title, author: metadata.author, isbns: metadata.isbn ? [metadata.isbn] : [] },
+      { asin, slugTitle: title }
+    )
+
+    const result: BookMetadata = {
+      title: metadata.title || 'Unknown Title',
+      author: metadata.author || 'Unknown Author',
+      coverUrl: metadata.coverUrl || '/covers/default-book.jpg',
+      firstPublishYear: metadata.firstPublishYear,
+      isbn: metadata.isbn,
+      olid: metadata.olid,
+      subjects: metadata.subjects ?? [],
+      provenance,
+      matchConfidence: match.score,
+      matchSignals: match.signals
+    }
+
+    const sources = Object.entries(provenance)
+      .filter(([field]) => REQUIRED_FIELDS.includes(field as MetadataField))
+      .map(([field, provider]) => `${field}: ${provider}`)
+    console.log(`  🧩 "${result.title}" by ${result.author} (${sources.join(', ') || 'no sources'}; match ${match.score})`)
+
+    return result
   } catch (error) {
     console.error('Error fetching book metadata:', error)
     return null
   }
 }
 
-async function getBatchBookMetadata(amazonUrls: string[]): Promise<(BookMetadata | null)[]> {
+async function getBatchBookMetadata(amazonUrls: string[], options: MetadataLookupOptions = {}): Promise<(BookMetadata | null)[]> {
   const results: (BookMetadata | null)[] = []
   let successCount = 0
   let failureCount = 0
@@ -328,7 +468,7 @@ async function getBatchBookMetadata(amazonUrls: string[]): Promise<(BookMetadata
     const batchResults = await Promise.all(
       batch.map(async (url) => {
         console.log(`\nProcessing URL: ${url}`)
-        const result = await getBookMetadata(url)
+        const result = await getBookMetadata(url, options)
         if (result) {
           successCount++
         } else {
@@ -348,7 +488,38 @@ async function getBatchBookMetadata(amazonUrls: string[]): Promise<(BookMetadata
   }
   
   console.log(`\nFinal results: ${successCount} books found, ${failureCount} not found`)
+
+  const cache = getMetadataCache()
+  console.log(`💾 Metadata cache: ${cache.formatStats()}`)
+  await cache.save()
+
   return results
 }
 
-export { getBookMetadata, getBatchBookMetadata, getAmazonBookCover, type BookMetadata }
\ No newline at end of file
+/**
+ * The subset of fetched metadata persisted on a books.json record, including
+ * which provider supplied each field. Returns undefined when there is nothing
+ * beyond title/author/cover and no provenance to record.
+ */
+function toBookMetadataFields(metadata: BookMetadata): BookMetadataFields | undefined {
+  const fields: BookMetadataFields = {}
+  if (metadata.firstPublishYear) fields.firstPublishYear = metadata.firstPublishYear
+  if (metadata.subjects && metadata.subjects.length > 0) fields.subjects = metadata.subjects.slice(0, MAX_STORED_SUBJECTS)
+  if (metadata.olid) fields.olid = metadata.olid
+  if (metadata.isbn) fields.isbn = toIsbn13(metadata.isbn) ?? metadata.isbn
+  if (metadata.provenance && Object.keys(metadata.provenance).length > 0) fields.provenance = { ...metadata.provenance }
+  if (metadata.matchConfidence !== undefined) fields.matchConfidence = metadata.matchConfidence
+  return Object.keys(fields).length > 0 ? fields : undefined
+}
+
+/**
+ * The Open Library work ID to group a new record's editions under — only when
+ * the match that produced it was confident. `npm run resolve-works` fills in
+ * the rest via ISBN lookups.
+ */
+function toWorkId(metadata: BookMetadata): string | undefined {
+  if (!metadata.olid || !/^OL\d+W$/.test(metadata.olid)) return undefined
+  return (metadata.matchConfidence ?? 1) >= MATCH_THRESHOLD ? metadata.olid : undefined
+}
+
+export { getBookMetadata, getBatchBookMetadata, getAmazonBookCover, toBookMetadataFields, toWorkId, type BookMetadata, type MetadataLookupOptions }
\ No newline at end of file
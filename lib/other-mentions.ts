@@ -0,0 +1,62 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import type { AmazonProductType } from './book-rules.js'
+import type { EpisodeRef } from './book-schema.js'
+import { writeJsonAtomic } from './book-store.js'
+import { mergeEpisodeRefs } from './episode-refs.js'
+
+/**
+ * Non-book products episodes linked to (films, games, watches), dropped from
+ * the shelf by product-type detection but kept in
+ * public/data/other-mentions.json so episode pages can list them as "other
+ * things mentioned" (see SHOW_OTHER_MENTIONS).
+ */
+
+export const OTHER_MENTIONS_PATH = path.join(process.cwd(), 'public', 'data', 'other-mentions.json')
+
+export interface OtherMention {
+  id: string                       // ASIN, or the URL when there is none
+  title: string                    // Amazon's product title
+  amazonUrl: string
+  productType: AmazonProductType
+  episodeRefs: EpisodeRef[]
+}
+
+export async function loadOtherMentions(filePath: string = OTHER_MENTIONS_PATH): Promise<OtherMention[]> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'))
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Merge mentions into `existing` in place; a product already recorded gains
+ * the new episode citations. Returns how many products were new.
+ */
+export function mergeOtherMentions(existing: OtherMention[], mentions: OtherMention[]): number {
+  let added = 0
+  for (const mention of mentions) {
+    const known = existing.find(entry => entry.id === mention.id)
+    if (known) {
+      mergeEpisodeRefs(known.episodeRefs, mention.episodeRefs)
+    } else {
+      existing.push({ ...mention, episodeRefs: [...mention.episodeRefs] })
+      added++
+    }
+  }
+  return added
+}
+
+/**
+ * Add mentions to the file. Returns how many products were new.
+ */
+export async function recordOtherMentions(mentions: OtherMention[], filePath: string = OTHER_MENTIONS_PATH): Promise<number> {
+  if (mentions.length === 0) return 0
+
+  const existing = await loadOtherMentions(filePath)
+  const added = mergeOtherMentions(existing, mentions)
+
+  await writeJsonAtomic(filePath, existing)
+  return added
+}
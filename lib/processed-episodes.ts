@@ -0,0 +1,35 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { writeJsonAtomic } from './book-store.js'
+
+/**
+ * Episodes the scraper has screened, by slug, in data/processed-episodes.json.
+ * An episode with a book on the shelf is recognised from books.json, but one
+ * whose books were all held for review or blocked by the book rules leaves no
+ * trace there — without this record every run would fetch it again and
+ * re-queue its books.
+ */
+
+export const PROCESSED_EPISODES_PATH = path.join(process.cwd(), 'data', 'processed-episodes.json')
+
+export async function loadProcessedEpisodes(filePath: string = PROCESSED_EPISODES_PATH): Promise<string[]> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'))
+  } catch (error) {
+    // Anything but a missing file is left to fail: saving over a corrupt file would lose every entry
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+}
+
+/**
+ * Add episode slugs to the file. Returns how many were new.
+ */
+export async function recordProcessedEpisodes(slugs: string[], filePath: string = PROCESSED_EPISODES_PATH): Promise<number> {
+  const existing = new Set(await loadProcessedEpisodes(filePath))
+  const added = [...new Set(slugs)].filter(slug => !existing.has(slug))
+  if (added.length === 0) return 0
+
+  await writeJsonAtomic(filePath, [...existing, ...added].sort())
+  return added.length
+}
@@ -0,0 +1,141 @@
+import * as cheerio from 'cheerio'
+import { amazonProductType, type AmazonProductType, type RuleEngine } from './book-rules.js'
+import { extractAsin, type EpisodeRef } from './book-schema.js'
+import { isIsbn10 } from './isbn.js'
+import { DEFAULT_TTL, getMetadataCache } from './metadata-cache.js'
+import { AMAZON_REQUEST_HEADERS } from './openLibrary.js'
+import type { OtherMention } from './other-mentions.js'
+
+/**
+ * Product-type detection — episode Links sections mix books with films, board
+ * games, watches and Prime Video. The URL alone only gives video away, so the
+ * Amazon page is read for the binding ("Hardcover", "Kindle Edition"), the
+ * format swatches and the breadcrumb category. An ISBN-10 ASIN is a print book
+ * without needing the page.
+ *
+ * The detected type feeds the book rules (`productTypes`), so what counts as a
+ * book stays in data/book-rules.json.
+ */
+
+export interface ProductDetection {
+  type: AmazonProductType
+  title?: string                   // Amazon's product title, for "other things mentioned"
+  signals: string[]
+}
+
+const BOOK_FORMATS = /\b(hardcover|paperback|kindle|mass market|board book|audiobook|audible|library binding|spiral-bound|leather bound|ebook)\b/i
+const VIDEO_FORMATS = /\b(dvd|blu-ray|prime video|4k uhd)\b/i
+const MUSIC_FORMATS = /\b(vinyl|audio cd|mp3 music)\b/i
+
+// Top-level breadcrumb → type. Anything else Amazon sells is 'other'.
+const BREADCRUMB_TYPES: Array<[RegExp, AmazonProductType]> = [
+  [/^(books|kindle store|kindle ebooks|audible books)/i, 'book'],
+  [/^(movies & tv|prime video)/i, 'video'],
+  [/^(cds & vinyl|digital music)/i, 'music']
+]
+
+function formatType(text: string): AmazonProductType | null {
+  if (BOOK_FORMATS.test(text)) return 'book'
+  if (VIDEO_FORMATS.test(text)) return 'video'
+  if (MUSIC_FORMATS.test(text)) return 'music'
+  return null
+}
+
+function clean(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Classify a product page. The breadcrumb is the most reliable signal, then the
+ * binding line, then the format swatches. With none of them (a captcha page, a
+ * layout change) the link is assumed to be a book — dropping a real book is
+ * worse than letting a stray product reach review.
+ */
+export function classifyAmazonPage(html: string): ProductDetection {
+  const $ = cheerio.load(html)
+  const signals: string[] = []
+  const title = clean($('#productTitle').text() || $('#ebooksProductTitle').text()) || undefined
+
+  const breadcrumb = clean($('#wayfinding-breadcrumbs_feature_div li').first().text())
+  const binding = clean(
+    $('#productBinding').text() ||
+    $('#productSubtitle').text() ||
+    $('#bylineInfo .a-color-secondary').filter((_, el) => /format/i.test($(el).text())).next().text()
+  )
+  const formats = clean($('#tmmSwatches, #formats').text())
+
+  let type: AmazonProductType | null = null
+  if (breadcrumb) {
+    type = BREADCRUMB_TYPES.find(([pattern]) => pattern.test(breadcrumb))?.[1] ?? 'other'
+    signals.push(`breadcrumb "${breadcrumb}"`)
+  }
+  const bindingType = binding ? formatType(binding) : null
+  if (bindingType) {
+    type ??= bindingType
+    signals.push(`binding "${binding}"`)
+  }
+  const formatsType = formats ? formatType(formats) : null
+  if (formatsType) {
+    type ??= formatsType
+    signals.push(`formats ${formatsType}`)
+  }
+
+  if (!type) return { type: 'book', title, signals: ['no product signals on page — assumed book'] }
+  return { type, title, signals }
+}
+
+async function fetchProductPage(amazonUrl: string): Promise<ProductDetection | null | undefined> {
+  try {
+    const response = await fetch(amazonUrl, { headers: AMAZON_REQUEST_HEADERS })
+    if (response.status === 404) return null
+    if (!response.ok) return undefined
+    return classifyAmazonPage(await response.text())
+  } catch {
+    return undefined
+  }
+}
+
+export async function detectProductType(amazonUrl: string, asin?: string | null): Promise<ProductDetection> {
+  const urlType = amazonProductType(amazonUrl)
+  if (urlType !== 'book') return { type: urlType, signals: ['url'] }
+  if (asin && isIsbn10(asin)) return { type: 'book', signals: ['ISBN-10 ASIN'] }
+
+  const detection = await getMetadataCache().remember('amazon-product-type', asin ?? amazonUrl, DEFAULT_TTL, () =>
+    fetchProductPage(amazonUrl)
+  )
+  return detection ?? { type: 'book', signals: ['page unavailable — assumed book'] }
+}
+
+/**
+ * Run an episode's Amazon links through product detection and the book rules
+ * before any metadata is fetched. Returns the links to keep and the non-book
+ * products that were dropped.
+ */
+export async function screenAmazonLinks(
+  amazonLinks: string[],
+  rules: RuleEngine,
+  episode: EpisodeRef
+): Promise<{ allowed: string[]; otherMentions: OtherMention[] }> {
+  const allowed: string[] = []
+  const otherMentions: OtherMention[] = []
+
+  for (const amazonUrl of amazonLinks) {
+    const asin = extractAsin(amazonUrl)
+    const product = await detectProductType(amazonUrl, asin)
+    const subject = { amazonUrl, asin, episode, productType: product.type, productSignals: product.signals }
+
+    if (rules.check(subject)) {
+      allowed.push(amazonUrl)
+    } else if (product.type !== 'book') {
+      otherMentions.push({
+        id: asin ?? amazonUrl,
+        title: product.title ?? amazonUrl,
+        amazonUrl,
+        productType: product.type,
+        episodeRefs: [episode]
+      })
+    }
+  }
+
+  return { allowed, otherMentions }
+}
@@ -0,0 +1,252 @@
+import { execFile } from 'child_process'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import type { Book } from './book-schema.js'
+import { diffShelves } from './shelf-diff.js'
+
+/**
+ * Publishing — how a run's data changes reach the site. `push` commits and
+ * pushes straight to the base branch (a bad scrape deploys at once), `branch`
+ * pushes a dated branch for someone to merge, and `pr` also opens a pull
+ * request through a forge client with the run report as its body. Every mode
+ * refuses to publish a books.json that has lost books: the writers only ever
+ * add, so a shrinking shelf means a truncated or clobbered file.
+ */
+
+export const PUBLISH_MODES = ['push', 'branch', 'pr'] as const
+
+export type PublishMode = typeof PUBLISH_MODES[number]
+
+export const BOOKS_DATA_PATH = 'public/data/books.json'
+
+/** Runs git with an argument list (no shell) in the repo and returns trimmed stdout. */
+export type GitRunner = (args: string[]) => Promise<string>
+
+export interface PullRequestInput {
+  title: string
+  body: string
+  head: string                     // branch with the changes
+  base: string
+}
+
+export interface PullRequest {
+  number: number
+  url: string
+}
+
+export interface ForgeClient {
+  openPullRequest(input: PullRequestInput): Promise<PullRequest>
+}
+
+export interface PublishRequest {
+  paths: string[]                  // files to commit, relative to the repo root
+  title: string                    // commit subject and PR title
+  body: string                     // commit body
+  prBody?: string                  // PR description, e.g. the run report (defaults to `body`)
+  allowRemovals?: boolean
+}
+
+export interface PublishResult {
+  mode: PublishMode
+  committed: boolean               // false when none of the paths had changes
+  branch?: string
+  pullRequest?: PullRequest
+}
+
+export class PublishGuardError extends Error {
+  removed: Book[]
+
+  constructor(removed: Book[]) {
+    super(
+      `Refusing to publish: books.json would lose ${removed.length} book${removed.length === 1 ? '' : 's'} ` +
+      `(${removed.slice(0, 5).map(book => book.id).join(', ')}${removed.length > 5 ? ', …' : ''})`
+    )
+    this.name = 'PublishGuardError'
+    this.removed = removed
+  }
+}
+
+export function createGitRunner(cwd: string = process.cwd()): GitRunner {
+  return args =>
+    new Promise((resolve, reject) => {
+      execFile('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+        if (error) reject(new Error(`git ${args[0]} failed: ${stderr.trim() || error.message}`))
+        else resolve(stdout.trim())
+      })
+    })
+}
+
+/**
+ * Opens pull requests through the GitHub REST API.
+ */
+export class GitHubForgeClient implements ForgeClient {
+  constructor(private readonly repository: string, private readonly token: string) {}
+
+  async openPullRequest(input: PullRequestInput): Promise<PullRequest> {
+    const response = await fetch(`https://api.github.com/repos/${this.repository}/pulls`, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/vnd.github+json',
+        Authorization: `Bearer ${this.token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(input)
+    })
+    if (!response.ok) {
+      throw new Error(`GitHub pull request failed: HTTP ${response.status} ${await response.text()}`)
+    }
+    const pull = await response.json() as { number: number; html_url: string }
+    return { number: pull.number, url: pull.html_url }
+  }
+}
+
+/**
+ * Keeps pull requests in memory — for tests, and for trying `pr` mode locally
+ * with FORGE=fake.
+ */
+export class FakeForgeClient implements ForgeClient {
+  readonly pullRequests: Array<PullRequestInput & PullRequest> = []
+
+  async openPullRequest(input: PullRequestInput): Promise<PullRequest> {
+    const number = this.pullRequests.length + 1
+    const pull = { ...input, number, url: `fake://pull/${number}` }
+    this.pullRequests.push(pull)
+    console.log(`  [fake forge] pull request #${number}: ${input.head} → ${input.base} "${input.title}"`)
+    return { number, url: pull.url }
+  }
+}
+
+/**
+ * A dated branch name, unique per minute: scraper/2026-10-19-1000.
+ */
+export function datedBranchName(date: Date = new Date(), prefix = 'scraper'): string {
+  const iso = date.toISOString()
+  return `${prefix}/${iso.slice(0, 10)}-${iso.slice(11, 16).replace(':', '')}`
+}
+
+export class Publisher {
+  private readonly git: GitRunner
+  private readonly base: string
+  private readonly remote: string
+  private readonly now: () => Date
+
+  constructor(
+    readonly mode: PublishMode,
+    private readonly options: {
+      git?: GitRunner
+      forge?: ForgeClient
+      base?: string
+      remote?: string
+      cwd?: string
+      now?: () => Date
+    } = {}
+  ) {
+    if (mode === 'pr' && !options.forge) {
+      throw new Error('Publish mode "pr" needs a forge client')
+    }
+    this.git = options.git ?? createGitRunner(options.cwd)
+    this.base = options.base ?? 'main'
+    this.remote = options.remote ?? 'origin'
+    this.now = options.now ?? (() => new Date())
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    // Only the paths that changed: some data files don't exist until a run first writes them,
+    // and `git add` fails on a pathspec that matches nothing
+    const changed = await this.changedPaths(request.paths)
+    if (changed.length === 0) return { mode: this.mode, committed: false }
+
+    if (changed.includes(BOOKS_DATA_PATH) && !request.allowRemovals) {
+      await this.guardAgainstRemovals()
+    }
+
+    if (this.mode === 'push') {
+      await this.commit(changed, request)
+      await this.git(['push', this.remote, `HEAD:${this.base}`])
+      return { mode: this.mode, committed: true }
+    }
+
+    // Commit on the dated branch, not the base: the local base must stay at what
+    // was published, since the next run's removal guard compares against it
+    const branch = datedBranchName(this.now())
+    await this.git(['checkout', '-b', branch])
+    try {
+      await this.commit(changed, request)
+      await this.git(['push', this.remote, `HEAD:refs/heads/${branch}`])
+    } finally {
+      await this.git(['checkout', this.base])
+    }
+    if (this.mode === 'branch') return { mode: this.mode, committed: true, branch }
+
+    const pullRequest = await this.options.forge!.openPullRequest({
+      title: request.title,
+      body: request.prBody ?? request.body,
+      head: branch,
+      base: this.base
+    })
+    return { mode: this.mode, committed: true, branch, pullRequest }
+  }
+
+  private async commit(paths: string[], request: PublishRequest): Promise<void> {
+    await this.git(['add', '--', ...paths])
+    await this.git(['commit', '-m', request.body ? `${request.title}\n\n${request.body}` : request.title])
+  }
+
+  /**
+   * Paths under `paths` that are modified, deleted, untracked or staged.
+   */
+  private async changedPaths(paths: string[]): Promise<string[]> {
+    const unstaged = await this.git(['ls-files', '-z', '--modified', '--others', '--exclude-standard', '--', ...paths])
+    const staged = await this.git(['diff', '--cached', '--name-only', '-z', '--', ...paths])
+    return [...new Set(`${unstaged}\0${staged}`.split('\0').filter(Boolean))]
+  }
+
+  /**
+   * Compare the working books.json with the committed one and throw if any
+   * book is gone.
+   */
+  private async guardAgainstRemovals(): Promise<void> {
+    let committed: Book[]
+    try {
+      committed = JSON.parse(await this.git(['show', `HEAD:${BOOKS_DATA_PATH}`]))
+    } catch {
+      return // not committed yet — nothing to lose
+    }
+    const current: Book[] = JSON.parse(
+      await fs.readFile(path.join(this.options.cwd ?? process.cwd(), BOOKS_DATA_PATH), 'utf-8')
+    )
+    const { removed } = diffShelves(committed, current)
+    if (removed.length > 0) throw new PublishGuardError(removed)
+  }
+}
+
+export function publishModeFromEnv(): PublishMode {
+  const mode = process.env.PUBLISH_MODE ?? 'push'
+  if (!(PUBLISH_MODES as readonly string[]).includes(mode)) {
+    throw new Error(`PUBLISH_MODE must be one of ${PUBLISH_MODES.join(', ')}, got "${mode}"`)
+  }
+  return mode as PublishMode
+}
+
+/**
+ * The forge for `pr` mode: FORGE=fake, or GitHub with GITHUB_TOKEN and
+ * GITHUB_REPOSITORY (owner/name).
+ */
+export function createForgeClientFromEnv(): ForgeClient {
+  if (process.env.FORGE === 'fake') return new FakeForgeClient()
+
+  const token = process.env.GITHUB_TOKEN
+  const repository = process.env.GITHUB_REPOSITORY
+  if (!token || !repository) {
+    throw new Error('Missing forge environment variables. Required for PUBLISH_MODE=pr: GITHUB_TOKEN, GITHUB_REPOSITORY (or FORGE=fake)')
+  }
+  return new GitHubForgeClient(repository, token)
+}
+
+export function createPublisherFromEnv(): Publisher {
+  const mode = publishModeFromEnv()
+  return new Publisher(mode, {
+    base: process.env.PUBLISH_BASE_BRANCH || 'main',
+    ...(mode === 'pr' ? { forge: createForgeClientFromEnv() } : {})
+  })
+}
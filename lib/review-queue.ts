@@ -0,0 +1,201 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { validateBook, type Book, type BookIssue } from './book-schema.js'
+import { writeJsonAtomic } from './book-store.js'
+import { isCategory } from './categories.js'
+import { mergeEpisodeRefs } from './episode-refs.js'
+import { MATCH_THRESHOLD } from './match-confidence.js'
+import type { MetadataProvenance } from './metadata-providers.js'
+
+/**
+ * Review queue — new books that wait for an editor before they publish.
+ * The writers (scraper, backfill, manual add) stage them in
+ * data/review-queue.json instead of books.json, with the evidence behind the
+ * match, so a wrong Open Library match never reaches the shelf unseen.
+ *
+ * By default only low-confidence matches are held. In staged mode
+ * (REVIEW_MODE=staged, or --staged) every new book is. `npm run review`
+ * approves, rejects or edits entries; rejections are remembered in
+ * data/review-rejections.json so the same ASIN is never proposed again.
+ */
+
+export const REVIEW_QUEUE_PATH = path.join(process.cwd(), 'data', 'review-queue.json')
+export const REVIEW_REJECTIONS_PATH = path.join(process.cwd(), 'data', 'review-rejections.json')
+
+export type ReviewReason = 'low-confidence' | 'staged'
+
+export interface ReviewQueueEntry {
+  book: Book                       // the record as it would have been written
+  reason: ReviewReason
+  matchConfidence: number
+  matchSignals: string[]
+  provenance: MetadataProvenance   // which provider supplied each field
+  queuedAt: string                 // ISO 8601
+  editedAt?: string                // set when an editor changed the record
+}
+
+export interface ReviewRejection {
+  title: string
+  author: string
+  amazonUrl: string
+  reason?: string
+  rejectedAt: string               // ISO 8601
+}
+
+export type ReviewRejections = Record<string, ReviewRejection> // book id → rejection
+
+export function isStagedReview(): boolean {
+  return process.env.REVIEW_MODE === 'staged' || process.argv.includes('--staged')
+}
+
+export function needsReview(book: Book, threshold: number = MATCH_THRESHOLD): boolean {
+  const confidence = book.metadata?.matchConfidence
+  return confidence !== undefined && confidence < threshold
+}
+
+export interface PartitionOptions {
+  threshold?: number
+  staged?: boolean                 // hold every new book, not just low-confidence ones
+  rejections?: ReviewRejections    // ids an editor already rejected — dropped outright
+}
+
+/**
+ * Split incoming books into those safe to write, those to queue and those
+ * already rejected. Only books new to the shelf are held back — a re-fetch of a
+ * book already on the shelf still just adds its episode citation.
+ */
+export function partitionForReview(
+  existingBooks: Book[],
+  newBooks: Book[],
+  options: PartitionOptions = {}
+): { accepted: Book[]; held: Book[]; rejected: Book[] } {
+  const { threshold = MATCH_THRESHOLD, staged = false, rejections = {} } = options
+  const onShelf = new Set(existingBooks.map(book => book.id))
+  const accepted: Book[] = []
+  const held: Book[] = []
+  const rejected: Book[] = []
+  for (const book of newBooks) {
+    if (onShelf.has(book.id)) {
+      accepted.push(book)
+    } else if (rejections[book.id]) {
+      rejected.push(book)
+    } else if (staged || needsReview(book, threshold)) {
+      held.push(book)
+    } else {
+      accepted.push(book)
+    }
+  }
+  return { accepted, held, rejected }
+}
+
+export async function loadReviewQueue(filePath: string = REVIEW_QUEUE_PATH): Promise<ReviewQueueEntry[]> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'))
+  } catch (error) {
+    // Anything but a missing file is left to fail: saving over a corrupt file would lose every entry
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+}
+
+export async function saveReviewQueue(queue: ReviewQueueEntry[], filePath: string = REVIEW_QUEUE_PATH): Promise<void> {
+  await writeJsonAtomic(filePath, queue)
+}
+
+export async function loadRejections(filePath: string = REVIEW_REJECTIONS_PATH): Promise<ReviewRejections> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'))
+  } catch (error) {
+    // Anything but a missing file is left to fail: saving over a corrupt file would lose every entry
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {}
+    throw error
+  }
+}
+
+export async function saveRejections(rejections: ReviewRejections, filePath: string = REVIEW_REJECTIONS_PATH): Promise<void> {
+  await writeJsonAtomic(filePath, rejections)
+}
+
+/**
+ * Add books to the queue. A book already queued keeps its entry and gains any
+ * new episode citations. `signals` maps book id → match signals.
+ */
+export async function enqueueForReview(
+  books: Book[],
+  signals: Record<string, string[]> = {},
+  filePath: string = REVIEW_QUEUE_PATH
+): Promise<ReviewQueueEntry[]> {
+  if (books.length === 0) return []
+
+  const queue = await loadReviewQueue(filePath)
+  const queued: ReviewQueueEntry[] = []
+
+  for (const book of books) {
+    const existing = queue.find(entry => entry.book.id === book.id)
+    if (existing) {
+      mergeEpisodeRefs(existing.book.episodeRefs, book.episodeRefs)
+      continue
+    }
+    const entry: ReviewQueueEntry = {
+      book,
+      reason: needsReview(book) ? 'low-confidence' : 'staged',
+      matchConfidence: book.metadata?.matchConfidence ?? 0,
+      matchSignals: signals[book.id] ?? [],
+      provenance: book.metadata?.provenance ?? {},
+      queuedAt: new Date().toISOString()
+    }
+    queue.push(entry)
+    queued.push(entry)
+  }
+
+  await saveReviewQueue(queue, filePath)
+  return queued
+}
+
+/**
+ * Pull entries out of the queue by book id. Ids not in the queue are returned
+ * as `missing` so the CLI can report typos.
+ */
+export function takeEntries(
+  queue: ReviewQueueEntry[],
+  ids: string[]
+): { taken: ReviewQueueEntry[]; remaining: ReviewQueueEntry[]; missing: string[] } {
+  const wanted = new Set(ids)
+  return {
+    taken: queue.filter(entry => wanted.has(entry.book.id)),
+    remaining: queue.filter(entry => !wanted.has(entry.book.id)),
+    missing: ids.filter(id => !queue.some(entry => entry.book.id === id))
+  }
+}
+
+export function toRejection(entry: ReviewQueueEntry, reason?: string): ReviewRejection {
+  const { title, author, amazonUrl } = entry.book
+  return { title, author, amazonUrl, ...(reason ? { reason } : {}), rejectedAt: new Date().toISOString() }
+}
+
+export type ReviewEdit = Partial<Pick<Book, 'title' | 'author' | 'category' | 'coverUrl'>>
+
+/**
+ * Apply an editor's corrections to a queued book. Returns the validation issues
+ * of the edited record; the entry is only changed when there are none.
+ */
+export function editEntry(entry: ReviewQueueEntry, edit: ReviewEdit): BookIssue[] {
+  if (edit.category !== undefined && !isCategory(edit.category)) {
+    return [{ index: 0, id: entry.book.id, field: 'category', message: `unknown category "${edit.category}"` }]
+  }
+
+  const book: Book = { ...entry.book, ...edit }
+  if (edit.category !== undefined) {
+    // A hand-picked category is as certain as an override
+    book.categoryConfidence = 1
+    book.categoryReviewed = true
+    book.secondaryCategories = book.secondaryCategories?.filter(category => category !== edit.category)
+  }
+
+  const issues = validateBook(book)
+  if (issues.length > 0) return issues
+
+  entry.book = book
+  entry.editedAt = new Date().toISOString()
+  return []
+}
@@ -0,0 +1,395 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import type { RuleRejection } from './book-rules.js'
+
+/**
+ * Run reports — a structured record of one scraper run: the canary, where
+ * episodes were discovered, which were skipped and why, what each episode's
+ * links turned into, cover uploads, timings and errors. A run that publishes
+ * commits its report as data/runs/<run id>.json with the data it describes, so
+ * two runs can be compared (`npm run run-report`) when a run suddenly finds
+ * fewer books than the last one.
+ */
+
+export const RUNS_DIR = path.join(process.cwd(), 'data', 'runs')
+
+export const DISCOVERY_SOURCES = ['rss', 'sitemap', 'listing'] as const
+
+export type DiscoverySource = typeof DISCOVERY_SOURCES[number]
+
+export type RunStatus = 'success' | 'no-new-episodes' | 'failed'
+
+export type CoverOutcome =
+  | 'uploaded'                     // stored in R2 (or already there)
+  | 'failed'                       // R2 upload failed, the source URL is used
+  | 'external'                     // no R2 credentials, the source URL is used
+  | 'skipped'                      // dry run, not uploaded
+  | 'default'                      // no cover found
+
+export interface CanaryReport {
+  ok: boolean
+  amazonLinks: number
+  error?: string
+}
+
+export interface SkippedEpisode {
+  slug: string
+  name: string
+  type: string
+  confidence: number
+  reasoning: string[]
+}
+
+export interface EpisodeReport {
+  slug: string
+  name: string
+  linksFound: number               // Amazon links in the episode's Links section
+  linksAllowed: number             // left after product detection and the book rules
+  validated: number                // well-formed Amazon URLs sent for metadata
+  enriched: number                 // resolved to book metadata
+  books: string[]                  // ids of the book records created
+  rejected: RuleRejection[]
+  durationMs: number
+  error?: string
+}
+
+export interface CoverReport {
+  bookId: string
+  title: string
+  outcome: CoverOutcome
+  url: string
+}
+
+export interface RunError {
+  phase: string
+  message: string
+}
+
+export interface RunReport {
+  id: string
+  startedAt: string
+  finishedAt?: string
+  durationMs?: number
+  status?: RunStatus
+  dryRun?: boolean
+  canary: CanaryReport | null
+  discovery: {
+    total: number
+    bySource: Record<DiscoverySource, number>
+  }
+  alreadyProcessed: number
+  beforeMinSeason: number
+  skipped: SkippedEpisode[]
+  episodes: EpisodeReport[]
+  covers: CoverReport[]
+  books: {
+    added: string[]
+    cited: string[]
+    held: string[]
+    rejected: string[]             // previously rejected in review
+  }
+  otherMentions: number
+  timings: Record<string, number>  // ms per phase
+  errors: RunError[]
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+export function toRunId(date: Date): string {
+  return date.toISOString().replace(/[:.]/g, '-')
+}
+
+/**
+ * Builds a RunReport as a run goes. The report is a plain object so callers
+ * fill in what they know directly; the methods cover timing and errors.
+ */
+export class RunRecorder {
+  readonly report: RunReport
+
+  constructor(private readonly now: () => Date = () => new Date()) {
+    const started = this.now()
+    this.report = {
+      id: toRunId(started),
+      startedAt: started.toISOString(),
+      canary: null,
+      discovery: { total: 0, bySource: { rss: 0, sitemap: 0, listing: 0 } },
+      alreadyProcessed: 0,
+      beforeMinSeason: 0,
+      skipped: [],
+      episodes: [],
+      covers: [],
+      books: { added: [], cited: [], held: [], rejected: [] },
+      otherMentions: 0,
+      timings: {},
+      errors: []
+    }
+  }
+
+  async time<T>(phase: string, fn: () => Promise<T>): Promise<T> {
+    const start = this.now().getTime()
+    try {
+      return await fn()
+    } finally {
+      this.report.timings[phase] = (this.report.timings[phase] ?? 0) + this.now().getTime() - start
+    }
+  }
+
+  discovered(episodes: Array<{ discoveredVia?: DiscoverySource }>): void {
+    this.report.discovery.total = episodes.length
+    for (const episode of episodes) {
+      if (episode.discoveredVia) this.report.discovery.bySource[episode.discoveredVia]++
+    }
+  }
+
+  episode(slug: string, name: string): EpisodeReport {
+    const entry: EpisodeReport = {
+      slug,
+      name,
+      linksFound: 0,
+      linksAllowed: 0,
+      validated: 0,
+      enriched: 0,
+      books: [],
+      rejected: [],
+      durationMs: 0
+    }
+    this.report.episodes.push(entry)
+    return entry
+  }
+
+  error(phase: string, error: unknown): void {
+    this.report.errors.push({ phase, message: errorMessage(error) })
+  }
+
+  finish(status: RunStatus): RunReport {
+    const finished = this.now()
+    this.report.status = status
+    this.report.finishedAt = finished.toISOString()
+    this.report.durationMs = finished.getTime() - Date.parse(this.report.startedAt)
+    return this.report
+  }
+}
+
+/**
+ * Write the report to data/runs/<id>.json. Returns the file written.
+ */
+export async function saveRunReport(report: RunReport, dir: string = RUNS_DIR): Promise<string> {
+  await fs.mkdir(dir, { recursive: true })
+  const filePath = path.join(dir, `${report.id}.json`)
+  await fs.writeFile(filePath, JSON.stringify(report, null, 2))
+  return filePath
+}
+
+/**
+ * Run ids, oldest first (ids are ISO timestamps, so they sort by time).
+ */
+export async function listRunReports(dir: string = RUNS_DIR): Promise<string[]> {
+  try {
+    const files = await fs.readdir(dir)
+    return files.filter(file => file.endsWith('.json')).map(file => file.slice(0, -'.json'.length)).sort()
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+}
+
+/**
+ * Load a report by id, id prefix ("2026-10-19") or file path.
+ */
+export async function loadRunReport(ref: string, dir: string = RUNS_DIR): Promise<RunReport> {
+  if (ref.endsWith('.json')) return JSON.parse(await fs.readFile(ref, 'utf-8'))
+
+  const matches = (await listRunReports(dir)).filter(id => id.startsWith(ref))
+  if (matches.length === 0) throw new Error(`No run report matching "${ref}" in ${dir}`)
+  return JSON.parse(await fs.readFile(path.join(dir, `${matches[matches.length - 1]}.json`), 'utf-8'))
+}
+
+function sum(episodes: EpisodeReport[], field: 'linksFound' | 'linksAllowed' | 'validated' | 'enriched'): number {
+  return episodes.reduce((total, episode) => total + episode[field], 0)
+}
+
+function rejectionsByRule(report: RunReport): Record<string, number> {
+  const counts: Record<string, number> = {}
+  for (const rejection of report.episodes.flatMap(episode => episode.rejected)) {
+    counts[rejection.ruleId] = (counts[rejection.ruleId] ?? 0) + 1
+  }
+  return counts
+}
+
+/**
+ * The headline numbers of a run, in display order.
+ */
+export function runMetrics(report: RunReport): Array<[string, number]> {
+  const { episodes, covers, books } = report
+  return [
+    ['episodes discovered', report.discovery.total],
+    ...DISCOVERY_SOURCES.map((source): [string, number] => [`  via ${source}`, report.discovery.bySource[source]]),
+    ['episodes skipped by classifier', report.skipped.length],
+    ['episodes processed', episodes.length],
+    ['episodes with errors', episodes.filter(episode => episode.error).length],
+    ['links found', sum(episodes, 'linksFound')],
+    ['links allowed', sum(episodes, 'linksAllowed')],
+    ['links validated', sum(episodes, 'validated')],
+    ['links enriched', sum(episodes, 'enriched')],
+    ['links rejected by rules', episodes.reduce((total, episode) => total + episode.rejected.length, 0)],
+    ['books added', books.added.length],
+    ['books cited again', books.cited.length],
+    ['books held for review', books.held.length],
+    ['covers uploaded', covers.filter(cover => cover.outcome === 'uploaded').length],
+    ['covers failed', covers.filter(cover => cover.outcome === 'failed').length],
+    ['other mentions', report.otherMentions],
+    ['errors', report.errors.length]
+  ]
+}
+
+export interface RunDiff {
+  from: string
+  to: string
+  canary: [boolean | null, boolean | null]
+  status: [RunStatus | undefined, RunStatus | undefined]
+  metrics: Array<{ label: string; from: number; to: number }>
+  rules: Array<{ ruleId: string; from: number; to: number }>
+  timings: Array<{ phase: string; from: number; to: number }>
+  newErrors: string[]
+  resolvedErrors: string[]
+  episodesOnlyIn: { from: string[]; to: string[] }
+}
+
+export function diffRunReports(from: RunReport, to: RunReport): RunDiff {
+  const fromMetrics = new Map(runMetrics(from))
+  const metrics = runMetrics(to).map(([label, value]) => ({ label, from: fromMetrics.get(label) ?? 0, to: value }))
+
+  const fromRules = rejectionsByRule(from)
+  const toRules = rejectionsByRule(to)
+  const rules = [...new Set([...Object.keys(fromRules), ...Object.keys(toRules)])]
+    .sort()
+    .map(ruleId => ({ ruleId, from: fromRules[ruleId] ?? 0, to: toRules[ruleId] ?? 0 }))
+    .filter(row => row.from !== row.to)
+
+  const timings = [...new Set([...Object.keys(from.timings), ...Object.keys(to.timings)])]
+    .map(phase => ({ phase, from: from.timings[phase] ?? 0, to: to.timings[phase] ?? 0 }))
+
+  const errorKey = (error: RunError) => `${error.phase}: ${error.message}`
+  const fromErrors = new Set(from.errors.map(errorKey))
+  const toErrors = new Set(to.errors.map(errorKey))
+
+  const fromSlugs = new Set(from.episodes.map(episode => episode.slug))
+  const toSlugs = new Set(to.episodes.map(episode => episode.slug))
+
+  return {
+    from: from.id,
+    to: to.id,
+    canary: [from.canary?.ok ?? null, to.canary?.ok ?? null],
+    status: [from.status, to.status],
+    metrics,
+    rules,
+    timings,
+    newErrors: [...toErrors].filter(error => !fromErrors.has(error)),
+    resolvedErrors: [...fromErrors].filter(error => !toErrors.has(error)),
+    episodesOnlyIn: {
+      from: [...fromSlugs].filter(slug => !toSlugs.has(slug)),
+      to: [...toSlugs].filter(slug => !fromSlugs.has(slug))
+    }
+  }
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`
+}
+
+function formatDelta(from: number, to: number): string {
+  const delta = to - from
+  return delta === 0 ? '' : ` (${delta > 0 ? '+' : ''}${delta})`
+}
+
+function canaryLabel(ok: boolean | null): string {
+  return ok === null ? 'not run' : ok ? 'ok' : 'failed'
+}
+
+export function formatRunReport(report: RunReport): string {
+  const canary = report.canary
+    ? `${canaryLabel(report.canary.ok)} (${report.canary.amazonLinks} Amazon links)${report.canary.error ? ` — ${report.canary.error}` : ''}`
+    : 'not run'
+  const lines = [
+    `Run ${report.id}${report.dryRun ? ' (dry run)' : ''} — ${report.status ?? 'unfinished'}${report.durationMs !== undefined ? ` in ${formatSeconds(report.durationMs)}` : ''}`,
+    `Canary: ${canary}`,
+    '',
+    ...runMetrics(report).map(([label, value]) => `  ${label.padEnd(32)} ${value}`)
+  ]
+
+  if (report.skipped.length > 0) {
+    lines.push('', 'Skipped by classifier:')
+    for (const episode of report.skipped) {
+      lines.push(`  - ${episode.name} — ${episode.type} (${episode.confidence.toFixed(2)}): ${episode.reasoning.join('; ')}`)
+    }
+  }
+
+  if (report.episodes.length > 0) {
+    lines.push('', 'Episodes:')
+    for (const episode of report.episodes) {
+      lines.push(
+        `  ${episode.slug}: ${episode.linksFound} found → ${episode.linksAllowed} allowed → ${episode.enriched} enriched → ` +
+        `${episode.books.length} books (${formatSeconds(episode.durationMs)})${episode.error ? ` — error: ${episode.error}` : ''}`
+      )
+      for (const rejection of episode.rejected) {
+        lines.push(`      🚫 ${rejection.title ? `"${rejection.title}" ` : ''}${rejection.amazonUrl} — ${rejection.ruleId}: ${rejection.reason}`)
+      }
+    }
+  }
+
+  const failedCovers = report.covers.filter(cover => cover.outcome === 'failed')
+  if (failedCovers.length > 0) {
+    lines.push('', 'Cover uploads failed:')
+    failedCovers.forEach(cover => lines.push(`  - ${cover.bookId} "${cover.title}" — using ${cover.url}`))
+  }
+
+  if (Object.keys(report.timings).length > 0) {
+    lines.push('', `Timings: ${Object.entries(report.timings).map(([phase, ms]) => `${phase} ${formatSeconds(ms)}`).join(', ')}`)
+  }
+
+  if (report.errors.length > 0) {
+    lines.push('', 'Errors:')
+    report.errors.forEach(error => lines.push(`  - [${error.phase}] ${error.message}`))
+  }
+
+  return lines.join('\n')
+}
+
+export function formatRunDiff(diff: RunDiff): string {
+  const lines = [
+    `Run ${diff.from} → ${diff.to}`,
+    `Status: ${diff.status[0] ?? 'unfinished'} → ${diff.status[1] ?? 'unfinished'}`,
+    `Canary: ${canaryLabel(diff.canary[0])} → ${canaryLabel(diff.canary[1])}`,
+    '',
+    ...diff.metrics.map(({ label, from, to }) => `  ${label.padEnd(32)} ${String(from).padStart(5)} → ${to}${formatDelta(from, to)}`)
+  ]
+
+  if (diff.rules.length > 0) {
+    lines.push('', 'Rule rejections changed:')
+    diff.rules.forEach(({ ruleId, from, to }) => lines.push(`  ${ruleId.padEnd(30)} ${from} → ${to}${formatDelta(from, to)}`))
+  }
+
+  if (diff.timings.length > 0) {
+    lines.push('', 'Timings:')
+    diff.timings.forEach(({ phase, from, to }) => lines.push(`  ${phase.padEnd(30)} ${formatSeconds(from)} → ${formatSeconds(to)}`))
+  }
+
+  if (diff.newErrors.length > 0) {
+    lines.push('', 'New errors:')
+    diff.newErrors.forEach(error => lines.push(`  + ${error}`))
+  }
+  if (diff.resolvedErrors.length > 0) {
+    lines.push('', 'Resolved errors:')
+    diff.resolvedErrors.forEach(error => lines.push(`  - ${error}`))
+  }
+
+  if (diff.episodesOnlyIn.from.length > 0 || diff.episodesOnlyIn.to.length > 0) {
+    lines.push('', 'Episodes processed:')
+    diff.episodesOnlyIn.from.forEach(slug => lines.push(`  - ${slug} (only in ${diff.from})`))
+    diff.episodesOnlyIn.to.forEach(slug => lines.push(`  + ${slug} (only in ${diff.to})`))
+  }
+
+  return lines.join('\n')
+}
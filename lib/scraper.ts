@@ -2,6 +2,7 @@ import * as cheerio from 'cheerio'
 import * as fs from 'fs/promises'
 import * as path from 'path'
 import { XMLParser } from 'fast-xml-parser'
+import { slugify } from './slug.js'
 
 interface Episode {
   id: string
@@ -23,15 +24,6 @@ const LISTING_URL = `${ACQUIRED_BASE}/episodes`
 const LISTING_PAGE_PARAM = 'b8478ff5_page'
 const CACHE_TTL_MS = 6 * 60 * 60 * 1000
 
-function slugify(value: string): string {
-  return value
-    .toLowerCase()
-    .normalize('NFKD')
-    .replace(/[\u2018\u2019]/g, '')
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-+|-+$/g, '')
-}
-
 function slugToName(slug: string): string {
   return slug
     .split('-')
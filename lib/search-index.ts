@@ -0,0 +1,237 @@
+/**
+ * Search index — a compact inverted index over titles, authors, episode names
+ * and Open Library subjects, built once at build time (scripts/build-search-index.ts)
+ * and queried in the browser as the reader types.
+ *
+ * Text is accent-folded and lowercased before indexing, so "Hermes" finds
+ * "Hermès". Each query word may match a term exactly, as a prefix ("bog" →
+ * "bogle") or within a small edit distance ("bogel" → "bogle"); every query word
+ * must match for a book to be returned. Matches in the title outrank matches in
+ * the author, episode name and subjects, in that order.
+ *
+ * Keep this module free of runtime imports — it is bundled into the app.
+ */
+
+export const SEARCH_INDEX_VERSION = 1
+
+export const SEARCH_FIELDS = ['title', 'author', 'episode', 'subject'] as const
+
+export type SearchField = typeof SEARCH_FIELDS[number]
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 4,
+  author: 3,
+  episode: 2,
+  subject: 1
+}
+
+const EXACT_QUALITY = 1
+const PREFIX_QUALITY = 0.75
+const FUZZY_QUALITY = [1, 0.5, 0.3] // by edit distance
+
+const MIN_PREFIX_LENGTH = 1
+const MIN_FUZZY_LENGTH = 4
+
+export interface SearchableBook {
+  id: string
+  title: string
+  author: string
+  episodeRefs: Array<{ name: string }>
+  metadata?: { subjects?: string[] }
+}
+
+export interface SearchIndex {
+  version: typeof SEARCH_INDEX_VERSION
+  ids: string[]                         // book ids; postings refer to positions in this list
+  terms: Record<string, number[]>       // term → flat [doc, field, doc, field, …] postings
+}
+
+export interface SearchHit {
+  id: string
+  score: number
+  terms: string[]                       // index terms that matched, for highlighting
+}
+
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+/**
+ * Lowercase, strip diacritics and apostrophes; everything else that isn't a
+ * letter or digit becomes a word break.
+ */
+export function foldText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['\u2018\u2019]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+}
+
+export function tokenize(text: string): string[] {
+  const folded = foldText(text)
+  return folded ? folded.split(' ') : []
+}
+
+function fieldValues(book: SearchableBook): Record<SearchField, string[]> {
+  return {
+    title: [book.title],
+    author: [book.author],
+    episode: book.episodeRefs.map(ref => ref.name),
+    subject: book.metadata?.subjects ?? []
+  }
+}
+
+export function buildSearchIndex(books: SearchableBook[]): SearchIndex {
+  const terms: Record<string, number[]> = {}
+
+  books.forEach((book, doc) => {
+    const values = fieldValues(book)
+    SEARCH_FIELDS.forEach((field, fieldIndex) => {
+      const seen = new Set<string>()
+      for (const value of values[field]) {
+        for (const term of tokenize(value)) {
+          if (seen.has(term)) continue
+          seen.add(term)
+          if (!Object.prototype.hasOwnProperty.call(terms, term)) terms[term] = []
+          terms[term].push(doc, fieldIndex)
+        }
+      }
+    })
+  })
+
+  return { version: SEARCH_INDEX_VERSION, ids: books.map(book => book.id), terms }
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions),
+ * giving up early once it exceeds `max`.
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let prevPrev: number[] = []
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1)
+      }
+      current[j] = value
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) return max + 1
+    prevPrev = prev
+    prev = current
+  }
+
+  return prev[b.length]
+}
+
+function maxEdits(token: string): number {
+  if (token.length < MIN_FUZZY_LENGTH) return 0
+  return token.length <= 7 ? 1 : 2
+}
+
+// Index terms a single query word can stand for, with how closely each matches
+function expandToken(token: string, termList: string[], terms: SearchIndex['terms']): Map<string, number> {
+  const matches = new Map<string, number>()
+  if (Object.prototype.hasOwnProperty.call(terms, token)) matches.set(token, EXACT_QUALITY)
+
+  const allowedEdits = maxEdits(token)
+  for (const term of termList) {
+    if (matches.has(term)) continue
+    if (token.length >= MIN_PREFIX_LENGTH && term.startsWith(token)) {
+      matches.set(term, PREFIX_QUALITY)
+      continue
+    }
+    if (allowedEdits > 0) {
+      const distance = editDistance(token, term, allowedEdits)
+      if (distance <= allowedEdits) matches.set(term, FUZZY_QUALITY[distance])
+    }
+  }
+
+  return matches
+}
+
+/**
+ * Rank books against a free-text query. Returns hits best-first; books that
+ * don't match every query word are left out.
+ */
+export function searchIndex(index: SearchIndex, query: string): SearchHit[] {
+  const tokens = [...new Set(tokenize(query))]
+  if (tokens.length === 0) return []
+
+  const termList = Object.keys(index.terms)
+  let scores: Map<number, { score: number; terms: Set<string> }> | null = null
+
+  for (const token of tokens) {
+    const tokenScores = new Map<number, { score: number; terms: Set<string> }>()
+
+    expandToken(token, termList, index.terms).forEach((quality, term) => {
+      const postings = index.terms[term]
+      for (let i = 0; i < postings.length; i += 2) {
+        const doc = postings[i]
+        const weight = FIELD_WEIGHTS[SEARCH_FIELDS[postings[i + 1]]] * quality
+        const entry = tokenScores.get(doc)
+        if (!entry) {
+          tokenScores.set(doc, { score: weight, terms: new Set([term]) })
+        } else {
+          entry.score = Math.max(entry.score, weight)
+          entry.terms.add(term)
+        }
+      }
+    })
+
+    if (scores === null) {
+      scores = tokenScores
+      continue
+    }
+
+    // Every query word must match: keep only books matched so far and by this word
+    const merged = new Map<number, { score: number; terms: Set<string> }>()
+    scores.forEach((entry, doc) => {
+      const tokenEntry = tokenScores.get(doc)
+      if (!tokenEntry) return
+      tokenEntry.terms.forEach(term => entry.terms.add(term))
+      merged.set(doc, { score: entry.score + tokenEntry.score, terms: entry.terms })
+    })
+    scores = merged
+  }
+
+  return [...(scores ?? new Map()).entries()]
+    .sort(([docA, a], [docB, b]) => b.score - a.score || docA - docB)
+    .map(([doc, entry]) => ({ id: index.ids[doc], score: entry.score, terms: [...entry.terms] }))
+}
+
+/**
+ * Split display text into matched and unmatched runs, marking whole words whose
+ * folded form is one of `terms` (as returned on a SearchHit).
+ */
+export function highlightSegments(text: string, terms: Iterable<string>): HighlightSegment[] {
+  const termSet = new Set(terms)
+  if (termSet.size === 0) return [{ text, match: false }]
+
+  const segments: HighlightSegment[] = []
+  let cursor = 0
+  for (const word of text.matchAll(/[\p{L}\p{N}\p{M}'\u2018\u2019]+/gu)) {
+    const folded = tokenize(word[0])
+    if (folded.length === 0 || !folded.every(part => termSet.has(part))) continue
+
+    const start = word.index ?? 0
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), match: false })
+    segments.push({ text: word[0], match: true })
+    cursor = start + word[0].length
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false })
+
+  return segments
+}
@@ -0,0 +1,161 @@
+import type { Book, EpisodeRef } from './book-schema.js'
+
+/**
+ * What a write would change in books.json: books added and removed, fields
+ * changed on books present in both, and episodes cited for the first time.
+ * Used by the scraper's dry-run to show a run's effect without making it.
+ */
+
+export interface FieldChange {
+  field: string                    // top-level field, or metadata.<field>
+  before: unknown
+  after: unknown
+}
+
+export interface ChangedBook {
+  id: string
+  title: string
+  fields: FieldChange[]
+  newCitations: EpisodeRef[]
+}
+
+export interface NewEpisode {
+  name: string
+  slug?: string
+  seasonNumber: number
+  episodeNumber: number
+  books: string[]                  // ids of the books citing it
+}
+
+export interface ShelfDiff {
+  added: Book[]
+  removed: Book[]
+  changed: ChangedBook[]
+  newEpisodes: NewEpisode[]
+}
+
+// Derived or append-only fields, reported elsewhere (episodeRefs) or not at all
+const IGNORED_FIELDS = new Set(['episodeRefs', 'editions'])
+
+function episodeKey(ref: EpisodeRef): string {
+  return ref.slug ?? ref.name.toLowerCase()
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function fieldChanges(before: Book, after: Book): FieldChange[] {
+  const changes: FieldChange[] = []
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)])
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue
+    const a = before[field as keyof Book]
+    const b = after[field as keyof Book]
+    if (same(a, b)) continue
+
+    if (field === 'metadata' && a && b) {
+      const metadataA = a as Record<string, unknown>
+      const metadataB = b as Record<string, unknown>
+      for (const key of new Set([...Object.keys(metadataA), ...Object.keys(metadataB)])) {
+        if (!same(metadataA[key], metadataB[key])) {
+          changes.push({ field: `metadata.${key}`, before: metadataA[key], after: metadataB[key] })
+        }
+      }
+    } else {
+      changes.push({ field, before: a, after: b })
+    }
+  }
+  return changes
+}
+
+export function diffShelves(before: Book[], after: Book[]): ShelfDiff {
+  const beforeById = new Map(before.map(book => [book.id, book]))
+  const afterIds = new Set(after.map(book => book.id))
+
+  const added: Book[] = []
+  const changed: ChangedBook[] = []
+  for (const book of after) {
+    const previous = beforeById.get(book.id)
+    if (!previous) {
+      added.push(book)
+      continue
+    }
+    const known = new Set(previous.episodeRefs.map(episodeKey))
+    const newCitations = book.episodeRefs.filter(ref => !known.has(episodeKey(ref)))
+    const fields = fieldChanges(previous, book)
+    if (fields.length > 0 || newCitations.length > 0) {
+      changed.push({ id: book.id, title: book.title, fields, newCitations })
+    }
+  }
+
+  const knownEpisodes = new Set(before.flatMap(book => book.episodeRefs.map(episodeKey)))
+  const newEpisodes = new Map<string, NewEpisode>()
+  for (const book of after) {
+    for (const ref of book.episodeRefs) {
+      const key = episodeKey(ref)
+      if (knownEpisodes.has(key)) continue
+      const episode = newEpisodes.get(key) ?? { ...ref, books: [] }
+      episode.books.push(book.id)
+      newEpisodes.set(key, episode)
+    }
+  }
+
+  return {
+    added,
+    removed: before.filter(book => !afterIds.has(book.id)),
+    changed,
+    newEpisodes: [...newEpisodes.values()]
+  }
+}
+
+export function isEmptyDiff(diff: ShelfDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(none)'
+  const text = typeof value === 'string' ? `"${value}"` : JSON.stringify(value)
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text
+}
+
+export function formatShelfDiff(diff: ShelfDiff): string {
+  if (isEmptyDiff(diff)) return 'books.json would not change'
+
+  const lines = [
+    `books.json: +${diff.added.length} added, -${diff.removed.length} removed, ~${diff.changed.length} changed`
+  ]
+
+  if (diff.newEpisodes.length > 0) {
+    lines.push('', 'New episodes:')
+    for (const episode of diff.newEpisodes) {
+      lines.push(`  ${episode.name} (S${episode.seasonNumber}E${episode.episodeNumber}) — ${episode.books.length} books`)
+    }
+  }
+
+  if (diff.added.length > 0) {
+    lines.push('', 'Added:')
+    for (const book of diff.added) {
+      lines.push(`  + ${book.id}  "${book.title}" by ${book.author} [${book.category}] — ${book.episodeRefs.map(ref => ref.name).join(', ')}`)
+    }
+  }
+
+  if (diff.removed.length > 0) {
+    lines.push('', 'Removed:')
+    diff.removed.forEach(book => lines.push(`  - ${book.id}  "${book.title}" by ${book.author}`))
+  }
+
+  if (diff.changed.length > 0) {
+    lines.push('', 'Changed:')
+    for (const book of diff.changed) {
+      lines.push(`  ~ ${book.id}  "${book.title}"`)
+      book.fields.forEach(change => lines.push(`      ${change.field}: ${formatValue(change.before)} → ${formatValue(change.after)}`))
+      if (book.newCitations.length > 0) {
+        lines.push(`      now also cited in ${book.newCitations.map(ref => ref.name).join(', ')}`)
+      }
+    }
+  }
+
+  return lines.join('\n')
+}
@@ -0,0 +1,85 @@
+/**
+ * Shelf statistics — counts over books.json for `npm run bookshelf -- stats`.
+ */
+
+import type { Book, EpisodeRef } from './book-schema.js'
+import { latestEpisodeRef } from './episode-refs.js'
+
+export const DEFAULT_COVER_URL = '/covers/default-book.jpg'
+
+export type CoverKind = 'r2' | 'external' | 'local' | 'default'
+
+export interface ShelfStats {
+  books: number
+  episodes: number
+  citations: number                // episode references across all books
+  authors: number
+  categories: Record<string, number>
+  sources: Record<string, number>  // book.source; rows from before sources were kept count as "legacy"
+  covers: Record<CoverKind, number>
+  unknownMetadata: number          // "Unknown" title or author
+  withOpenLibraryMetadata: number
+  withWorkId: number
+  latestEpisode?: EpisodeRef
+}
+
+/**
+ * Where a cover is served from. R2 covers are recognised by the r2.dev host,
+ * or `r2PublicUrl` when the bucket sits behind a custom domain.
+ */
+export function coverKind(coverUrl: string, r2PublicUrl?: string): CoverKind {
+  if (coverUrl === DEFAULT_COVER_URL) return 'default'
+  if (coverUrl.startsWith('/')) return 'local'
+  if ((r2PublicUrl && coverUrl.startsWith(r2PublicUrl)) || /\.r2\.dev\//.test(coverUrl)) return 'r2'
+  return 'external'
+}
+
+function countBy(values: string[]): Record<string, number> {
+  const counts: Record<string, number> = {}
+  for (const value of values) counts[value] = (counts[value] ?? 0) + 1
+  return Object.fromEntries(Object.entries(counts).sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b)))
+}
+
+export function shelfStats(books: Book[], r2PublicUrl?: string): ShelfStats {
+  const refs = books.flatMap(book => book.episodeRefs)
+  const covers: Record<CoverKind, number> = { r2: 0, external: 0, local: 0, default: 0 }
+  for (const book of books) covers[coverKind(book.coverUrl, r2PublicUrl)]++
+
+  return {
+    books: books.length,
+    episodes: new Set(refs.map(ref => ref.slug ?? ref.name)).size,
+    citations: refs.length,
+    authors: new Set(books.map(book => book.author)).size,
+    categories: countBy(books.map(book => book.category)),
+    sources: countBy(books.map(book => book.source ?? 'legacy')),
+    covers,
+    unknownMetadata: books.filter(book => book.title.includes('Unknown') || book.author.includes('Unknown')).length,
+    withOpenLibraryMetadata: books.filter(book => book.metadata?.olid).length,
+    withWorkId: books.filter(book => book.workId).length,
+    latestEpisode: latestEpisodeRef(refs)
+  }
+}
+
+export function formatShelfStats(stats: ShelfStats): string {
+  const counts = (record: Record<string, number>) =>
+    Object.entries(record).map(([key, count]) => `  ${String(count).padStart(4)}  ${key}`)
+  const latest = stats.latestEpisode
+
+  return [
+    `📚 ${stats.books} books from ${stats.episodes} episodes (${stats.citations} citations, ${stats.authors} authors)`,
+    ...(latest ? [`Latest episode: ${latest.name} (S${latest.seasonNumber}E${latest.episodeNumber})`] : []),
+    '',
+    'Categories:',
+    ...counts(stats.categories),
+    '',
+    'Sources:',
+    ...counts(stats.sources),
+    '',
+    'Covers:',
+    ...counts(stats.covers),
+    '',
+    `Unknown title/author:     ${stats.unknownMetadata}`,
+    `Open Library metadata:    ${stats.withOpenLibraryMetadata}`,
+    `Grouped by work (workId): ${stats.withWorkId}`
+  ].join('\n')
+}
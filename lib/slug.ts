@@ -0,0 +1,13 @@
+/**
+ * URL slugs for episodes — shared by episode discovery and the app's
+ * /episodes/[slug] routes. Dependency-free so it can be bundled client-side.
+ */
+
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u2018\u2019]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
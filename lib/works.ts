@@ -0,0 +1,63 @@
+import { isIsbn10, toIsbn13 } from './isbn.js'
+import { MATCH_THRESHOLD } from './match-confidence.js'
+import { DEFAULT_TTL, getMetadataCache } from './metadata-cache.js'
+import type { Book } from './book-schema.js'
+
+/**
+ * Resolve a book to its Open Library work ID (OL…W) — the canonical ID its
+ * Kindle and print editions are grouped under (see lib/editions.ts).
+ *
+ * In order of trust:
+ *   1. ISBN lookup — the ASIN when it is an ISBN-10, then metadata.isbn.
+ *      Open Library's edition record names its work.
+ *   2. metadata.olid, when the Open Library match behind it was confident.
+ *   3. A search for the ASIN itself (Kindle editions), only if it is unambiguous.
+ */
+
+const OPEN_LIBRARY = 'https://openlibrary.org'
+
+function workKeyToId(key: unknown): string | null {
+  return typeof key === 'string' ? key.match(/^\/works\/(OL\d+W)$/)?.[1] ?? null : null
+}
+
+async function workIdForIsbn(isbn13: string): Promise<string | null> {
+  return getMetadataCache().remember('openlibrary-isbn-work', isbn13, DEFAULT_TTL, async () => {
+    const response = await fetch(`${OPEN_LIBRARY}/isbn/${isbn13}.json`)
+    if (response.status === 404) return null
+    if (!response.ok) return undefined
+    const edition = await response.json()
+    return workKeyToId(edition?.works?.[0]?.key)
+  })
+}
+
+async function workIdForAsinSearch(asin: string): Promise<string | null> {
+  return getMetadataCache().remember('openlibrary-asin-work', asin, DEFAULT_TTL, async () => {
+    const response = await fetch(`${OPEN_LIBRARY}/search.json?q=${asin}&fields=key`)
+    if (!response.ok) return undefined
+    const data = await response.json()
+    const keys = new Set((data?.docs ?? []).map((doc: { key?: string }) => doc.key))
+    // More than one work means the ASIN matched loosely — not safe to group on
+    return keys.size === 1 ? workKeyToId([...keys][0]) : null
+  })
+}
+
+export type WorkIdSource = 'isbn' | 'metadata' | 'asin-search'
+
+export async function resolveWorkId(asin: string, book?: Pick<Book, 'metadata'>): Promise<{ workId: string; source: WorkIdSource } | null> {
+  const isbns = [isIsbn10(asin) ? asin : null, book?.metadata?.isbn ?? null]
+    .map(isbn => (isbn ? toIsbn13(isbn) : null))
+    .filter((isbn, i, all): isbn is string => isbn !== null && all.indexOf(isbn) === i)
+
+  for (const isbn13 of isbns) {
+    const workId = await workIdForIsbn(isbn13)
+    if (workId) return { workId, source: 'isbn' }
+  }
+
+  const { olid, matchConfidence } = book?.metadata ?? {}
+  if (olid && /^OL\d+W$/.test(olid) && (matchConfidence ?? 0) >= MATCH_THRESHOLD) {
+    return { workId: olid, source: 'metadata' }
+  }
+
+  const workId = await workIdForAsinSearch(asin)
+  return workId ? { workId, source: 'asin-search' } : null
+}
@@ -14,11 +14,11 @@ interface CurrentBook {
   coverUrl: string
   amazonUrl: string
   category: string
-  episodeRef: {
+  episodeRefs: Array<{
     name: string
     seasonNumber: number
     episodeNumber: number
-  }
+  }>
 }
 
 async function analyzeCurrentData() {
@@ -44,8 +44,8 @@ async function analyzeCurrentData() {
     console.log(`   ✅ Match: ${books.length === stats.totalBooks ? 'YES' : 'NO'}\n`)
 
     // Analyze episodes
-    const episodes = new Set(books.map(book => 
-      `S${book.episodeRef.seasonNumber}E${book.episodeRef.episodeNumber}: ${book.episodeRef.name}`
+    const episodes = new Set(books.flatMap(book => 
+      book.episodeRefs.map(ref => `S${ref.seasonNumber}E${ref.episodeNumber}: ${ref.name}`)
     ))
     console.log(`🎧 UNIQUE EPISODES: ${episodes.size}`)
     console.log('   Episodes list:')
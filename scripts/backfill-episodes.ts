@@ -3,52 +3,58 @@
 /**
  * Backfill Episodes Script
  * Manually process specific episodes that were missed by the RSS monitor
+ *
+ * Usage:
+ *   npm run bookshelf -- backfill <slug or episode URL...>
+ *   npm run backfill-episodes -- <slug or episode URL...>
  */
 
 import 'dotenv/config'
 import { URLValidator } from '../lib/url-validator.js'
-import { getBatchBookMetadata, type BookMetadata } from '../lib/openLibrary.js'
+import { getBatchBookMetadata, toBookMetadataFields, toWorkId, type BookMetadata } from '../lib/openLibrary.js'
+import { classifyBook, toCategoryFields } from '../lib/categories.js'
+import { loadCategoryOverrides } from '../lib/category-overrides.js'
+import { RuleEngine } from '../lib/book-rules.js'
+import { recordOtherMentions, type OtherMention } from '../lib/other-mentions.js'
+import { screenAmazonLinks } from '../lib/product-type.js'
+import { enqueueForReview, isStagedReview, loadRejections, partitionForReview } from '../lib/review-queue.js'
 import { createR2UploaderFromEnv, type R2Uploader } from '../lib/r2-uploader.js'
 import {
+  episodePageUrl,
   extractAmazonLinksFromEpisodePage,
-  extractEpisodeTitle,
-  parseSeasonEpisodeHint
+  extractEpisodeInfo
 } from '../lib/episode-page-parser.js'
+import { compareByLatestEpisode, mergeBooksIntoShelf } from '../lib/episode-refs.js'
+import {
+  assertValidBooks,
+  extractAsin,
+  formatBookIssues,
+  validateBooks,
+  type Book
+} from '../lib/book-schema.js'
+import { saveBooks } from '../lib/book-store.js'
+import { parseArgs, UsageError } from '../lib/cli.js'
 import * as cheerio from 'cheerio'
 import * as fs from 'fs/promises'
 import * as path from 'path'
 import pRetry from 'p-retry'
 
-interface Book {
-  id: string
-  title: string
-  author: string
-  coverUrl: string
-  amazonUrl: string
-  category: string
-  episodeRef: {
-    name: string
-    seasonNumber: number
-    episodeNumber: number
-    slug?: string
-  }
-  addedAt: string
-  source: 'automated' | 'backfill'
+export interface BackfillResult {
+  episodes: Array<{ url: string; books: number; error?: string }>
+  added: string[]                  // book ids new to the shelf
+  cited: string[]                  // book ids already on the shelf that gained an episode
+  held: string[]                   // held for review
+  rejected: string[]               // previously rejected in review
 }
 
-// Episodes to backfill
-const EPISODES_TO_BACKFILL = [
-  'https://www.acquired.fm/episodes/epic-systems-mychart',
-  'https://www.acquired.fm/episodes/google',
-  'https://www.acquired.fm/episodes/alphabet-inc',
-  'https://www.acquired.fm/episodes/google-the-ai-company',
-]
-
 class EpisodeBackfill {
   private urlValidator: URLValidator
   private r2Uploader: R2Uploader | null
   private dataDir: string
   private booksFile: string
+  private matchSignals: Record<string, string[]> = {}
+  private rules = new RuleEngine()
+  private otherMentions: OtherMention[] = []
 
   constructor() {
     this.urlValidator = new URLValidator()
@@ -66,19 +72,26 @@ class EpisodeBackfill {
     this.booksFile = path.join(this.dataDir, 'books.json')
   }
 
-  async run(): Promise<void> {
+  /**
+   * Backfill the given episodes, each an acquired.fm slug or episode URL.
+   */
+  async run(episodes: string[]): Promise<BackfillResult> {
+    if (episodes.length === 0) throw new UsageError('Pass the episodes to backfill, as slugs or acquired.fm episode URLs')
+
     console.log('🚀 Starting episode backfill...\n')
-    console.log(`📋 Processing ${EPISODES_TO_BACKFILL.length} episodes\n`)
+    console.log(`📋 Processing ${episodes.length} episodes\n`)
 
     const allNewBooks: Book[] = []
+    const result: BackfillResult = { episodes: [], added: [], cited: [], held: [], rejected: [] }
 
-    for (const episodeUrl of EPISODES_TO_BACKFILL) {
+    for (const episodeUrl of episodes.map(episodePageUrl)) {
       console.log(`\n${'='.repeat(70)}`)
       console.log(`📖 Processing: ${episodeUrl}`)
       console.log('='.repeat(70))
 
       try {
         const books = await this.processEpisode(episodeUrl)
+        result.episodes.push({ url: episodeUrl, books: books.length })
 
         if (books.length > 0) {
           allNewBooks.push(...books)
@@ -87,79 +100,64 @@ class EpisodeBackfill {
           console.log(`⚠️  No books found for this episode`)
         }
       } catch (error) {
+        result.episodes.push({ url: episodeUrl, books: 0, error: error instanceof Error ? error.message : String(error) })
         console.error(`❌ Error processing episode:`, error)
       }
     }
 
+    console.log(`\n🧾 ${this.rules.formatReport()}`)
+    const newMentions = await recordOtherMentions(this.otherMentions)
+    if (newMentions > 0) console.log(`🎬 Recorded ${newMentions} non-book products in public/data/other-mentions.json`)
+
     if (allNewBooks.length > 0) {
       console.log(`\n\n${'='.repeat(70)}`)
       console.log(`📚 Adding ${allNewBooks.length} new books to database`)
       console.log('='.repeat(70))
-      await this.updateBooksDatabase(allNewBooks)
-      console.log(`\n🎉 Backfill complete! Added ${allNewBooks.length} books`)
+      const { added, cited, held, rejected } = await this.updateBooksDatabase(allNewBooks)
+      Object.assign(result, {
+        added: added.map(book => book.id),
+        cited: cited.map(book => book.id),
+        held: held.map(book => book.id),
+        rejected: rejected.map(book => book.id)
+      })
+      console.log(`\n🎉 Backfill complete! Added ${allNewBooks.length - held.length - rejected.length} books`)
     } else {
       console.log('\n⚠️  No new books found to add')
     }
+    return result
   }
 
   private async processEpisode(episodeUrl: string): Promise<Book[]> {
-    try {
-      const urlValidation = this.urlValidator.validateUrl(episodeUrl)
-      if (!urlValidation.isValid) {
-        console.log(`  ❌ Invalid episode URL: ${urlValidation.error}`)
-        return []
-      }
-
-      console.log(`  🔍 Fetching episode page...`)
-      const $ = await pRetry(async () => {
-        const response = await this.urlValidator.safeFetch(urlValidation.sanitizedUrl!)
-        if (!response.ok) throw new Error(`Episode page fetch failed: ${response.status}`)
-        const html = await response.text()
-        return cheerio.load(html)
-      }, { retries: 2, minTimeout: 1000, maxTimeout: 5000 })
-
-      const episodeInfo = this.extractEpisodeInfo(episodeUrl, $)
-
-      console.log(`  📚 Extracting Amazon links from Links section...`)
-      const amazonLinks = extractAmazonLinksFromEpisodePage($, this.urlValidator)
-      if (amazonLinks.length === 0) {
-        console.log('  ⚠️  No Amazon book links found')
-        return []
-      }
-      console.log(`  🔗 Found ${amazonLinks.length} Amazon links`)
-
-      console.log(`  📖 Fetching book metadata...`)
-      const bookMetadata = await this.getBooksMetadata(amazonLinks)
-
-      console.log(`  💾 Creating book records...`)
-      return this.createBookObjects(bookMetadata, amazonLinks, episodeInfo)
-    } catch (error) {
-      console.error(`  ❌ Error:`, error)
+    const urlValidation = this.urlValidator.validateUrl(episodeUrl)
+    if (!urlValidation.isValid) throw new Error(`Invalid episode URL: ${urlValidation.error}`)
+
+    console.log(`  🔍 Fetching episode page...`)
+    const $ = await pRetry(async () => {
+      const response = await this.urlValidator.safeFetch(urlValidation.sanitizedUrl!)
+      if (!response.ok) throw new Error(`Episode page fetch failed: ${response.status}`)
+      const html = await response.text()
+      return cheerio.load(html)
+    }, { retries: 2, minTimeout: 1000, maxTimeout: 5000 })
+
+    const episodeInfo = extractEpisodeInfo(episodeUrl, $)
+
+    console.log(`  📚 Extracting Amazon links from Links section...`)
+    const amazonLinks = extractAmazonLinksFromEpisodePage($, this.urlValidator)
+    if (amazonLinks.length === 0) {
+      console.log('  ⚠️  No Amazon book links found')
       return []
     }
-  }
+    console.log(`  🔗 Found ${amazonLinks.length} Amazon links`)
 
-  private extractEpisodeInfo(
-    url: string,
-    $?: cheerio.CheerioAPI
-  ): { name: string; seasonNumber: number; episodeNumber: number; slug: string } {
-    const slug = (url.split('/episodes/')[1] || 'unknown').split(/[/?#]/)[0]
-    let name = slug.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')
-
-    let seasonNumber = new Date().getFullYear()
-    let episodeNumber = 0
-
-    if ($) {
-      const pageTitle = extractEpisodeTitle($)
-      if (pageTitle && pageTitle.length > 1) name = pageTitle
-      const hint = parseSeasonEpisodeHint($)
-      if (hint) {
-        seasonNumber = hint.seasonNumber
-        episodeNumber = hint.episodeNumber
-      }
-    }
+    const { allowed: allowedLinks, otherMentions } = await screenAmazonLinks(amazonLinks, this.rules, episodeInfo)
+    this.otherMentions.push(...otherMentions)
+    if (allowedLinks.length === 0) return []
+
+    console.log(`  📖 Fetching book metadata...`)
+    const bookMetadata = await this.getBooksMetadata(allowedLinks)
 
-    return { name, seasonNumber, episodeNumber, slug }
+    console.log(`  💾 Creating book records...`)
+    return this.createBookObjects(bookMetadata, allowedLinks, episodeInfo)
   }
 
   private async getBooksMetadata(amazonUrls: string[]): Promise<(BookMetadata | null)[]> {
@@ -178,13 +176,14 @@ class EpisodeBackfill {
     episodeInfo: { name: string; seasonNumber: number; episodeNumber: number; slug: string }
   ): Promise<Book[]> {
     const books: Book[] = []
+    const categoryOverrides = loadCategoryOverrides()
 
     for (let i = 0; i < amazonUrls.length; i++) {
       const metadata = bookMetadata[i]
       const amazonUrl = amazonUrls[i]
 
       if (metadata) {
-        const bookId = this.extractASIN(amazonUrl) || `backfill-${Date.now()}-${i}`
+        const bookId = extractAsin(amazonUrl) || `backfill-${Date.now()}-${i}`
         let coverUrl = metadata.coverUrl || '/covers/default-book.jpg'
 
         // If R2 is available and we have a valid cover URL, upload to R2
@@ -201,57 +200,41 @@ class EpisodeBackfill {
           }
         }
 
+        this.matchSignals[bookId] = metadata.matchSignals ?? []
         const book: Book = {
           id: bookId,
           title: metadata.title,
           author: metadata.author,
           coverUrl: coverUrl,
           amazonUrl: amazonUrl,
-          category: this.categorizeBook(metadata),
-          episodeRef: {
+          ...toCategoryFields(classifyBook(metadata, categoryOverrides[bookId])),
+          episodeRefs: [{
             name: episodeInfo.name,
             seasonNumber: episodeInfo.seasonNumber,
             episodeNumber: episodeInfo.episodeNumber,
             slug: episodeInfo.slug
-          },
+          }],
+          metadata: toBookMetadataFields(metadata),
+          workId: toWorkId(metadata),
           addedAt: new Date().toISOString(),
           source: 'backfill'
         }
-        books.push(book)
+        if (this.rules.check({ amazonUrl, asin: extractAsin(amazonUrl), title: book.title, author: book.author, episode: episodeInfo })) {
+          books.push(book)
+        }
       }
     }
 
     return books
   }
 
-  private extractASIN(amazonUrl: string): string | null {
-    const asinMatch = amazonUrl.match(/\/dp\/([A-Z0-9]{10})/) || amazonUrl.match(/\/([B][0-9A-Z]{9})/)
-    return asinMatch?.[1] || null
-  }
-
-  private categorizeBook(metadata: BookMetadata): string {
-    const subjects = metadata.subjects || []
-    const title = metadata.title.toLowerCase()
-
-    if (subjects.some(s => /business|finance|economics|management|entrepreneurship|investing|money/i.test(s)) ||
-        title.includes('business') || title.includes('finance') || title.includes('economics')) {
-      return 'Business'
-    }
-
-    if (subjects.some(s => /technology|computer|software|programming|digital|internet/i.test(s)) ||
-        title.includes('tech') || title.includes('computer') || title.includes('digital')) {
-      return 'Technology'
-    }
-
-    if (subjects.some(s => /history|historical|biography|memoir/i.test(s)) ||
-        title.includes('history') || title.includes('historical')) {
-      return 'History'
-    }
-
-    return 'Business'
-  }
-
-  private async updateBooksDatabase(newBooks: Book[]): Promise<void> {
+  /**
+   * Returns what happened to each book: added or cited on the shelf, held for
+   * review, or dropped as previously rejected.
+   */
+  private async updateBooksDatabase(
+    newBooks: Book[]
+  ): Promise<{ added: Book[]; cited: Book[]; held: Book[]; rejected: Book[] }> {
     try {
       let existingBooks: Book[] = []
       try {
@@ -261,30 +244,48 @@ class EpisodeBackfill {
         console.log('No existing books file found')
       }
 
-      const existingIds = new Set(existingBooks.map(book => book.id))
-      const uniqueNewBooks = newBooks.filter(book => !existingIds.has(book.id))
+      const { books: validNewBooks, issues } = validateBooks(newBooks)
+      if (issues.length > 0) {
+        console.warn(`⚠️  Rejected ${newBooks.length - validNewBooks.length} malformed books:\n${formatBookIssues(issues)}`)
+      }
+
+      // Uncertain matches (or, in staged mode, every new book) wait in the review queue instead of going live
+      const { accepted, held, rejected } = partitionForReview(existingBooks, validNewBooks, {
+        staged: isStagedReview(),
+        rejections: await loadRejections()
+      })
+      if (rejected.length > 0) {
+        console.log(`\n🚫 Skipped ${rejected.length} books previously rejected in review`)
+      }
+      if (held.length > 0) {
+        await enqueueForReview(held, this.matchSignals)
+        console.log(`\n🔍 Held ${held.length} new books for review in data/review-queue.json`)
+        held.forEach(book => {
+          console.log(`  ? "${book.title}" (${book.amazonUrl}) — match confidence ${book.metadata?.matchConfidence ?? 'n/a'}`)
+        })
+      }
 
-      if (uniqueNewBooks.length === 0) {
+      const { books: allBooks, added, cited } = mergeBooksIntoShelf(existingBooks, accepted)
+
+      if (added.length === 0 && cited.length === 0) {
         console.log('All books already exist in database')
-        return
+        return { added, cited: [], held, rejected }
       }
 
-      const allBooks = [...existingBooks, ...uniqueNewBooks]
-      allBooks.sort((a, b) => {
-        if (a.episodeRef.seasonNumber !== b.episodeRef.seasonNumber) {
-          return b.episodeRef.seasonNumber - a.episodeRef.seasonNumber
-        }
-        return b.episodeRef.episodeNumber - a.episodeRef.episodeNumber
-      })
+      allBooks.sort(compareByLatestEpisode)
+      assertValidBooks(allBooks)
 
-      await fs.mkdir(this.dataDir, { recursive: true })
-      await fs.writeFile(this.booksFile, JSON.stringify(allBooks, null, 2))
+      await saveBooks(allBooks, 'backfill-episodes')
 
       console.log(`\n📚 Books added:`)
-      uniqueNewBooks.forEach(book => {
+      added.forEach(book => {
         console.log(`  + "${book.title}" by ${book.author}`)
-        console.log(`    Episode: ${book.episodeRef.name}`)
+        console.log(`    Episode: ${book.episodeRefs[0].name}`)
+      })
+      cited.forEach(({ book, refs }) => {
+        console.log(`  ~ "${book.title}" now also cited in ${refs.map(ref => ref.name).join(', ')}`)
       })
+      return { added, cited: cited.map(({ book }) => book), held, rejected }
     } catch (error) {
       console.error('Error updating books database:', error)
       throw error
@@ -295,7 +296,7 @@ class EpisodeBackfill {
 // Run backfill if called directly
 if (import.meta.url === `file://${process.argv[1]}`) {
   const backfill = new EpisodeBackfill()
-  backfill.run().catch(error => {
+  backfill.run(parseArgs(process.argv.slice(2)).positionals).catch(error => {
     console.error('❌ Backfill failed:', error)
     process.exit(1)
   })
@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+
+/**
+ * Book History Script
+ * Shows the audit log for a book — every field each script changed, with the
+ * old and new value — and reverts a single change.
+ *
+ * Usage:
+ *   npm run book-history -- <book id> [--json]
+ *   npm run book-history -- revert <entry id> [--force]
+ */
+
+import { bookHistory, loadAuditLog, revertEntry, type AuditEntry } from '../lib/audit-log.js'
+import { assertValidBooks } from '../lib/book-schema.js'
+import { loadBooks, saveBooks } from '../lib/book-store.js'
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(none)'
+  const text = typeof value === 'string' ? `"${value}"` : JSON.stringify(value)
+  return text.length > 100 ? `${text.slice(0, 97)}...` : text
+}
+
+function describe(entry: AuditEntry): string {
+  switch (entry.action) {
+    case 'add':
+      return 'added to the shelf'
+    case 'remove':
+      return 'removed from the shelf'
+    default:
+      return `${entry.field}: ${formatValue(entry.before)} → ${formatValue(entry.after)}`
+  }
+}
+
+class BookHistoryCli {
+  async run(args: string[] = process.argv.slice(2)): Promise<void> {
+    const [command, ...rest] = args.filter(arg => !arg.startsWith('--'))
+    if (!command) throw new Error('Pass a book id, or revert <entry id>')
+
+    if (command === 'revert') return this.revert(rest[0], args.includes('--force'))
+    return this.show(command, args.includes('--json'))
+  }
+
+  private async show(bookId: string, json: boolean): Promise<void> {
+    const history = bookHistory(await loadAuditLog(), bookId)
+    if (json) {
+      console.log(JSON.stringify(history, null, 2))
+      return
+    }
+    if (history.length === 0) {
+      console.log(`No recorded changes for ${bookId}`)
+      return
+    }
+
+    console.log(`📜 ${history.length} changes to ${bookId}\n`)
+    for (const entry of history) {
+      console.log(`${entry.id.padEnd(12)} ${entry.at}  ${entry.actor.padEnd(22)} ${describe(entry)}`)
+    }
+    console.log('\nUndo one with: npm run book-history -- revert <entry id>')
+  }
+
+  private async revert(entryId: string | undefined, force: boolean): Promise<void> {
+    if (!entryId) throw new Error('Pass the id of the change to revert (see `npm run book-history -- <book id>`)')
+
+    const entry = (await loadAuditLog()).find(candidate => candidate.id === entryId)
+    if (!entry) throw new Error(`No audit entry "${entryId}"`)
+
+    const { books, conflict } = revertEntry(await loadBooks(), entry, { force })
+    if (conflict) throw new Error(`Not reverted: ${conflict}`)
+
+    assertValidBooks(books)
+    await saveBooks(books, 'book-history-revert')
+    console.log(`↩️  Reverted ${entry.id} on ${entry.bookId} (${describe(entry)})`)
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  new BookHistoryCli().run().catch(error => {
+    console.error('❌ Book history failed:', error instanceof Error ? error.message : error)
+    process.exit(1)
+  })
+}
+
+export { BookHistoryCli }
@@ -0,0 +1,183 @@
+#!/usr/bin/env node
+
+/**
+ * Bookshelf CLI
+ * One entry point for the shelf operations that used to be separate scripts
+ * with inputs edited into the source.
+ *
+ * Usage:
+ *   npm run bookshelf -- scrape [--dry-run] [--staged] [--refresh]
+ *   npm run bookshelf -- backfill <slug or episode URL...> [--staged] [--refresh]
+ *   npm run bookshelf -- gaps
+ *   npm run bookshelf -- fix-unknown
+ *   npm run bookshelf -- add <amazonUrl...> --episode <slug> [--staged] [--refresh]
+ *   npm run bookshelf -- covers migrate
+ *   npm run bookshelf -- stats
+ *
+ * Every command takes --json: the result is printed to stdout as JSON and the
+ * progress output goes to stderr. Exit codes are shared (lib/cli.ts): 0 done,
+ * 1 failed, 2 usage error, 3 done but work left (gaps found, books not added,
+ * uploads failed, ...).
+ */
+
+import 'dotenv/config'
+import { loadBookOverrides } from '../lib/book-overrides.js'
+import { loadBooks } from '../lib/book-store.js'
+import {
+  assertKnownFlags,
+  EXIT_CODES,
+  parseArgs,
+  stringFlag,
+  UsageError,
+  withLogsOnStderr,
+  type ExitCode,
+  type ParsedArgs
+} from '../lib/cli.js'
+import { loadReviewQueue } from '../lib/review-queue.js'
+import { formatShelfStats, shelfStats } from '../lib/shelf-stats.js'
+import { EpisodeBackfill } from './backfill-episodes.js'
+import { GapDetector } from './detect-gaps.js'
+import { UnknownBookFixer } from './fix-unknown-books.js'
+import { addBooks, resolveEpisode } from './manual-add-books.js'
+import { migrateCoversToR2 } from './migrate-covers-to-r2.js'
+import { OptimizedScraper } from './optimized-scraper.js'
+
+const USAGE = `Usage: npm run bookshelf -- <command> [--json]
+
+Commands:
+  scrape [--dry-run]                         Scrape new episodes (the cron job)
+  backfill <slug|url...>                     Process specific episodes
+  gaps                                       List RSS episodes with no books
+  fix-unknown                                Retry Amazon for Unknown titles/authors
+  add <amazonUrl...> --episode <slug>        Add books by hand to an episode
+  covers migrate                             Upload every cover to R2
+  stats                                      Counts over books.json
+
+--staged holds every new book for review; --refresh bypasses the metadata cache.`
+
+// Flags the shared modules read from process.argv (lib/review-queue.ts, lib/metadata-cache.ts)
+const WRITER_FLAGS = ['staged', 'refresh']
+
+interface CommandOutcome {
+  result: unknown
+  exitCode?: ExitCode
+}
+
+function outcome(result: unknown, incomplete: boolean): CommandOutcome {
+  return { result, exitCode: incomplete ? EXIT_CODES.incomplete : EXIT_CODES.ok }
+}
+
+class BookshelfCli {
+  async run(argv: string[] = process.argv.slice(2)): Promise<ExitCode> {
+    let json = argv.includes('--json')
+    try {
+      const args = parseArgs(argv, ['episode'])
+      json = args.flags.json === true
+      const [command, ...rest] = args.positionals
+      if (!command || command === 'help' || args.flags.help) {
+        console.log(USAGE)
+        return command || args.flags.help ? EXIT_CODES.ok : EXIT_CODES.usage
+      }
+
+      const { result, exitCode = EXIT_CODES.ok } = json
+        ? await withLogsOnStderr(() => this.dispatch(command, { ...args, positionals: rest }))
+        : await this.dispatch(command, { ...args, positionals: rest })
+      if (json) console.log(JSON.stringify(result, null, 2))
+      return exitCode
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      if (json) console.log(JSON.stringify({ error: message }, null, 2))
+      if (error instanceof UsageError) {
+        console.error(`❌ ${message}\n\n${USAGE}`)
+        return EXIT_CODES.usage
+      }
+      console.error('❌ Bookshelf command failed:', message)
+      return EXIT_CODES.failed
+    }
+  }
+
+  private async dispatch(command: string, args: ParsedArgs): Promise<CommandOutcome> {
+    switch (command) {
+      case 'scrape':
+        assertKnownFlags(args, ['json', 'dry-run', ...WRITER_FLAGS])
+        return this.scrape()
+      case 'backfill':
+        assertKnownFlags(args, ['json', ...WRITER_FLAGS])
+        return this.backfill(args.positionals)
+      case 'gaps':
+        assertKnownFlags(args, ['json'])
+        return this.gaps()
+      case 'fix-unknown':
+        assertKnownFlags(args, ['json'])
+        return this.fixUnknown()
+      case 'add':
+        assertKnownFlags(args, ['json', 'episode', ...WRITER_FLAGS])
+        return this.add(args)
+      case 'covers':
+        assertKnownFlags(args, ['json'])
+        if (args.positionals[0] !== 'migrate') throw new UsageError('Expected `covers migrate`')
+        return this.migrateCovers()
+      case 'stats':
+        assertKnownFlags(args, ['json'])
+        return this.stats(args.flags.json === true)
+      default:
+        throw new UsageError(`Unknown command "${command}"`)
+    }
+  }
+
+  private async scrape(): Promise<CommandOutcome> {
+    const scraper = new OptimizedScraper()
+    await scraper.run()
+    const { report, dryRun } = scraper.result
+    return outcome(dryRun ? { report, dryRun } : { report }, report.errors.length > 0)
+  }
+
+  private async backfill(episodes: string[]): Promise<CommandOutcome> {
+    const result = await new EpisodeBackfill().run(episodes)
+    return outcome(result, result.episodes.some(episode => episode.error))
+  }
+
+  private async gaps(): Promise<CommandOutcome> {
+    const report = await new GapDetector().run()
+    return outcome(report, report.episodesToBackfill.length > 0)
+  }
+
+  private async fixUnknown(): Promise<CommandOutcome> {
+    const result = await new UnknownBookFixer().run()
+    return outcome(result, result.unresolved.length > 0)
+  }
+
+  private async add(args: ParsedArgs): Promise<CommandOutcome> {
+    const slug = stringFlag(args, 'episode')
+    if (!slug) throw new UsageError('Pass the episode the books were cited in: --episode <slug>')
+    if (args.positionals.length === 0) throw new UsageError('Pass one or more Amazon URLs to add')
+
+    const result = await addBooks(args.positionals, await resolveEpisode(slug, await loadBooks()))
+    return outcome(result, result.notAdded.length > 0)
+  }
+
+  private async migrateCovers(): Promise<CommandOutcome> {
+    const result = await migrateCoversToR2()
+    return outcome(result, result.failed > 0)
+  }
+
+  private async stats(json: boolean): Promise<CommandOutcome> {
+    const stats = shelfStats(await loadBooks(), process.env.R2_PUBLIC_URL)
+    const heldForReview = (await loadReviewQueue()).length
+    const overrides = Object.keys(loadBookOverrides()).length
+    if (!json) {
+      console.log(formatShelfStats(stats))
+      console.log(`Held for review:          ${heldForReview}`)
+      console.log(`Manual overrides:         ${overrides}`)
+    }
+    return outcome({ ...stats, heldForReview, overrides }, false)
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  new BookshelfCli().run().then(code => {
+    process.exitCode = code
+  })
+}
+
+export { BookshelfCli }
@@ -0,0 +1,40 @@
+#!/usr/bin/env node
+
+/**
+ * Build the search index the home page queries in the browser.
+ * Runs before `next build` / `next dev` (see the prebuild/predev npm scripts) and
+ * writes public/data/search-index.json, which is generated and not committed.
+ */
+
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { formatBookIssues, validateBooks } from '../lib/book-schema.js'
+import { groupEditions } from '../lib/editions.js'
+import { buildSearchIndex } from '../lib/search-index.js'
+
+async function buildIndexFile() {
+  const dataDir = path.join(process.cwd(), 'public', 'data')
+  const records = JSON.parse(await fs.readFile(path.join(dataDir, 'books.json'), 'utf-8'))
+
+  // Index exactly what getBooks() serves — malformed rows are skipped there too
+  const { books, issues } = validateBooks(records)
+  if (issues.length > 0) {
+    console.warn(`⚠️  Skipping ${records.length - books.length} malformed books:\n${formatBookIssues(issues)}`)
+  }
+
+  const works = groupEditions(books)
+  const index = buildSearchIndex(works)
+  const indexPath = path.join(dataDir, 'search-index.json')
+  await fs.writeFile(indexPath, JSON.stringify(index))
+
+  console.log(`🔎 Indexed ${works.length} books (${Object.keys(index.terms).length} terms) → ${indexPath}`)
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  buildIndexFile().catch(error => {
+    console.error('❌ Search index build failed:', error)
+    process.exit(1)
+  })
+}
+
+export { buildIndexFile }
@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+
+/**
+ * Category Report Script
+ * Lists books whose category assignment falls below the confidence threshold,
+ * weakest first, with the evidence behind each pick and a ready-to-paste line
+ * for data/category-overrides.json.
+ *
+ * Usage: npm run category-report -- [--threshold=0.5] [--json]
+ */
+
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { extractAsin, isAsin, type Book } from '../lib/book-schema.js'
+import { classifyBook, LOW_CONFIDENCE_THRESHOLD, type CategoryAssignment } from '../lib/categories.js'
+import { CATEGORY_OVERRIDES_PATH, loadCategoryOverrides } from '../lib/category-overrides.js'
+
+interface ReportEntry {
+  asin: string | null
+  id: string
+  title: string
+  author: string
+  storedCategory: string
+  subjects: string[]
+  assignment: CategoryAssignment
+}
+
+function parseThreshold(args: string[]): number {
+  const arg = args.find(a => a.startsWith('--threshold='))
+  if (!arg) return LOW_CONFIDENCE_THRESHOLD
+  const value = Number(arg.split('=')[1])
+  if (Number.isNaN(value) || value < 0 || value > 1) {
+    throw new Error(`--threshold must be between 0 and 1, got "${arg.split('=')[1]}"`)
+  }
+  return value
+}
+
+async function categoryReport(args: string[] = process.argv.slice(2)) {
+  const threshold = parseThreshold(args)
+  const booksPath = path.join(process.cwd(), 'public', 'data', 'books.json')
+  const books: Book[] = JSON.parse(await fs.readFile(booksPath, 'utf-8'))
+  const overrides = loadCategoryOverrides()
+
+  const entries: ReportEntry[] = books.map(book => {
+    const asin = isAsin(book.id) ? book.id : extractAsin(book.amazonUrl)
+    const subjects = book.metadata?.subjects ?? []
+    return {
+      asin,
+      id: book.id,
+      title: book.title,
+      author: book.author,
+      storedCategory: book.category,
+      subjects,
+      assignment: classifyBook({ title: book.title, author: book.author, subjects, category: book.category, categoryReviewed: book.categoryReviewed }, asin ? overrides[asin] : undefined)
+    }
+  })
+
+  const lowConfidence = entries
+    .filter(entry => entry.assignment.confidence < threshold)
+    .sort((a, b) => a.assignment.confidence - b.assignment.confidence || a.title.localeCompare(b.title))
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify({ threshold, total: books.length, lowConfidence }, null, 2))
+    return
+  }
+
+  console.log(`📊 ${lowConfidence.length} of ${books.length} books below confidence ${threshold}\n`)
+
+  for (const entry of lowConfidence) {
+    const { primary, secondary, confidence, source } = entry.assignment
+    console.log(`${confidence.toFixed(2)}  "${entry.title}" by ${entry.author} (${entry.asin ?? entry.id})`)
+    console.log(`      → ${primary}${secondary.length > 0 ? ` (+ ${secondary.join(', ')})` : ''} via ${source}`)
+    console.log(`      stored: ${entry.storedCategory}`)
+    if (entry.subjects.length > 0) console.log(`      subjects: ${entry.subjects.slice(0, 6).join('; ')}`)
+    if (entry.asin) console.log(`      override: "${entry.asin}": "${primary}"`)
+    console.log()
+  }
+
+  console.log(`Pin a category by adding its line to ${path.relative(process.cwd(), CATEGORY_OVERRIDES_PATH)}`)
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  categoryReport().catch(error => {
+    console.error('❌ Category report failed:', error)
+    process.exit(1)
+  })
+}
+
+export { categoryReport }
@@ -0,0 +1,142 @@
+#!/usr/bin/env node
+
+/**
+ * Detect Duplicates Script
+ * Clusters books.json records that are likely the same book — by normalized
+ * title, author, Open Library ID and cover image — and prints a review report
+ * with a ready-to-paste decision for each cluster. With --apply, merges the
+ * approved decisions in data/duplicate-decisions.json, keeping every episode
+ * citation of the merged records.
+ *
+ * Usage: npm run detect-duplicates -- [--apply] [--json] [--no-covers] [--threshold=0.6] [--refresh]
+ */
+
+import { createHash } from 'crypto'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { assertValidBooks, type Book } from '../lib/book-schema.js'
+import { saveBooks } from '../lib/book-store.js'
+import {
+  applyMerges,
+  DUPLICATE_DECISIONS_PATH,
+  DUPLICATE_THRESHOLD,
+  findDuplicateClusters,
+  loadDuplicateDecisions
+} from '../lib/duplicates.js'
+import { DEFAULT_TTL, getMetadataCache } from '../lib/metadata-cache.js'
+
+const COVER_BATCH_SIZE = 8
+
+function parseThreshold(args: string[]): number {
+  const arg = args.find(a => a.startsWith('--threshold='))
+  if (!arg) return DUPLICATE_THRESHOLD
+  const value = Number(arg.split('=')[1])
+  if (Number.isNaN(value) || value < 0 || value > 1) {
+    throw new Error(`--threshold must be between 0 and 1, got "${arg.split('=')[1]}"`)
+  }
+  return value
+}
+
+async function hashCover(coverUrl: string): Promise<string | null> {
+  if (coverUrl.startsWith('/')) {
+    try {
+      const bytes = await fs.readFile(path.join(process.cwd(), 'public', coverUrl))
+      return createHash('sha1').update(bytes).digest('hex')
+    } catch {
+      return null
+    }
+  }
+
+  // Cover URLs are content-addressed by ASIN, so the hash can be cached like any lookup
+  return getMetadataCache().remember('cover-hash', coverUrl, DEFAULT_TTL, async () => {
+    try {
+      const response = await fetch(coverUrl)
+      if (response.status === 404) return null
+      if (!response.ok) return undefined
+      return createHash('sha1').update(Buffer.from(await response.arrayBuffer())).digest('hex')
+    } catch {
+      return undefined
+    }
+  })
+}
+
+async function hashCovers(books: Book[]): Promise<Record<string, string>> {
+  const hashes: Record<string, string> = {}
+  for (let i = 0; i < books.length; i += COVER_BATCH_SIZE) {
+    const batch = books.slice(i, i + COVER_BATCH_SIZE)
+    const results = await Promise.all(batch.map(book => hashCover(book.coverUrl)))
+    batch.forEach((book, j) => {
+      if (results[j]) hashes[book.id] = results[j]
+    })
+  }
+  return hashes
+}
+
+async function detectDuplicates(args: string[] = process.argv.slice(2)) {
+  const threshold = parseThreshold(args)
+  const booksPath = path.join(process.cwd(), 'public', 'data', 'books.json')
+  let books: Book[] = JSON.parse(await fs.readFile(booksPath, 'utf-8'))
+  const decisionsFile = path.relative(process.cwd(), DUPLICATE_DECISIONS_PATH)
+
+  const { decisions, errors } = loadDuplicateDecisions()
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${decisionsFile}:\n${errors.map(error => `  - ${error}`).join('\n')}`)
+  }
+
+  if (args.includes('--apply')) {
+    const result = applyMerges(books, decisions.merges)
+    for (const merge of result.applied) {
+      console.log(`🔗 Merged ${merge.removed.join(', ')} into ${merge.keep} (+${merge.addedRefs} episode refs)`)
+    }
+    for (const reason of result.skipped) console.log(`  – skipped ${reason}`)
+
+    if (result.applied.length > 0) {
+      assertValidBooks(result.books)
+      await saveBooks(result.books, 'detect-duplicates')
+      console.log(`✅ Applied ${result.applied.length} merges, ${books.length - result.books.length} records removed\n`)
+    } else {
+      console.log('✅ No merges to apply, books.json left unchanged\n')
+    }
+    books = result.books
+  }
+
+  const coverHashes = args.includes('--no-covers') ? {} : await hashCovers(books)
+  const clusters = findDuplicateClusters(books, { coverHashes, distinct: decisions.distinct, threshold })
+
+  const cache = getMetadataCache()
+  await cache.save()
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify({ threshold, total: books.length, clusters }, null, 2))
+    return
+  }
+
+  if (!args.includes('--no-covers')) console.log(`💾 Metadata cache: ${cache.formatStats()}`)
+  console.log(`🔍 ${clusters.length} likely duplicate clusters among ${books.length} books (threshold ${threshold})\n`)
+
+  const byId = new Map(books.map(book => [book.id, book]))
+  for (const cluster of clusters) {
+    console.log(`${cluster.score.toFixed(2)}  ${cluster.signals.join(', ')}`)
+    for (const id of cluster.ids) {
+      const book = byId.get(id)!
+      const episodes = book.episodeRefs.map(ref => ref.slug ?? `S${ref.seasonNumber}E${ref.episodeNumber}`).join(', ')
+      console.log(`      ${id === cluster.keep ? '★' : ' '} ${id}  "${book.title}" by ${book.author} — ${episodes}`)
+    }
+    const duplicates = cluster.ids.filter(id => id !== cluster.keep)
+    console.log(`      merge:    { "keep": "${cluster.keep}", "duplicates": ${JSON.stringify(duplicates)} }`)
+    console.log(`      distinct: ${JSON.stringify(cluster.ids)}`)
+    console.log()
+  }
+
+  console.log(`Approve a merge by adding it to "merges" in ${decisionsFile} (or the ids to "distinct" to stop flagging them),`)
+  console.log('then run: npm run detect-duplicates -- --apply')
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  detectDuplicates().catch(error => {
+    console.error('❌ Duplicate detection failed:', error)
+    process.exit(1)
+  })
+}
+
+export { detectDuplicates }
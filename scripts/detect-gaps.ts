@@ -8,19 +8,20 @@
 import { XMLParser } from 'fast-xml-parser'
 import * as fs from 'fs/promises'
 import * as path from 'path'
+import type { Book } from '../lib/book-schema.js'
 
-interface RSSEpisode {
+export interface RSSEpisode {
   id: string
   title: string
   link: string
   pubDate: Date
 }
 
-interface Book {
-  id: string
-  episodeRef: {
-    name: string
-  }
+export interface GapReport {
+  totalEpisodes: number
+  episodesWithBooks: { episode: RSSEpisode; count: number }[]
+  episodesWithNoBooks: number
+  episodesToBackfill: RSSEpisode[]   // no books, excluding interviews and specials
 }
 
 class GapDetector {
@@ -38,106 +39,109 @@ class GapDetector {
     this.booksFile = path.join(process.cwd(), 'public', 'data', 'books.json')
   }
 
-  async run(): Promise<void> {
-    console.log('🔍 Detecting gaps in book coverage...\n')
-
-    try {
-      // Fetch and parse RSS feed
-      console.log('📡 Fetching RSS feed...')
-      const rssData = await this.fetchRSSFeed()
-      if (!rssData) {
-        console.log('❌ Failed to fetch RSS feed')
-        return
-      }
-
-      const episodes = this.parseRSSFeed(rssData)
-      console.log(`✅ Found ${episodes.length} episodes in RSS feed\n`)
-
-      // Load existing books
-      console.log('📚 Loading books database...')
-      const books = await this.loadBooks()
-      console.log(`✅ Found ${books.length} books in database\n`)
-
-      // Group books by episode
-      const booksByEpisode = new Map<string, number>()
-      books.forEach(book => {
-        const episodeName = this.normalizeEpisodeName(book.episodeRef.name)
+  /**
+   * Compare the RSS feed with books.json: episodes with no books, minus the
+   * interviews and specials that aren't expected to have any.
+   */
+  async detect(): Promise<GapReport> {
+    // Fetch and parse RSS feed
+    console.log('📡 Fetching RSS feed...')
+    const rssData = await this.fetchRSSFeed()
+    if (!rssData) throw new Error('Failed to fetch RSS feed')
+
+    const episodes = this.parseRSSFeed(rssData)
+    console.log(`✅ Found ${episodes.length} episodes in RSS feed\n`)
+
+    // Load existing books
+    console.log('📚 Loading books database...')
+    const books = await this.loadBooks()
+    console.log(`✅ Found ${books.length} books in database\n`)
+
+    // Group books by episode
+    const booksByEpisode = new Map<string, number>()
+    books.forEach(book => {
+      book.episodeRefs.forEach(ref => {
+        const episodeName = this.normalizeEpisodeName(ref.name)
         booksByEpisode.set(episodeName, (booksByEpisode.get(episodeName) || 0) + 1)
       })
+    })
 
-      // Find episodes with no books
-      const episodesWithNoBooks: RSSEpisode[] = []
-      const episodesWithBooks: { episode: RSSEpisode; count: number }[] = []
-
-      episodes.forEach(episode => {
-        const normalized = this.normalizeEpisodeName(episode.title)
-        const bookCount = booksByEpisode.get(normalized) || 0
-
-        if (bookCount === 0) {
-          episodesWithNoBooks.push(episode)
-        } else {
-          episodesWithBooks.push({ episode, count: bookCount })
-        }
-      })
+    // Find episodes with no books
+    const episodesWithNoBooks: RSSEpisode[] = []
+    const episodesWithBooks: { episode: RSSEpisode; count: number }[] = []
 
-      // Filter out interview/special episodes (likely to have no books)
-      const episodesToBackfill = episodesWithNoBooks.filter(ep => {
-        const lower = ep.title.toLowerCase()
-        return !lower.includes('interview') &&
-               !lower.includes('holiday special') &&
-               !lower.includes('special episode') &&
-               !lower.includes('acquired live')
-      })
+    episodes.forEach(episode => {
+      const normalized = this.normalizeEpisodeName(episode.title)
+      const bookCount = booksByEpisode.get(normalized) || 0
 
-      // Report results
-      console.log('='.repeat(70))
-      console.log('📊 GAP DETECTION REPORT')
-      console.log('='.repeat(70))
-      console.log(`\nTotal episodes in RSS: ${episodes.length}`)
-      console.log(`Episodes with books: ${episodesWithBooks.length}`)
-      console.log(`Episodes with NO books: ${episodesWithNoBooks.length}`)
-      console.log(`Episodes to backfill (excluding interviews): ${episodesToBackfill.length}`)
-
-      if (episodesToBackfill.length > 0) {
-        console.log(`\n⚠️  EPISODES MISSING BOOKS:`)
-        console.log('='.repeat(70))
-        episodesToBackfill.forEach((ep, index) => {
-          console.log(`\n${index + 1}. ${ep.title}`)
-          console.log(`   Published: ${ep.pubDate.toDateString()}`)
-          console.log(`   URL: ${ep.link}`)
-        })
-
-        // Generate backfill command
-        console.log(`\n\n💡 TO BACKFILL THESE EPISODES:`)
-        console.log('='.repeat(70))
-        console.log(`Edit scripts/backfill-episodes.ts and add these URLs:`)
-        console.log(`\nconst EPISODES_TO_BACKFILL = [`)
-        episodesToBackfill.forEach(ep => {
-          console.log(`  '${ep.link}',`)
-        })
-        console.log(`]\n`)
-        console.log(`Then run: npm run backfill-episodes`)
+      if (bookCount === 0) {
+        episodesWithNoBooks.push(episode)
       } else {
-        console.log(`\n✅ No gaps found! All regular episodes have books.`)
+        episodesWithBooks.push({ episode, count: bookCount })
       }
+    })
 
-      // Show episodes with books for reference
-      if (episodesWithBooks.length > 0) {
-        console.log(`\n\n📚 EPISODES WITH BOOKS (Recent 10):`)
-        console.log('='.repeat(70))
-        episodesWithBooks.slice(0, 10).forEach(({ episode, count }) => {
-          console.log(`${episode.title}: ${count} books`)
-        })
-      }
+    // Filter out interview/special episodes (likely to have no books)
+    const episodesToBackfill = episodesWithNoBooks.filter(ep => {
+      const lower = ep.title.toLowerCase()
+      return !lower.includes('interview') &&
+             !lower.includes('holiday special') &&
+             !lower.includes('special episode') &&
+             !lower.includes('acquired live')
+    })
+
+    return {
+      totalEpisodes: episodes.length,
+      episodesWithBooks,
+      episodesWithNoBooks: episodesWithNoBooks.length,
+      episodesToBackfill
+    }
+  }
+
+  async run(): Promise<GapReport> {
+    console.log('🔍 Detecting gaps in book coverage...\n')
+    const report = await this.detect()
+    const { episodesWithBooks, episodesToBackfill } = report
+
+    // Report results
+    console.log('='.repeat(70))
+    console.log('📊 GAP DETECTION REPORT')
+    console.log('='.repeat(70))
+    console.log(`\nTotal episodes in RSS: ${report.totalEpisodes}`)
+    console.log(`Episodes with books: ${episodesWithBooks.length}`)
+    console.log(`Episodes with NO books: ${report.episodesWithNoBooks}`)
+    console.log(`Episodes to backfill (excluding interviews): ${episodesToBackfill.length}`)
+
+    if (episodesToBackfill.length > 0) {
+      console.log(`\n⚠️  EPISODES MISSING BOOKS:`)
+      console.log('='.repeat(70))
+      episodesToBackfill.forEach((ep, index) => {
+        console.log(`\n${index + 1}. ${ep.title}`)
+        console.log(`   Published: ${ep.pubDate.toDateString()}`)
+        console.log(`   URL: ${ep.link}`)
+      })
 
-      console.log('\n' + '='.repeat(70))
-      console.log('✅ Gap detection complete!')
+      // Generate backfill command
+      console.log(`\n\n💡 TO BACKFILL THESE EPISODES:`)
       console.log('='.repeat(70))
+      console.log(`npm run bookshelf -- backfill ${episodesToBackfill.map(ep => ep.link).join(' ')}`)
+    } else {
+      console.log(`\n✅ No gaps found! All regular episodes have books.`)
+    }
 
-    } catch (error) {
-      console.error('❌ Error:', error)
-      process.exit(1)
+    // Show episodes with books for reference
+    if (episodesWithBooks.length > 0) {
+      console.log(`\n\n📚 EPISODES WITH BOOKS (Recent 10):`)
+      console.log('='.repeat(70))
+      episodesWithBooks.slice(0, 10).forEach(({ episode, count }) => {
+        console.log(`${episode.title}: ${count} books`)
+      })
     }
+
+    console.log('\n' + '='.repeat(70))
+    console.log('✅ Gap detection complete!')
+    console.log('='.repeat(70))
+    return report
   }
 
   private normalizeEpisodeName(name: string): string {
@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+
+/**
+ * Enrich Book Metadata Script
+ * Backfills Open Library details (first publish year, subjects, OLID, ISBN) for
+ * books that were written before the scraper kept them. Only books without a
+ * `metadata` field are looked up; pass --all to refresh every book.
+ */
+
+import 'dotenv/config'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { assertValidBooks, type Book } from '../lib/book-schema.js'
+import { saveBooks } from '../lib/book-store.js'
+import { getBatchBookMetadata, toBookMetadataFields, toWorkId } from '../lib/openLibrary.js'
+
+class BookMetadataEnricher {
+  private booksFile: string
+
+  constructor(private refreshAll: boolean = false) {
+    this.booksFile = path.join(process.cwd(), 'public', 'data', 'books.json')
+  }
+
+  async run(): Promise<void> {
+    const books: Book[] = JSON.parse(await fs.readFile(this.booksFile, 'utf-8'))
+    const targets = this.refreshAll ? books : books.filter(book => !book.metadata)
+
+    if (targets.length === 0) {
+      console.log('✅ Every book already has metadata')
+      return
+    }
+
+    console.log(`🔍 Looking up Open Library metadata for ${targets.length} of ${books.length} books...\n`)
+
+    const results = await getBatchBookMetadata(targets.map(book => book.amazonUrl))
+
+    let enriched = 0
+    targets.forEach((book, i) => {
+      const result = results[i]
+      const fields = result ? toBookMetadataFields(result) : undefined
+      if (!result || !fields) return
+      book.metadata = fields
+      const workId = toWorkId(result)
+      if (workId && !book.workId) book.workId = workId
+      enriched++
+    })
+
+    if (enriched === 0) {
+      console.log('\n⚠️  No metadata found, books.json left unchanged')
+      return
+    }
+
+    assertValidBooks(books)
+    await saveBooks(books, 'enrich-book-metadata')
+
+    console.log(`\n✅ Added metadata to ${enriched} books (${targets.length - enriched} not found)`)
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const enricher = new BookMetadataEnricher(process.argv.includes('--all'))
+  enricher.run().catch(error => {
+    console.error('❌ Enrichment failed:', error)
+    process.exit(1)
+  })
+}
+
+export { BookMetadataEnricher }
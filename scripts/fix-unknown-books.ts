@@ -9,26 +9,18 @@ import 'dotenv/config'
 import * as cheerio from 'cheerio'
 import * as fs from 'fs/promises'
 import * as path from 'path'
+import { assertValidBooks, type Book } from '../lib/book-schema.js'
+import { saveBooks } from '../lib/book-store.js'
+import { isOverridden, loadBookOverrides } from '../lib/book-overrides.js'
 
-interface Book {
-  id: string
+interface AmazonMetadata {
   title: string
   author: string
-  coverUrl: string
-  amazonUrl: string
-  category: string
-  episodeRef: {
-    name: string
-    seasonNumber: number
-    episodeNumber: number
-  }
-  addedAt?: string
-  source?: string
 }
 
-interface AmazonMetadata {
-  title: string
-  author: string
+export interface FixUnknownResult {
+  fixed: Array<{ id: string; title: string; author: string }>
+  unresolved: string[]             // ids still unknown after the Amazon scrape
 }
 
 class UnknownBookFixer {
@@ -38,31 +30,33 @@ class UnknownBookFixer {
     this.booksFile = path.join(process.cwd(), 'public', 'data', 'books.json')
   }
 
-  async run(): Promise<void> {
+  async run(): Promise<FixUnknownResult> {
     console.log('🔍 Finding books with unknown metadata...\n')
 
     try {
       // Load books
       const books: Book[] = JSON.parse(await fs.readFile(this.booksFile, 'utf-8'))
 
-      // Find books with unknown metadata
+      // Find books with unknown metadata, leaving hand-corrected ones alone
+      const overrides = loadBookOverrides()
       const unknownBooks = books.filter(
         book =>
-          book.title.includes('Unknown') ||
-          book.author.includes('Unknown') ||
-          book.title.length < 5
+          (book.title.includes('Unknown') ||
+            book.author.includes('Unknown') ||
+            book.title.length < 5) &&
+          !(isOverridden(book, 'title', overrides) && isOverridden(book, 'author', overrides))
       )
 
       if (unknownBooks.length === 0) {
         console.log('✅ No books with unknown metadata found!')
-        return
+        return { fixed: [], unresolved: [] }
       }
 
       console.log(`Found ${unknownBooks.length} books with unknown metadata:\n`)
       unknownBooks.forEach((book, i) => {
         console.log(`${i + 1}. "${book.title}" by ${book.author}`)
         console.log(`   Amazon URL: ${book.amazonUrl}`)
-        console.log(`   Episode: ${book.episodeRef.name}\n`)
+        console.log(`   Episode: ${book.episodeRefs.map(ref => ref.name).join(', ')}\n`)
       })
 
       console.log('🔧 Fetching metadata from Amazon...\n')
@@ -84,9 +78,13 @@ class UnknownBookFixer {
         }
       }
 
+      const result: FixUnknownResult = {
+        fixed: fixes.map(({ book, newMetadata }) => ({ id: book.id, ...newMetadata })),
+        unresolved: unknownBooks.filter(book => !fixes.some(fix => fix.book === book)).map(book => book.id)
+      }
       if (fixes.length === 0) {
         console.log('\n⚠️  No fixes could be made')
-        return
+        return result
       }
 
       // Apply fixes
@@ -105,7 +103,8 @@ class UnknownBookFixer {
       })
 
       // Write updated books
-      await fs.writeFile(this.booksFile, JSON.stringify(updatedBooks, null, 2))
+      assertValidBooks(updatedBooks)
+      await saveBooks(updatedBooks, 'fix-unknown-books')
 
       console.log('\n' + '='.repeat(70))
       console.log('🎉 Fix Complete!')
@@ -115,9 +114,10 @@ class UnknownBookFixer {
         console.log(`  "${book.title}" → "${newMetadata.title}"`)
         console.log(`  ${book.author} → ${newMetadata.author}\n`)
       })
+      return result
     } catch (error) {
       console.error('❌ Error:', error)
-      process.exit(1)
+      throw error
     }
   }
 
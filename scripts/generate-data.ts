@@ -1,4 +1,9 @@
 import { getBatchBookMetadata } from '../lib/openLibrary.js'
+import { mergeBooksIntoShelf } from '../lib/episode-refs.js'
+import { assertValidBooks } from '../lib/book-schema.js'
+import { saveBooks } from '../lib/book-store.js'
+import { classifyBook, toCategoryFields } from '../lib/categories.js'
+import { loadCategoryOverrides } from '../lib/category-overrides.js'
 import { promises as fs } from 'fs'
 import path from 'path'
 import { fileURLToPath, pathToFileURL } from 'url'
@@ -74,6 +79,7 @@ async function generateData() {
     )
 
     // Combine data
+    const categoryOverrides = loadCategoryOverrides()
     const books = booksMetadata
       .map((metadata, index) => {
         if (!metadata) return null
@@ -88,8 +94,8 @@ async function generateData() {
           author: metadata.author,
           coverUrl: metadata.coverUrl || '/placeholder.svg',
           amazonUrl: url,
-          category: metadata.subjects?.[0] || 'Uncategorized',
-          episodeRef: episode
+          ...toCategoryFields(classifyBook(metadata, categoryOverrides[id])),
+          episodeRefs: [episode]
         }
 
         // Check for manual cover
@@ -104,8 +110,8 @@ async function generateData() {
       })
       .filter((book): book is NonNullable<typeof book> => book !== null)
 
-    // Deduplicate books based on their ID
-    const uniqueBooks = Array.from(new Map(books.map(book => [book.id, book])).values())
+    // Deduplicate books based on their ID, keeping every episode that cited them
+    const { books: uniqueBooks } = mergeBooksIntoShelf([], books)
 
     // Generate stats
     const stats = {
@@ -116,11 +122,12 @@ async function generateData() {
     }
 
     // Save files
+    assertValidBooks(uniqueBooks)
     await ensureDirectoryExists(OUTPUT_PATHS.BOOKS_JSON);
     await ensureDirectoryExists(OUTPUT_PATHS.STATS_JSON);
 
     await Promise.all([
-      fs.writeFile(OUTPUT_PATHS.BOOKS_JSON, JSON.stringify(uniqueBooks, null, 2)),
+      saveBooks(uniqueBooks, 'generate-data', { filePath: OUTPUT_PATHS.BOOKS_JSON }),
       fs.writeFile(OUTPUT_PATHS.STATS_JSON, JSON.stringify(stats, null, 2))
     ]);
 
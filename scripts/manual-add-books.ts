@@ -2,72 +2,99 @@
 
 /**
  * Manually add books to the database
- * Usage: tsx scripts/manual-add-books.ts
+ *
+ * Usage:
+ *   npm run bookshelf -- add <amazonUrl...> --episode <slug>
+ *   tsx scripts/manual-add-books.ts <amazonUrl...> --episode <slug>
  */
 
 import 'dotenv/config'
-import { getBatchBookMetadata } from '../lib/openLibrary.js'
+import { getBatchBookMetadata, toBookMetadataFields, toWorkId } from '../lib/openLibrary.js'
+import { classifyBook, toCategoryFields } from '../lib/categories.js'
+import { loadCategoryOverrides } from '../lib/category-overrides.js'
+import { RuleEngine } from '../lib/book-rules.js'
+import { screenAmazonLinks } from '../lib/product-type.js'
+import { enqueueForReview, isStagedReview, loadRejections, partitionForReview } from '../lib/review-queue.js'
 import { createR2UploaderFromEnv } from '../lib/r2-uploader.js'
-import * as fs from 'fs/promises'
-import * as path from 'path'
-
-interface Book {
-  id: string
-  title: string
-  author: string
-  coverUrl: string
-  amazonUrl: string
-  category: string
-  episodeRef: {
-    name: string
-    seasonNumber: number
-    episodeNumber: number
-  }
-  addedAt: string
-  source: 'manual'
+import { mergeBooksIntoShelf } from '../lib/episode-refs.js'
+import { episodePageUrl, episodeSlugFromUrl, extractEpisodeInfo } from '../lib/episode-page-parser.js'
+import { URLValidator } from '../lib/url-validator.js'
+import {
+  assertValidBooks,
+  extractAsin,
+  formatBookIssues,
+  validateBooks,
+  type Book,
+  type EpisodeRef
+} from '../lib/book-schema.js'
+import { loadBooks, saveBooks } from '../lib/book-store.js'
+import { parseArgs, stringFlag, UsageError } from '../lib/cli.js'
+import * as cheerio from 'cheerio'
+
+export interface AddBooksResult {
+  episode: EpisodeRef
+  added: string[]                  // book ids new to the shelf
+  cited: string[]                  // book ids already on the shelf that gained the episode
+  held: string[]                   // held for review
+  rejected: string[]               // previously rejected in review
+  notAdded: string[]               // Amazon URLs blocked by a book rule or with no metadata found
 }
 
-const BOOKS_TO_ADD = [
-  {
-    amazonUrl: 'https://www.amazon.com/Becoming-Trader-Joe-Business-Still/dp/1400225434',
-    asin: '1400225434'
-  },
-  {
-    amazonUrl: 'https://www.amazon.com/Build-Brand-Like-Trader-Joes/dp/0979167337',
-    asin: '0979167337'
-  },
-  {
-    amazonUrl: 'https://www.amazon.com/Secret-Life-Groceries-American-Supermarket-ebook/dp/B083RZFYZC',
-    asin: 'B083RZFYZC'
-  }
-]
-
-const EPISODE_INFO = {
-  name: "Trader Joe's",
-  seasonNumber: 2025,
-  episodeNumber: 11
+/**
+ * The episode reference for a slug or episode URL: the one already on the
+ * shelf when a book cites it, otherwise read from the episode page.
+ */
+export async function resolveEpisode(slugOrUrl: string, books: Book[]): Promise<EpisodeRef> {
+  const url = episodePageUrl(slugOrUrl)
+  const slug = episodeSlugFromUrl(url)
+  const known = books.flatMap(book => book.episodeRefs).find(ref => ref.slug === slug)
+  if (known) return known
+
+  const urlValidator = new URLValidator()
+  const validation = urlValidator.validateUrl(url)
+  if (!validation.isValid) throw new UsageError(`Invalid episode URL: ${validation.error}`)
+  const response = await urlValidator.safeFetch(validation.sanitizedUrl!)
+  if (!response.ok) throw new Error(`Episode "${slug}" is not on the shelf and its page returned HTTP ${response.status}`)
+  return extractEpisodeInfo(url, cheerio.load(await response.text()))
 }
 
-async function main() {
-  console.log('📚 Manually adding books for Trader Joe\'s episode...\n')
+/**
+ * Add hand-picked Amazon links to the shelf as books cited by `episode`.
+ */
+export async function addBooks(amazonUrls: string[], episode: EpisodeRef): Promise<AddBooksResult> {
+  const result: AddBooksResult = { episode, added: [], cited: [], held: [], rejected: [], notAdded: [] }
+  const invalid = amazonUrls.filter(amazonUrl => !extractAsin(amazonUrl))
+  if (invalid.length > 0) throw new UsageError(`Not an Amazon product URL: ${invalid.join(', ')}`)
+
+  console.log(`📚 Manually adding books for ${episode.name}...\n`)
 
   // Initialize R2 uploader
   const r2Uploader = createR2UploaderFromEnv()
 
+  // Book rules apply to hand-picked links too — an allow rule is the way to force one through
+  const rules = new RuleEngine()
+  const { allowed } = await screenAmazonLinks(amazonUrls, rules, episode)
+  const booksToAdd = amazonUrls
+    .filter(amazonUrl => allowed.includes(amazonUrl))
+    .map(amazonUrl => ({ amazonUrl, asin: extractAsin(amazonUrl)! }))
+  result.notAdded.push(...amazonUrls.filter(amazonUrl => !allowed.includes(amazonUrl)))
+
   // Get metadata for all books
   console.log('🔍 Fetching metadata from Open Library...')
-  const amazonUrls = BOOKS_TO_ADD.map(b => b.amazonUrl)
-  const metadataResults = await getBatchBookMetadata(amazonUrls)
+  const metadataResults = await getBatchBookMetadata(booksToAdd.map(b => b.amazonUrl))
 
   const books: Book[] = []
+  const categoryOverrides = loadCategoryOverrides()
+  const matchSignals: Record<string, string[]> = {}
 
   // Process each book
-  for (let i = 0; i < BOOKS_TO_ADD.length; i++) {
-    const { amazonUrl, asin } = BOOKS_TO_ADD[i]
+  for (let i = 0; i < booksToAdd.length; i++) {
+    const { amazonUrl, asin } = booksToAdd[i]
     const metadata = metadataResults[i]
 
     if (!metadata) {
       console.log(`❌ Could not find metadata for ${amazonUrl}`)
+      result.notAdded.push(amazonUrl)
       continue
     }
 
@@ -88,51 +115,94 @@ async function main() {
       }
     }
 
+    matchSignals[asin] = metadata.matchSignals ?? []
     const book: Book = {
       id: asin,
       title: metadata.title,
       author: metadata.author,
       coverUrl,
       amazonUrl,
-      category: 'Business',
-      episodeRef: EPISODE_INFO,
+      ...toCategoryFields(classifyBook(metadata, categoryOverrides[asin])),
+      episodeRefs: [episode],
+      metadata: toBookMetadataFields(metadata),
+      workId: toWorkId(metadata),
       addedAt: new Date().toISOString(),
       source: 'manual'
     }
 
-    books.push(book)
+    if (rules.check({ amazonUrl, asin, title: book.title, author: book.author, episode })) {
+      books.push(book)
+    } else {
+      result.notAdded.push(amazonUrl)
+    }
   }
 
-  if (books.length === 0) {
+  console.log(`\n🧾 ${rules.formatReport()}`)
+
+  const { books: validBooks, issues } = validateBooks(books)
+  if (issues.length > 0) {
+    console.log(`\n⚠️  Rejected ${books.length - validBooks.length} malformed books:\n${formatBookIssues(issues)}`)
+  }
+
+  if (validBooks.length === 0) {
     console.log('\n❌ No books to add')
-    return
+    return result
   }
 
-  // Read existing books
-  const dataDir = path.join(process.cwd(), 'public', 'data')
-  const booksFile = path.join(dataDir, 'books.json')
+  const existingBooks = await loadBooks()
 
-  let existingBooks: Book[] = []
-  try {
-    const data = await fs.readFile(booksFile, 'utf-8')
-    existingBooks = JSON.parse(data)
-  } catch (error) {
-    console.log('No existing books file found')
+  // Uncertain matches (or, with --staged, every new book) wait in the review queue instead of going live
+  const { accepted, held, rejected } = partitionForReview(existingBooks, validBooks, {
+    staged: isStagedReview(),
+    rejections: await loadRejections()
+  })
+  if (rejected.length > 0) {
+    console.log(`\n🚫 Skipped ${rejected.length} books previously rejected in review`)
+  }
+  if (held.length > 0) {
+    await enqueueForReview(held, matchSignals)
+    console.log(`\n🔍 Held ${held.length} new books for review in data/review-queue.json`)
+    held.forEach(book => {
+      console.log(`  ? "${book.title}" (${book.amazonUrl}) — match confidence ${book.metadata?.matchConfidence ?? 'n/a'}`)
+    })
   }
 
-  // Add new books at the beginning
-  const allBooks = [...books, ...existingBooks]
+  // New books go at the beginning; books already on the shelf gain this episode instead
+  const { books: merged, added, cited } = mergeBooksIntoShelf(existingBooks, accepted)
+  const allBooks = [...added, ...merged.filter(book => !added.includes(book))]
 
   // Write updated file
-  await fs.writeFile(booksFile, JSON.stringify(allBooks, null, 2))
+  assertValidBooks(allBooks)
+  await saveBooks(allBooks, 'manual-add-books')
 
-  console.log(`\n✅ Added ${books.length} books to books.json`)
-  books.forEach(book => {
+  console.log(`\n✅ Added ${added.length} books to books.json`)
+  added.forEach(book => {
     console.log(`  + "${book.title}" by ${book.author}`)
   })
+  cited.forEach(({ book }) => {
+    console.log(`  ~ "${book.title}" now also cited in ${episode.name}`)
+  })
+
+  return {
+    ...result,
+    added: added.map(book => book.id),
+    cited: cited.map(({ book }) => book.id),
+    held: held.map(book => book.id),
+    rejected: rejected.map(book => book.id)
+  }
 }
 
-main().catch(error => {
-  console.error('❌ Error:', error)
-  process.exit(1)
-})
+async function main() {
+  const args = parseArgs(process.argv.slice(2), ['episode'])
+  const slug = stringFlag(args, 'episode')
+  if (!slug || args.positionals.length === 0) throw new UsageError('Usage: manual-add-books <amazonUrl...> --episode <slug>')
+
+  await addBooks(args.positionals, await resolveEpisode(slug, await loadBooks()))
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error('❌ Error:', error)
+    process.exit(1)
+  })
+}
@@ -9,24 +9,17 @@ import 'dotenv/config'
 import { createR2UploaderFromEnv } from '../lib/r2-uploader.js'
 import * as fs from 'fs/promises'
 import * as path from 'path'
-
-interface Book {
-  id: string
-  title: string
-  author: string
-  coverUrl: string
-  amazonUrl: string
-  category: string
-  episodeRef: {
-    name: string
-    seasonNumber: number
-    episodeNumber: number
-  }
-  addedAt?: string
-  source?: 'automated' | 'manual'
+import { assertValidBooks, type Book } from '../lib/book-schema.js'
+import { saveBooks } from '../lib/book-store.js'
+
+export interface CoverMigrationResult {
+  total: number
+  uploaded: number
+  skipped: number
+  failed: number
 }
 
-async function migrateCoversToR2() {
+async function migrateCoversToR2(): Promise<CoverMigrationResult> {
   console.log('🚀 Starting cover migration to R2...\n')
 
   try {
@@ -114,7 +107,8 @@ async function migrateCoversToR2() {
 
     // Write updated books.json
     console.log('\n\n📝 Writing updated books.json...')
-    await fs.writeFile(booksPath, JSON.stringify(updatedBooks, null, 2))
+    assertValidBooks(updatedBooks)
+    await saveBooks(updatedBooks, 'migrate-covers-to-r2')
 
     // Summary
     console.log('\n' + '='.repeat(60))
@@ -129,18 +123,19 @@ async function migrateCoversToR2() {
 
     if (failedCount > 0) {
       console.log('\n⚠️  Some uploads failed. Check the logs above for details.')
-      process.exit(1)
     }
-
+    return { total: books.length, uploaded: uploadedCount, skipped: skippedCount, failed: failedCount }
   } catch (error) {
     console.error('\n❌ Migration failed:', error)
-    process.exit(1)
+    throw error
   }
 }
 
 // Run migration if called directly
 if (import.meta.url === `file://${process.argv[1]}`) {
-  migrateCoversToR2().catch(error => {
+  migrateCoversToR2().then(({ failed }) => {
+    if (failed > 0) process.exit(1)
+  }).catch(error => {
     console.error('❌ Migration script failed:', error)
     process.exit(1)
   })
@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+
+/**
+ * Migrate books.json from a single `episodeRef` per book to `episodeRefs`.
+ * Records sharing an id are folded together so every citing episode is kept.
+ * Safe to re-run — already-migrated records pass through unchanged.
+ */
+
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { compareByLatestEpisode, mergeBooksIntoShelf } from '../lib/episode-refs.js'
+import { assertValidBooks, type EpisodeRef } from '../lib/book-schema.js'
+import { saveBooks } from '../lib/book-store.js'
+
+interface LegacyBook {
+  id: string
+  episodeRef?: EpisodeRef | null
+  episodeRefs?: EpisodeRef[]
+  [key: string]: unknown
+}
+
+interface MigratedBook {
+  id: string
+  episodeRefs: EpisodeRef[]
+  [key: string]: unknown
+}
+
+async function migrateEpisodeRefs() {
+  const booksPath = path.join(process.cwd(), 'public', 'data', 'books.json')
+  const books: LegacyBook[] = JSON.parse(await fs.readFile(booksPath, 'utf-8'))
+
+  console.log(`📚 Loaded ${books.length} books`)
+
+  let converted = 0
+  const normalized = books.map(book => {
+    if (book.episodeRefs) return book as MigratedBook
+    converted++
+    // Rebuild key by key so episodeRefs takes episodeRef's place in the record
+    const entries = Object.entries(book).map(([key, value]) =>
+      key === 'episodeRef' ? ['episodeRefs', value ? [value] : []] : [key, value]
+    )
+    return Object.fromEntries(entries) as MigratedBook
+  })
+
+  const { books: merged } = mergeBooksIntoShelf([], normalized)
+  merged.sort(compareByLatestEpisode)
+  await saveBooks(assertValidBooks(merged), 'migrate-episode-refs')
+
+  console.log(`✅ Converted ${converted} records to episodeRefs`)
+  console.log(`✅ Folded ${normalized.length - merged.length} duplicate records`)
+  console.log(`📝 Wrote ${merged.length} books to ${booksPath}`)
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  migrateEpisodeRefs().catch(error => {
+    console.error('❌ Migration failed:', error)
+    process.exit(1)
+  })
+}
+
+export { migrateEpisodeRefs }
@@ -8,6 +8,8 @@
 import * as fs from 'fs/promises'
 import * as path from 'path'
 import { getBookMetadata, getAmazonBookCover } from '../lib/openLibrary.js'
+import { getMetadataCache } from '../lib/metadata-cache.js'
+import { loadBookOverrides, overrideFor, type BookOverrides } from '../lib/book-overrides.js'
 
 interface CurrentBook {
   id: string
@@ -16,11 +18,11 @@ interface CurrentBook {
   coverUrl: string
   amazonUrl: string
   category: string
-  episodeRef: {
+  episodeRefs: Array<{
     name: string
     seasonNumber: number
     episodeNumber: number
-  }
+  }>
 }
 
 interface EnhancedBook {
@@ -42,11 +44,11 @@ interface EnhancedBook {
     subjects?: string[]
     olid?: string
   }
-  episodeRef: {
+  episodeRefs: Array<{
     name: string
     seasonNumber: number
     episodeNumber: number
-  }
+  }>
   addedAt: string
   source: 'manual' | 'automated'
   migrated: true
@@ -56,6 +58,7 @@ class StorageMigrator {
   private preservationReport: any
   private currentBooks: CurrentBook[] = []
   private manualCovers: any = {}
+  private overrides: BookOverrides = {}
   private enhancedBooks: EnhancedBook[] = []
 
   async migrate(): Promise<void> {
@@ -73,6 +76,9 @@ class StorageMigrator {
     
     // Perform migration
     await this.performMigration()
+    const metadataCache = getMetadataCache()
+    console.log(`💾 Metadata cache: ${metadataCache.formatStats()}`)
+    await metadataCache.save()
     
     // Verify migration results
     await this.verifyMigrationResults()
@@ -101,6 +107,9 @@ class StorageMigrator {
     // Load manual covers
     const manualCoversData = await fs.readFile('data/manual-covers.json', 'utf-8')
     this.manualCovers = JSON.parse(manualCoversData)
+
+    // Load manual overrides (data/book-overrides.json)
+    this.overrides = loadBookOverrides()
     
     console.log(`✅ Loaded ${this.currentBooks.length} books`)
     console.log(`✅ Loaded ${Object.keys(this.manualCovers).length} manual covers\n`)
@@ -120,8 +129,8 @@ class StorageMigrator {
     }
     
     // Check episodes
-    const currentEpisodes = new Set(this.currentBooks.map(book => 
-      `S${book.episodeRef.seasonNumber}E${book.episodeRef.episodeNumber}: ${book.episodeRef.name}`
+    const currentEpisodes = new Set(this.currentBooks.flatMap(book => 
+      book.episodeRefs.map(ref => `S${ref.seasonNumber}E${ref.episodeNumber}: ${ref.name}`)
     ))
     if (currentEpisodes.size !== this.preservationReport.uniqueEpisodes) {
       issues.push(`Episode count mismatch: ${currentEpisodes.size} vs ${this.preservationReport.uniqueEpisodes}`)
@@ -178,7 +187,7 @@ class StorageMigrator {
         metadata: {
           subjects: []
         },
-        episodeRef: book.episodeRef,
+        episodeRefs: book.episodeRefs,
         addedAt: new Date().toISOString(),
         source: 'manual', // Existing books are manually curated
         migrated: true
@@ -189,6 +198,9 @@ class StorageMigrator {
       
       // Try to get enhanced metadata from Open Library if possible
       await this.enhanceMetadata(book, enhancedBook)
+
+      // Hand corrections win over anything looked up above
+      this.applyOverrides(book, enhancedBook)
       
       this.enhancedBooks.push(enhancedBook)
     }
@@ -236,6 +248,23 @@ class StorageMigrator {
     console.log(`   🖼️ Cover chain: ${covers.fallbackChain.length} options`)
   }
 
+  private applyOverrides(currentBook: CurrentBook, enhancedBook: EnhancedBook): void {
+    const override = overrideFor(currentBook, this.overrides)
+    if (!override) return
+
+    enhancedBook.title = override.title ?? enhancedBook.title
+    enhancedBook.author = override.author ?? enhancedBook.author
+    enhancedBook.amazonUrl = override.amazonUrl ?? enhancedBook.amazonUrl
+
+    const cover = override.coverUrl ?? (override.locked?.includes('coverUrl') ? currentBook.coverUrl : undefined)
+    if (cover) {
+      const covers = enhancedBook.covers
+      covers.optimized = cover
+      covers.fallbackChain = [cover, ...covers.fallbackChain.filter(url => url !== cover)]
+      console.log(`   ✋ Manual override applied`)
+    }
+  }
+
   private async enhanceMetadata(currentBook: CurrentBook, enhancedBook: EnhancedBook): Promise<void> {
     try {
       // Try to get metadata from Open Library
@@ -286,11 +315,11 @@ class StorageMigrator {
     }
     
     // Check all episodes preserved
-    const originalEpisodes = new Set(this.currentBooks.map(book => 
-      `${book.episodeRef.seasonNumber}-${book.episodeRef.episodeNumber}`
+    const originalEpisodes = new Set(this.currentBooks.flatMap(book => 
+      book.episodeRefs.map(ref => `${ref.seasonNumber}-${ref.episodeNumber}`)
     ))
-    const migratedEpisodes = new Set(this.enhancedBooks.map(book => 
-      `${book.episodeRef.seasonNumber}-${book.episodeRef.episodeNumber}`
+    const migratedEpisodes = new Set(this.enhancedBooks.flatMap(book => 
+      book.episodeRefs.map(ref => `${ref.seasonNumber}-${ref.episodeNumber}`)
     ))
     if (originalEpisodes.size !== migratedEpisodes.size) {
       issues.push(`Episode count mismatch: ${originalEpisodes.size} vs ${migratedEpisodes.size}`)
@@ -350,8 +379,8 @@ class StorageMigrator {
     // Update stats
     const enhancedStats = {
       totalBooks: this.enhancedBooks.length,
-      uniqueEpisodes: new Set(this.enhancedBooks.map(book => 
-        `${book.episodeRef.seasonNumber}-${book.episodeRef.episodeNumber}`
+      uniqueEpisodes: new Set(this.enhancedBooks.flatMap(book => 
+        book.episodeRefs.map(ref => `${ref.seasonNumber}-${ref.episodeNumber}`)
       )).size,
       coverSources: {
         amazon: this.enhancedBooks.filter(b => b.covers.amazon).length,
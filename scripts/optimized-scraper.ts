@@ -12,36 +12,58 @@ import 'dotenv/config'
 import { getAllEpisodes, type Episode } from '../lib/scraper.js'
 import { EpisodeClassifier } from '../lib/episode-classifier.js'
 import { URLValidator } from '../lib/url-validator.js'
-import { getBatchBookMetadata, type BookMetadata } from '../lib/openLibrary.js'
+import { getBatchBookMetadata, toBookMetadataFields, toWorkId, type BookMetadata } from '../lib/openLibrary.js'
+import { classifyBook, toCategoryFields } from '../lib/categories.js'
+import { loadCategoryOverrides } from '../lib/category-overrides.js'
+import { RuleEngine } from '../lib/book-rules.js'
+import { loadOtherMentions, mergeOtherMentions, recordOtherMentions, type OtherMention } from '../lib/other-mentions.js'
+import { screenAmazonLinks } from '../lib/product-type.js'
+import { loadProcessedEpisodes, recordProcessedEpisodes } from '../lib/processed-episodes.js'
+import {
+  formatRunReport,
+  RunRecorder,
+  saveRunReport,
+  type CoverOutcome,
+  type EpisodeReport,
+  type RunReport,
+  type RunStatus
+} from '../lib/run-report.js'
+import { diffShelves, formatShelfDiff, type ShelfDiff } from '../lib/shelf-diff.js'
+import { BOOKS_DATA_PATH, createPublisherFromEnv, type Publisher } from '../lib/publisher.js'
+import { enqueueForReview, isStagedReview, loadRejections, partitionForReview } from '../lib/review-queue.js'
 import { createR2UploaderFromEnv, type R2Uploader } from '../lib/r2-uploader.js'
 import { createDiscordNotifierFromEnv, type DiscordNotifier } from '../lib/discord-notifier.js'
 import { extractAmazonLinksFromEpisodePage, extractEpisodeTitle, parseSeasonEpisodeHint } from '../lib/episode-page-parser.js'
 import { toTitleCase, normalizeAuthor } from '../lib/title-case.js'
+import {
+  compareByLatestEpisode,
+  latestEpisodeRef,
+  mergeBooksIntoShelf,
+  type EpisodeRef
+} from '../lib/episode-refs.js'
+import {
+  assertValidBooks,
+  extractAsin,
+  formatBookIssues,
+  validateBooks,
+  type Book
+} from '../lib/book-schema.js'
+import { saveBooks } from '../lib/book-store.js'
+import { applyBookOverrides, loadBookOverrides } from '../lib/book-overrides.js'
 import * as cheerio from 'cheerio'
+import { execFile } from 'child_process'
 import * as fs from 'fs/promises'
 import * as path from 'path'
+import { promisify } from 'util'
 import pRetry from 'p-retry'
 
-interface Book {
-  id: string
-  title: string
-  author: string
-  coverUrl: string
-  amazonUrl: string
-  category: string
-  episodeRef: {
-    name: string
-    seasonNumber: number
-    episodeNumber: number
-    slug?: string
-  }
-  addedAt: string
-  source: 'automated'
-}
-
 const CANARY_EPISODE_URL = 'https://www.acquired.fm/episodes/ferrari'
 const MIN_CANARY_AMAZON_LINKS = 1
 
+// Data files a run may change; committed together when it does, along with
+// that run's report (the host's disk doesn't outlive the run)
+const PUBLISHED_PATHS = [BOOKS_DATA_PATH, 'public/data/other-mentions.json', 'data/review-queue.json', 'data/audit-log.jsonl', 'data/processed-episodes.json']
+
 function slugify(value: string): string {
   return value
     .toLowerCase()
@@ -50,6 +72,33 @@ function slugify(value: string): string {
     .replace(/^-+|-+$/g, '')
 }
 
+/**
+ * Dry run: discover, parse and enrich as usual, but write nothing to the shelf
+ * data, upload no covers, notify no one and print what would have changed.
+ */
+function isDryRun(): boolean {
+  return process.env.DRY_RUN === 'true' || process.argv.includes('--dry-run')
+}
+
+/**
+ * What a run did to the shelf: new books, books already on it that gained an
+ * episode reference, and the books not written.
+ */
+interface ShelfUpdate {
+  books: Book[]
+  added: Book[]
+  cited: Array<{ book: Book; refs: EpisodeRef[] }>
+  held: Book[]
+  rejected: Book[]
+}
+
+export interface DryRunResult {
+  runId: string
+  diff: ShelfDiff
+  heldForReview: Array<Pick<Book, 'id' | 'title' | 'author' | 'amazonUrl'>>
+  otherMentions: number
+}
+
 class OptimizedScraper {
   private classifier: EpisodeClassifier
   private urlValidator: URLValidator
@@ -57,52 +106,91 @@ class OptimizedScraper {
   private discord: DiscordNotifier | null
   private dataDir: string
   private booksFile: string
-  private gitPushEnabled: boolean
-
-  constructor() {
+  private matchSignals: Record<string, string[]> = {}
+  private rules = new RuleEngine()
+  private otherMentions: OtherMention[] = []
+  private screenedEpisodes: string[] = []
+  private recorder = new RunRecorder()
+  private dryRunResult: DryRunResult | null = null
+  private reportFile: string | null = null
+
+  constructor(private readonly dryRun: boolean = isDryRun()) {
     this.classifier = new EpisodeClassifier()
     this.urlValidator = new URLValidator()
 
-    try {
-      this.r2Uploader = createR2UploaderFromEnv()
-      console.log('R2 uploader initialized')
-    } catch {
-      console.log('R2 credentials not found, will use external URLs for covers')
+    if (dryRun) {
+      console.log('Dry run: nothing will be written, uploaded, notified or pushed')
       this.r2Uploader = null
+    } else {
+      try {
+        this.r2Uploader = createR2UploaderFromEnv()
+        console.log('R2 uploader initialized')
+      } catch {
+        console.log('R2 credentials not found, will use external URLs for covers')
+        this.r2Uploader = null
+      }
     }
 
-    this.discord = createDiscordNotifierFromEnv()
+    this.discord = dryRun ? null : createDiscordNotifierFromEnv()
+    this.recorder.report.dryRun = dryRun
 
     this.dataDir = path.join(process.cwd(), 'public', 'data')
     this.booksFile = path.join(this.dataDir, 'books.json')
-    this.gitPushEnabled = process.env.GIT_PUSH !== 'false'
+  }
+
+  /**
+   * The run report, and in a dry run what would have changed — read after
+   * run() by callers such as the bookshelf CLI.
+   */
+  get result(): { report: RunReport; dryRun: DryRunResult | null } {
+    return { report: this.recorder.report, dryRun: this.dryRunResult }
   }
 
   async run(): Promise<void> {
     console.log('Starting optimized scraper...')
+    let status: RunStatus = 'success'
 
     try {
-      await this.runCanary()
+      // Built here so a bad PUBLISH_MODE or missing forge credentials fail the run
+      // through the error path below, Discord included
+      const publisher = this.dryRun || process.env.GIT_PUSH === 'false' ? null : createPublisherFromEnv()
+
+      await this.recorder.time('canary', () => this.runCanary())
 
       console.log('\nPhase 1: Discovering episodes')
-      const allEpisodes = await getAllEpisodes(true)
+      const allEpisodes = await this.recorder.time('discovery', () => getAllEpisodes(true))
+      this.recorder.discovered(allEpisodes)
       console.log(`Found ${allEpisodes.length} total episodes`)
 
       console.log('\nPhase 2: Finding unprocessed episodes')
       const existingBooks = await this.loadExistingBooks()
-      const processedSlugs = this.buildProcessedSlugSet(existingBooks)
+      const processedSlugs = this.buildProcessedSlugSet(existingBooks, await loadProcessedEpisodes())
       const latestSeason = existingBooks.reduce(
-        (max, book) => Math.max(max, book.episodeRef.seasonNumber), 0
+        (max, book) => Math.max(max, latestEpisodeRef(book.episodeRefs)?.seasonNumber ?? 0), 0
       )
       const minSeason = Math.max(latestSeason - 1, 0)
       console.log(`  Latest season with books: ${latestSeason}, processing from season ${minSeason}+`)
 
+      const { report } = this.recorder
       const unprocessedEpisodes = allEpisodes.filter(episode => {
-        if (episode.seasonNumber === undefined || episode.seasonNumber < minSeason) return false
-        if (processedSlugs.has(episode.slug)) return false
+        if (episode.seasonNumber === undefined || episode.seasonNumber < minSeason) {
+          report.beforeMinSeason++
+          return false
+        }
+        if (processedSlugs.has(episode.slug)) {
+          report.alreadyProcessed++
+          return false
+        }
         const classification = this.classifier.classify(episode.name)
         if (classification.shouldSkip) {
           console.log(`  Skipping ${classification.type}: ${episode.name}`)
+          report.skipped.push({
+            slug: episode.slug,
+            name: episode.name,
+            type: classification.type,
+            confidence: classification.confidence,
+            reasoning: classification.reasoning
+          })
           return false
         }
         return true
@@ -110,6 +198,7 @@ class OptimizedScraper {
 
       if (unprocessedEpisodes.length === 0) {
         console.log('No new episodes to process.')
+        status = 'no-new-episodes'
         await this.discord?.notifyNoNewBooks()
         return
       }
@@ -123,7 +212,7 @@ class OptimizedScraper {
       const allNewBooks: Book[] = []
 
       for (const episode of unprocessedEpisodes) {
-        const books = await this.processEpisode(episode)
+        const books = await this.recorder.time('episodes', () => this.processEpisode(episode))
         if (books.length > 0) {
           allNewBooks.push(...books)
           console.log(`  ✓ ${episode.name}: ${books.length} books`)
@@ -131,22 +220,56 @@ class OptimizedScraper {
           console.log(`  – ${episode.name}: no books found`)
         }
       }
+      console.log(`\n${this.rules.formatReport()}`)
+
+      const newMentions = this.dryRun
+        ? mergeOtherMentions(await loadOtherMentions(), this.otherMentions)
+        : await recordOtherMentions(this.otherMentions)
+      report.otherMentions = newMentions
+      if (newMentions > 0 && !this.dryRun) console.log(`Recorded ${newMentions} non-book products in public/data/other-mentions.json`)
+
+      const { books: shelf, added, cited, held, rejected }: ShelfUpdate = allNewBooks.length > 0
+        ? await this.recorder.time('database', () => this.updateBooksDatabase(allNewBooks))
+        : { books: existingBooks, added: [], cited: [], held: [], rejected: [] }
+      report.books.held = held.map(book => book.id)
+      report.books.rejected = rejected.map(book => book.id)
+
+      if (this.dryRun) {
+        await this.printDryRun(diffShelves(existingBooks, shelf), held, newMentions)
+        return
+      }
+
+      // Recorded once the shelf and review queue are written, so a failed write leaves the episodes to retry
+      const newlyProcessed = await recordProcessedEpisodes(this.screenedEpisodes)
 
       if (allNewBooks.length > 0) {
-        await this.updateBooksDatabase(allNewBooks)
-        console.log(`\nSuccessfully added ${allNewBooks.length} new books!`)
+        const heldNote = [
+          held.length > 0 ? `${held.length} held for review` : '',
+          rejected.length > 0 ? `${rejected.length} previously rejected` : ''
+        ].filter(Boolean).join(', ')
+        console.log(`\nSuccessfully processed ${added.length} new books and ${cited.length} new citations${heldNote ? ` (${heldNote})` : ''}!`)
 
         if (this.discord) {
-          const booksForDiscord = allNewBooks.map(book => ({
+          // Announce the written copies, which carry the manual overrides
+          const shelfById = new Map(shelf.map(book => [book.id, book]))
+          const newBooks = added.map(book => shelfById.get(book.id) ?? book)
+          await this.discord.notifyBooksAdded(newBooks.map(book => ({
+            title: book.title,
+            author: book.author,
+            episode: book.episodeRefs[0].name,
+            coverUrl: book.coverUrl,
+            amazonUrl: book.amazonUrl
+          })))
+          // Re-citations are reported apart, so they aren't announced as new books
+          await this.discord.notifyBooksCited(cited.map(({ book, refs }) => ({
             title: book.title,
             author: book.author,
-            episode: book.episodeRef.name,
+            episode: refs.map(ref => ref.name).join(', '),
             coverUrl: book.coverUrl,
             amazonUrl: book.amazonUrl
-          }))
-          await this.discord.notifyBooksAdded(booksForDiscord)
+          })))
 
-          const unknownBooks = allNewBooks.filter(
+          const unknownBooks = newBooks.filter(
             book => book.title.includes('Unknown') || book.author.includes('Unknown')
           )
           if (unknownBooks.length > 0) {
@@ -154,33 +277,87 @@ class OptimizedScraper {
               title: book.title,
               author: book.author,
               amazonUrl: book.amazonUrl,
-              episode: book.episodeRef.name
+              episode: book.episodeRefs[0].name
             }))
             await this.discord.notifyUnknownMetadata(unknownForDiscord)
           }
         }
-
-        const episodeTitles = [...new Set(allNewBooks.map(book => book.episodeRef.name))]
-        if (this.gitPushEnabled) {
-          await this.gitCommitAndPush(episodeTitles)
-        } else {
-          console.log('\n[dry-run] GIT_PUSH=false — skipping git commit and push')
-        }
       } else {
         console.log('\nNo new books found across all episodes.')
         await this.discord?.notifyNoNewBooks()
       }
 
+      // Held books, other mentions and screened episodes still change data files, which have to be pushed to survive the cron
+      if (allNewBooks.length > 0 || newMentions > 0 || newlyProcessed > 0) {
+        const citations = [...allNewBooks, ...this.otherMentions]
+        const episodeTitles = [...new Set(citations.map(citation => citation.episodeRefs[0].name))]
+        if (publisher) {
+          // Not timed: the report is finished and committed before the push
+          await this.publish(publisher, episodeTitles, existingBooks, shelf)
+        } else {
+          console.log('\nGIT_PUSH=false — skipping git commit and push')
+        }
+      }
+
       console.log('Optimized scraper completed successfully')
 
     } catch (error) {
+      status = 'failed'
+      this.recorder.error('run', error)
       console.error('Error in optimized scraper:', error)
       await this.discord?.notifyError(
         error instanceof Error ? error.message : String(error),
         'Main scraper execution'
       )
       throw error
+    } finally {
+      this.printRunReport(status)
+    }
+  }
+
+  /**
+   * The dry-run result: a readable diff against the current books.json, or with
+   * --json (--json=<file> to write it to a file) the same as JSON for CI.
+   */
+  private async printDryRun(diff: ShelfDiff, held: Book[], otherMentions: number): Promise<void> {
+    const result: DryRunResult = {
+      runId: this.recorder.report.id,
+      diff,
+      heldForReview: held.map(({ id, title, author, amazonUrl }) => ({ id, title, author, amazonUrl })),
+      otherMentions
+    }
+    this.dryRunResult = result
+
+    const jsonArg = process.argv.find(arg => arg === '--json' || arg.startsWith('--json='))
+    if (jsonArg) {
+      const json = JSON.stringify(result, null, 2)
+      const outFile = jsonArg.split('=')[1]
+      if (outFile) {
+        await fs.writeFile(outFile, json)
+        console.log(`\n[dry-run] Diff written to ${outFile}`)
+      } else {
+        console.log(json)
+      }
+      return
+    }
+
+    console.log(`\n[dry-run] ${formatShelfDiff(diff)}`)
+    if (held.length > 0) {
+      console.log(`\nWould hold ${held.length} books for review:`)
+      held.forEach(book => console.log(`  ? ${book.id}  "${book.title}" by ${book.author}`))
     }
+    if (otherMentions > 0) console.log(`\nWould record ${otherMentions} non-book products in public/data/other-mentions.json`)
+  }
+
+  /**
+   * Print the run report. Only a run that publishes keeps it: publish() saves the
+   * finished report and commits it with the data, so it isn't touched again here.
+   */
+  private printRunReport(status: RunStatus): void {
+    const committed = this.reportFile !== null && status === 'success'
+    const report = committed ? this.recorder.report : this.recorder.finish(status)
+    console.log(`\n${formatRunReport(report)}`)
+    if (committed) console.log(`\nRun report committed as ${this.reportFile}`)
   }
 
   /**
@@ -189,6 +366,7 @@ class OptimizedScraper {
    */
   private async runCanary(): Promise<void> {
     console.log(`Canary: checking ${CANARY_EPISODE_URL}`)
+    let amazonLinks = 0
     try {
       const response = await this.urlValidator.safeFetch(CANARY_EPISODE_URL)
       if (!response.ok) {
@@ -197,14 +375,17 @@ class OptimizedScraper {
       const html = await response.text()
       const $ = cheerio.load(html)
       const links = extractAmazonLinksFromEpisodePage($, this.urlValidator)
+      amazonLinks = links.length
       if (links.length < MIN_CANARY_AMAZON_LINKS) {
         throw new Error(
           `Canary selector drift: expected >= ${MIN_CANARY_AMAZON_LINKS} Amazon links on ferrari episode, got ${links.length}`
         )
       }
       console.log(`  ✓ Canary OK (${links.length} Amazon links found on ferrari episode)`)
+      this.recorder.report.canary = { ok: true, amazonLinks }
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error)
+      this.recorder.report.canary = { ok: false, amazonLinks, error: msg }
       console.error(`  ✗ Canary failed: ${msg}`)
       await this.discord?.notifyError(
         msg,
@@ -223,54 +404,88 @@ class OptimizedScraper {
     }
   }
 
-  private buildProcessedSlugSet(books: Book[]): Set<string> {
-    const slugs = new Set<string>()
+  private buildProcessedSlugSet(books: Book[], processedEpisodes: string[]): Set<string> {
+    const slugs = new Set<string>(processedEpisodes)
     for (const book of books) {
-      if (book.episodeRef.slug) slugs.add(book.episodeRef.slug)
-      slugs.add(slugify(book.episodeRef.name))
+      for (const ref of book.episodeRefs) {
+        if (ref.slug) slugs.add(ref.slug)
+        slugs.add(slugify(ref.name))
+      }
     }
     return slugs
   }
 
   private async processEpisode(episode: Episode): Promise<Book[]> {
     console.log(`\nProcessing: ${episode.name} (S${episode.seasonNumber ?? '?'}E${episode.episodeNumber ?? '?'})`)
+    const entry = this.recorder.episode(episode.slug, episode.name)
+    const rejectionsBefore = this.rules.rejections.length
+    const started = Date.now()
 
     try {
-      const $ = await this.fetchEpisodePage(episode.sourceUrl)
-      if (!$) return []
-
-      const titleFromPage = extractEpisodeTitle($)
-      const refinedName = titleFromPage && titleFromPage.length > 1 ? titleFromPage : episode.name
-      if (titleFromPage && titleFromPage !== episode.name) {
-        console.log(`  Title from page: "${titleFromPage}" (was "${episode.name}")`)
+      const books = await this.extractEpisodeBooks(episode, entry)
+      entry.books = books.map(book => book.id)
+      // Every link screened: its books end up on the shelf or in the review queue, or the rules blocked them all
+      if (books.length > 0 || (entry.linksFound > 0 && entry.linksAllowed === 0)) {
+        this.screenedEpisodes.push(episode.slug)
       }
-
-      const hint = parseSeasonEpisodeHint($)
-      const seasonNumber =
-        hint?.seasonNumber ??
-        episode.seasonNumber ??
-        (episode.lastmod ? new Date(episode.lastmod).getUTCFullYear() : new Date().getUTCFullYear())
-      const episodeNumber = hint?.episodeNumber ?? episode.episodeNumber ?? 0
-
-      const amazonLinks = extractAmazonLinksFromEpisodePage($, this.urlValidator)
-      if (amazonLinks.length === 0) {
-        console.log('  No Amazon book links found under Links section')
-        return []
-      }
-      console.log(`  Found ${amazonLinks.length} Amazon book links`)
-
-      const bookMetadata = await this.getBooksMetadata(amazonLinks)
-      const refinedEpisode: Episode = {
-        ...episode,
-        name: refinedName,
-        seasonNumber,
-        episodeNumber
-      }
-      return this.createBookObjects(bookMetadata, amazonLinks, refinedEpisode)
+      return books
     } catch (error) {
       console.error(`  Error processing ${episode.name}:`, error)
+      entry.error = error instanceof Error ? error.message : String(error)
+      this.recorder.error(`episode ${episode.slug}`, error)
+      return []
+    } finally {
+      entry.rejected = this.rules.rejections.slice(rejectionsBefore)
+      entry.durationMs = Date.now() - started
+    }
+  }
+
+  private async extractEpisodeBooks(episode: Episode, entry: EpisodeReport): Promise<Book[]> {
+    const $ = await this.fetchEpisodePage(episode.sourceUrl)
+    if (!$) {
+      entry.error = 'episode page could not be fetched'
+      return []
+    }
+
+    const titleFromPage = extractEpisodeTitle($)
+    const refinedName = titleFromPage && titleFromPage.length > 1 ? titleFromPage : episode.name
+    if (titleFromPage && titleFromPage !== episode.name) {
+      console.log(`  Title from page: "${titleFromPage}" (was "${episode.name}")`)
+    }
+
+    const hint = parseSeasonEpisodeHint($)
+    const seasonNumber =
+      hint?.seasonNumber ??
+      episode.seasonNumber ??
+      (episode.lastmod ? new Date(episode.lastmod).getUTCFullYear() : new Date().getUTCFullYear())
+    const episodeNumber = hint?.episodeNumber ?? episode.episodeNumber ?? 0
+
+    const amazonLinks = extractAmazonLinksFromEpisodePage($, this.urlValidator)
+    if (amazonLinks.length === 0) {
+      console.log('  No Amazon book links found under Links section')
       return []
     }
+    entry.linksFound = amazonLinks.length
+    console.log(`  Found ${amazonLinks.length} Amazon book links`)
+
+    const refinedEpisode: Episode = {
+      ...episode,
+      name: refinedName,
+      seasonNumber,
+      episodeNumber
+    }
+    const { allowed: allowedLinks, otherMentions } = await screenAmazonLinks(amazonLinks, this.rules, {
+      name: refinedName,
+      seasonNumber,
+      episodeNumber,
+      slug: episode.slug
+    })
+    this.otherMentions.push(...otherMentions)
+    entry.linksAllowed = allowedLinks.length
+    if (allowedLinks.length === 0) return []
+
+    const bookMetadata = await this.getBooksMetadata(allowedLinks, entry)
+    return this.createBookObjects(bookMetadata, allowedLinks, refinedEpisode)
   }
 
   private async fetchEpisodePage(url: string): Promise<cheerio.CheerioAPI | null> {
@@ -296,13 +511,16 @@ class OptimizedScraper {
     }
   }
 
-  private async getBooksMetadata(amazonUrls: string[]): Promise<(BookMetadata | null)[]> {
+  private async getBooksMetadata(amazonUrls: string[], entry: EpisodeReport): Promise<(BookMetadata | null)[]> {
     const validUrls = this.urlValidator.filterValidUrls(amazonUrls, true)
+    entry.validated = validUrls.length
     if (validUrls.length === 0) {
       console.log('  No valid Amazon URLs after validation')
       return []
     }
-    return getBatchBookMetadata(validUrls)
+    const metadata = await getBatchBookMetadata(validUrls)
+    entry.enriched = metadata.filter(Boolean).length
+    return metadata
   }
 
   private async createBookObjects(
@@ -311,133 +529,105 @@ class OptimizedScraper {
     episode: Episode
   ): Promise<Book[]> {
     const books: Book[] = []
+    const categoryOverrides = loadCategoryOverrides()
 
     for (let i = 0; i < amazonUrls.length; i++) {
       const metadata = bookMetadata[i]
       const amazonUrl = amazonUrls[i]
       if (!metadata) continue
 
-      const bookId = this.extractASIN(amazonUrl) || `automated-${Date.now()}-${i}`
+      const bookId = extractAsin(amazonUrl) || `automated-${Date.now()}-${i}`
       let coverUrl = metadata.coverUrl || '/covers/default-book.jpg'
+      let coverOutcome: CoverOutcome = !metadata.coverUrl ? 'default' : this.dryRun ? 'skipped' : 'external'
 
-      if (this.r2Uploader && metadata.coverUrl && !metadata.coverUrl.startsWith('/')) {
+      const uploader = this.r2Uploader
+      const sourceCover = metadata.coverUrl
+      if (uploader && sourceCover && !sourceCover.startsWith('/')) {
         console.log(`  Processing cover for: ${metadata.title}`)
-        const r2Url = await this.r2Uploader.downloadAndUpload(metadata.coverUrl, bookId, true)
+        const r2Url = await this.recorder.time('covers', () => uploader.downloadAndUpload(sourceCover, bookId, true))
         if (r2Url) {
           coverUrl = r2Url
+          coverOutcome = 'uploaded'
         } else {
-          console.log(`  R2 upload failed, using original URL: ${metadata.coverUrl}`)
+          console.log(`  R2 upload failed, using original URL: ${sourceCover}`)
+          coverOutcome = 'failed'
         }
       }
+      this.recorder.report.covers.push({ bookId, title: metadata.title, outcome: coverOutcome, url: coverUrl })
 
+      this.matchSignals[bookId] = metadata.matchSignals ?? []
       const book: Book = {
         id: bookId,
         title: toTitleCase(metadata.title),
         author: normalizeAuthor(metadata.author),
         coverUrl,
         amazonUrl,
-        category: this.categorizeBook(metadata),
-        episodeRef: {
+        ...toCategoryFields(classifyBook(metadata, categoryOverrides[bookId])),
+        episodeRefs: [{
           name: episode.name,
           seasonNumber: episode.seasonNumber ?? new Date().getUTCFullYear(),
           episodeNumber: episode.episodeNumber ?? 0,
           slug: episode.slug
-        },
+        }],
+        metadata: toBookMetadataFields(metadata),
+        workId: toWorkId(metadata),
         addedAt: new Date().toISOString(),
         source: 'automated'
       }
 
-      if (this.validateBook(book)) {
+      if (this.rules.check({ amazonUrl, asin: extractAsin(amazonUrl), title: book.title, author: book.author, episode })) {
         books.push(book)
-      } else {
-        console.log(`  Skipping invalid book: "${book.title}" (${book.amazonUrl})`)
       }
     }
 
     return books
   }
 
-  private extractASIN(amazonUrl: string): string | null {
-    const asinMatch = amazonUrl.match(/\/dp\/([A-Z0-9]{10})/) || amazonUrl.match(/\/([B][0-9A-Z]{9})/)
-    return asinMatch?.[1] || null
-  }
-
-  private categorizeBook(metadata: BookMetadata): string {
-    const subjects = metadata.subjects || []
-    const title = metadata.title.toLowerCase()
-
-    if (subjects.some(s => /business|finance|economics|management|entrepreneurship|investing|money/i.test(s)) ||
-      title.includes('business') || title.includes('finance') || title.includes('economics')) {
-      return 'Business'
-    }
-    if (subjects.some(s => /technology|computer|software|programming|digital|internet/i.test(s)) ||
-      title.includes('tech') || title.includes('computer') || title.includes('digital')) {
-      return 'Technology'
-    }
-    if (subjects.some(s => /history|historical|biography|memoir/i.test(s)) ||
-      title.includes('history') || title.includes('historical')) {
-      return 'History'
-    }
-    return 'Business'
-  }
-
-  private validateBook(book: Book): boolean {
-    if (book.title.length < 3) return false
-    if (book.title.includes('Unknown') || book.author.includes('Unknown')) return false
-    const titleBlocklist = ['Dp', 'Coca-Cola', 'The Adventures of Tom Sawyer']
-    if (titleBlocklist.includes(book.title)) return false
-    const asinBlocklist = ['B01AB7GU0A']
-    const asin = this.extractASIN(book.amazonUrl)
-    if (asin && asinBlocklist.includes(asin)) return false
-    return true
-  }
+  /**
+   * Commit the changed data files and publish them per PUBLISH_MODE. A failure,
+   * including the guard against losing books, fails the run.
+   */
+  private async publish(publisher: Publisher, episodeTitles: string[], before: Book[], after: Book[]): Promise<void> {
+    console.log(`\nPublishing changes (${publisher.mode})...`)
 
-  private async gitCommitAndPush(episodeTitles: string[]): Promise<void> {
+    console.log('  Setting up SSH...')
     try {
-      console.log('\nPushing changes to git...')
-
-      const { exec } = await import('child_process')
-      const execAsync = (cmd: string): Promise<string> =>
-        new Promise((resolve, reject) => {
-          exec(cmd, (error, stdout, stderr) => {
-            if (error) reject(new Error(stderr || error.message))
-            else resolve(stdout.trim())
-          })
-        })
-
-      const status = await execAsync('git status --porcelain public/data/books.json')
-      if (!status) {
-        console.log('  No changes to commit')
-        return
-      }
-
-      await execAsync('git add public/data/books.json')
-
-      console.log('  Setting up SSH...')
-      try {
-        const pathMod = await import('path')
-        const scriptPath = pathMod.join(process.cwd(), 'scripts', 'setup-ssh.sh')
-        const sshOutput = await execAsync(`chmod +x ${scriptPath} && ${scriptPath}`)
-        if (sshOutput) console.log(sshOutput)
-      } catch (error) {
-        console.error('  SSH setup encountered an error, attempting to proceed anyway...', error)
-      }
-
-      const episodeList = episodeTitles.join(', ')
-      const commitMessage = `chore: Add books from ${episodeList}\n\nGenerated with [Claude Code](https://claude.com/claude-code)\n\nCo-Authored-By: Claude <noreply@anthropic.com>`
-
-      await execAsync(`git commit -m "${commitMessage.replace(/"/g, '\\"')}"`)
-      console.log('  Changes committed')
+      const { stdout } = await promisify(execFile)('bash', [path.join(process.cwd(), 'scripts', 'setup-ssh.sh')])
+      if (stdout.trim()) console.log(stdout.trim())
+    } catch (error) {
+      console.error('  SSH setup encountered an error, attempting to proceed anyway...', error)
+    }
 
-      await execAsync('git push origin HEAD:main')
+    // The run is done bar the push: its finished report is committed with the data
+    const report = this.recorder.finish('success')
+    this.reportFile = path.relative(process.cwd(), await saveRunReport(report))
+    const result = await publisher.publish({
+      paths: [...PUBLISHED_PATHS, this.reportFile],
+      title: `chore: Add books from ${episodeTitles.join(', ')}`,
+      body: 'Generated with [Claude Code](https://claude.com/claude-code)\n\nCo-Authored-By: Claude <noreply@anthropic.com>',
+      prBody: [
+        '## Changes', '', '```', formatShelfDiff(diffShelves(before, after)), '```', '',
+        '## Run report', '', '```', formatRunReport(report), '```'
+      ].join('\n')
+    })
+
+    if (!result.committed) {
+      console.log('  No changes to commit')
+    } else if (result.pullRequest) {
+      console.log(`  Opened pull request #${result.pullRequest.number}: ${result.pullRequest.url}`)
+    } else if (result.branch) {
+      console.log(`  Changes pushed to branch ${result.branch} — merge it to deploy`)
+    } else {
       console.log('  Changes pushed to remote — Vercel will auto-deploy')
-    } catch (error) {
-      console.error('  Git push failed:', error)
-      console.error('  Books added locally but not pushed. Check SSH + git credentials on Render.')
     }
   }
 
-  private async updateBooksDatabase(newBooks: Book[]): Promise<void> {
+  /**
+   * Returns the resulting shelf, the books added and re-cited, and the books not
+   * written: held for review, or dropped as previously rejected. In a dry run the shelf is computed but
+   * neither books.json nor the review queue is touched.
+   */
+  private async updateBooksDatabase(newBooks: Book[]): Promise<ShelfUpdate> {
     try {
       let existingBooks: Book[] = []
       try {
@@ -447,29 +637,52 @@ class OptimizedScraper {
         console.log('No existing books file found, creating new one')
       }
 
-      const existingIds = new Set(existingBooks.map(book => book.id))
-      const uniqueNewBooks = newBooks.filter(book => !existingIds.has(book.id))
+      const { books: validNewBooks, issues } = validateBooks(newBooks)
+      if (issues.length > 0) {
+        console.warn(`Rejected ${newBooks.length - validNewBooks.length} malformed books:\n${formatBookIssues(issues)}`)
+      }
+
+      // Uncertain matches (or, in staged mode, every new book) wait in the review queue instead of going live
+      const { accepted, held, rejected } = partitionForReview(existingBooks, validNewBooks, {
+        staged: isStagedReview(),
+        rejections: await loadRejections()
+      })
+      if (rejected.length > 0) {
+        console.log(`Skipped ${rejected.length} books previously rejected in review`)
+      }
+      if (held.length > 0 && !this.dryRun) {
+        await enqueueForReview(held, this.matchSignals)
+        console.log(`Held ${held.length} new books for review in data/review-queue.json`)
+        held.forEach(book => {
+          console.log(`  ? "${book.title}" (${book.amazonUrl}) — match confidence ${book.metadata?.matchConfidence ?? 'n/a'}`)
+        })
+      }
+
+      // A book already on the shelf gains the new episode reference instead of being dropped
+      const { books: allBooks, added, cited } = mergeBooksIntoShelf(existingBooks, accepted)
+      this.recorder.report.books.added = added.map(book => book.id)
+      this.recorder.report.books.cited = cited.map(({ book }) => book.id)
 
-      if (uniqueNewBooks.length === 0) {
+      if (added.length === 0 && cited.length === 0) {
         console.log('All books already exist in the database')
-        return
+        return { books: allBooks, added, cited, held, rejected }
       }
 
-      const allBooks = [...existingBooks, ...uniqueNewBooks]
-      allBooks.sort((a, b) => {
-        if (a.episodeRef.seasonNumber !== b.episodeRef.seasonNumber) {
-          return b.episodeRef.seasonNumber - a.episodeRef.seasonNumber
-        }
-        return b.episodeRef.episodeNumber - a.episodeRef.episodeNumber
-      })
+      allBooks.sort(compareByLatestEpisode)
+      assertValidBooks(allBooks)
+      // Manual overrides are the store's last layer — preview them the same way
+      if (this.dryRun) return { books: applyBookOverrides(allBooks, loadBookOverrides(), existingBooks), added, cited, held, rejected }
 
-      await fs.mkdir(this.dataDir, { recursive: true })
-      await fs.writeFile(this.booksFile, JSON.stringify(allBooks, null, 2))
-      console.log(`Updated books.json with ${uniqueNewBooks.length} new books`)
+      const shelf = await saveBooks(allBooks, 'optimized-scraper')
+      console.log(`Updated books.json with ${added.length} new books and ${cited.length} new citations`)
 
-      uniqueNewBooks.forEach(book => {
+      added.forEach(book => {
         console.log(`  + "${book.title}" by ${book.author}`)
       })
+      cited.forEach(({ book, refs }) => {
+        console.log(`  ~ "${book.title}" now also cited in ${refs.map(ref => ref.name).join(', ')}`)
+      })
+      return { books: shelf, added, cited, held, rejected }
     } catch (error) {
       console.error('Error updating books database:', error)
       throw error
@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+
+/**
+ * Resolve Works Script
+ * Fills in `workId` (the Open Library work ID) on books that don't have one, so
+ * the Kindle and print editions of a book collapse into one shelf tile. Pass
+ * --all to re-resolve every book, --refresh to bypass the metadata cache.
+ *
+ * Usage: npm run resolve-works -- [--all] [--refresh]
+ */
+
+import 'dotenv/config'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { assertValidBooks, extractAsin, isAsin, type Book } from '../lib/book-schema.js'
+import { saveBooks } from '../lib/book-store.js'
+import { getMetadataCache } from '../lib/metadata-cache.js'
+import { resolveWorkId, type WorkIdSource } from '../lib/works.js'
+
+const DELAY_MS = 500 // Open Library asks for no more than a few requests per second
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+class WorkResolver {
+  private booksFile: string
+
+  constructor(private resolveAll: boolean = false) {
+    this.booksFile = path.join(process.cwd(), 'public', 'data', 'books.json')
+  }
+
+  async run(): Promise<void> {
+    const books: Book[] = JSON.parse(await fs.readFile(this.booksFile, 'utf-8'))
+    const targets = this.resolveAll ? books : books.filter(book => !book.workId)
+
+    if (targets.length === 0) {
+      console.log('✅ Every book already has a workId')
+      return
+    }
+
+    console.log(`🔍 Resolving Open Library works for ${targets.length} of ${books.length} books...\n`)
+
+    const bySource: Record<WorkIdSource, number> = { isbn: 0, metadata: 0, 'asin-search': 0 }
+    let changed = 0
+
+    for (const book of targets) {
+      const asin = isAsin(book.id) ? book.id : extractAsin(book.amazonUrl)
+      if (!asin) continue
+
+      const resolved = await resolveWorkId(asin, book)
+      if (!resolved) {
+        console.log(`  – "${book.title}" (${asin}): no work found`)
+      } else {
+        bySource[resolved.source]++
+        if (book.workId !== resolved.workId) {
+          console.log(`  ✓ "${book.title}" (${asin}) → ${resolved.workId} via ${resolved.source}`)
+          book.workId = resolved.workId
+          changed++
+        }
+      }
+      await sleep(DELAY_MS)
+    }
+
+    const cache = getMetadataCache()
+    console.log(`\n💾 Metadata cache: ${cache.formatStats()}`)
+    await cache.save()
+
+    this.reportEditionGroups(books)
+
+    if (changed === 0) {
+      console.log('\n✅ No workId changes, books.json left unchanged')
+      return
+    }
+
+    assertValidBooks(books)
+    await saveBooks(books, 'resolve-works')
+    console.log(`\n✅ Set workId on ${changed} books (isbn: ${bySource.isbn}, metadata: ${bySource.metadata}, asin search: ${bySource['asin-search']})`)
+  }
+
+  private reportEditionGroups(books: Book[]): void {
+    const byWork = new Map<string, Book[]>()
+    for (const book of books) {
+      if (!book.workId) continue
+      byWork.set(book.workId, [...(byWork.get(book.workId) ?? []), book])
+    }
+
+    const groups = [...byWork.entries()].filter(([, editions]) => editions.length > 1)
+    if (groups.length === 0) return
+
+    console.log(`\n📚 ${groups.length} works with several editions (shown as one tile each):`)
+    for (const [workId, editions] of groups) {
+      console.log(`  ${workId}: ${editions.map(book => `"${book.title}" (${book.id})`).join(', ')}`)
+    }
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const resolver = new WorkResolver(process.argv.includes('--all'))
+  resolver.run().catch(error => {
+    console.error('❌ Work resolution failed:', error)
+    process.exit(1)
+  })
+}
+
+export { WorkResolver }
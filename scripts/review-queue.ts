@@ -0,0 +1,164 @@
+#!/usr/bin/env node
+
+/**
+ * Review Queue Script
+ * Editorial pass over data/review-queue.json: list pending books with the
+ * provenance and confidence behind them, then approve (merge into books.json),
+ * reject (never proposed again) or edit them.
+ *
+ * Usage:
+ *   npm run review                                   # list pending books
+ *   npm run review -- approve <id...> | --all
+ *   npm run review -- reject <id...> [--reason="not a book"]
+ *   npm run review -- edit <id> [--title=...] [--author=...] [--category=...] [--cover=...]
+ */
+
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { assertValidBooks, formatBookIssues, type Book } from '../lib/book-schema.js'
+import { saveBooks } from '../lib/book-store.js'
+import { compareByLatestEpisode, mergeBooksIntoShelf } from '../lib/episode-refs.js'
+import {
+  editEntry,
+  loadRejections,
+  loadReviewQueue,
+  saveRejections,
+  saveReviewQueue,
+  takeEntries,
+  toRejection,
+  type ReviewEdit,
+  type ReviewQueueEntry
+} from '../lib/review-queue.js'
+
+const EDIT_FLAGS: Record<string, keyof ReviewEdit> = {
+  '--title': 'title',
+  '--author': 'author',
+  '--category': 'category',
+  '--cover': 'coverUrl'
+}
+
+function flagValue(args: string[], name: string): string | undefined {
+  const arg = args.find(a => a.startsWith(`${name}=`))
+  return arg?.slice(name.length + 1)
+}
+
+function positional(args: string[]): string[] {
+  return args.filter(arg => !arg.startsWith('--'))
+}
+
+class ReviewQueueCli {
+  private booksFile = path.join(process.cwd(), 'public', 'data', 'books.json')
+
+  async run(args: string[] = process.argv.slice(2)): Promise<void> {
+    const [command = 'list', ...rest] = args
+
+    switch (command) {
+      case 'list':
+        return this.list()
+      case 'approve':
+        return this.approve(rest)
+      case 'reject':
+        return this.reject(rest)
+      case 'edit':
+        return this.edit(rest)
+      default:
+        throw new Error(`Unknown command "${command}" (expected list, approve, reject or edit)`)
+    }
+  }
+
+  private async list(): Promise<void> {
+    const queue = await loadReviewQueue()
+    if (queue.length === 0) {
+      console.log('✅ Review queue is empty')
+      return
+    }
+
+    console.log(`🔍 ${queue.length} books awaiting review\n`)
+    for (const entry of queue) {
+      const { book } = entry
+      const provenance = Object.entries(entry.provenance ?? {}).map(([field, provider]) => `${field}: ${provider}`)
+      console.log(`${book.id}  "${book.title}" by ${book.author}${entry.editedAt ? '  (edited)' : ''}`)
+      console.log(`      ${entry.reason ?? 'low-confidence'} · match confidence ${entry.matchConfidence.toFixed(2)} · ${book.category}`)
+      if (entry.matchSignals.length > 0) console.log(`      signals: ${entry.matchSignals.join('; ')}`)
+      if (provenance.length > 0) console.log(`      provenance: ${provenance.join(', ')}`)
+      console.log(`      cited in: ${book.episodeRefs.map(ref => ref.name).join(', ')}`)
+      console.log(`      ${book.amazonUrl}`)
+      console.log()
+    }
+  }
+
+  private async approve(args: string[]): Promise<void> {
+    const queue = await loadReviewQueue()
+    const ids = args.includes('--all') ? queue.map(entry => entry.book.id) : positional(args)
+    const { taken, remaining } = await this.take(queue, ids)
+
+    const existingBooks: Book[] = JSON.parse(await fs.readFile(this.booksFile, 'utf-8'))
+    const { books, added, cited } = mergeBooksIntoShelf(existingBooks, taken.map(entry => entry.book))
+    books.sort(compareByLatestEpisode)
+    assertValidBooks(books)
+
+    await saveBooks(books, 'review-queue')
+    await saveReviewQueue(remaining)
+
+    added.forEach(book => console.log(`  + "${book.title}" by ${book.author}`))
+    cited.forEach(({ book }) => console.log(`  ~ "${book.title}" was already on the shelf, citations merged`))
+    console.log(`\n✅ Approved ${taken.length} books, ${remaining.length} still pending`)
+  }
+
+  private async reject(args: string[]): Promise<void> {
+    const queue = await loadReviewQueue()
+    const { taken, remaining } = await this.take(queue, positional(args))
+    const reason = flagValue(args, '--reason')
+
+    const rejections = await loadRejections()
+    for (const entry of taken) {
+      rejections[entry.book.id] = toRejection(entry, reason)
+      console.log(`  – "${entry.book.title}" (${entry.book.id})`)
+    }
+
+    await saveRejections(rejections)
+    await saveReviewQueue(remaining)
+    console.log(`\n🚫 Rejected ${taken.length} books — they won't be proposed again. ${remaining.length} still pending`)
+  }
+
+  private async edit(args: string[]): Promise<void> {
+    const [id] = positional(args)
+    const queue = await loadReviewQueue()
+    const [entry] = (await this.take(queue, id ? [id] : [])).taken
+
+    const edit: ReviewEdit = {}
+    for (const [flag, field] of Object.entries(EDIT_FLAGS)) {
+      const value = flagValue(args, flag)
+      if (value !== undefined) edit[field] = value
+    }
+    if (Object.keys(edit).length === 0) {
+      throw new Error(`Nothing to edit — pass one of ${Object.keys(EDIT_FLAGS).map(flag => `${flag}=...`).join(', ')}`)
+    }
+
+    const issues = editEntry(entry, edit)
+    if (issues.length > 0) {
+      throw new Error(`Edit rejected:\n${formatBookIssues(issues)}`)
+    }
+
+    await saveReviewQueue(queue)
+    console.log(`✏️  Updated ${entry.book.id}: "${entry.book.title}" by ${entry.book.author} (${entry.book.category})`)
+  }
+
+  private async take(queue: ReviewQueueEntry[], ids: string[]) {
+    if (ids.length === 0) throw new Error('Pass at least one book id (see `npm run review`)')
+    const result = takeEntries(queue, ids)
+    if (result.missing.length > 0) {
+      throw new Error(`Not in the review queue: ${result.missing.join(', ')}`)
+    }
+    return result
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  new ReviewQueueCli().run().catch(error => {
+    console.error('❌ Review failed:', error instanceof Error ? error.message : error)
+    process.exit(1)
+  })
+}
+
+export { ReviewQueueCli }
@@ -0,0 +1,109 @@
+#!/usr/bin/env node
+
+/**
+ * Run Report Script
+ * Summarizes the scraper run reports in data/runs/ and compares two runs —
+ * the first stop when a run finds fewer books than the one before.
+ *
+ * Usage:
+ *   npm run run-report                      # list recorded runs
+ *   npm run run-report -- show [run]        # one run in full (default: latest)
+ *   npm run run-report -- diff [from] [to]  # compare two runs (default: the last two)
+ *
+ * Runs are named by id, an id prefix ("2026-10-19") or a path to a report file.
+ * Pass --json for machine-readable output.
+ */
+
+import {
+  diffRunReports,
+  formatRunDiff,
+  formatRunReport,
+  listRunReports,
+  loadRunReport,
+  RUNS_DIR,
+  type RunReport
+} from '../lib/run-report.js'
+
+function positional(args: string[]): string[] {
+  return args.filter(arg => !arg.startsWith('--'))
+}
+
+class RunReportCli {
+  async run(args: string[] = process.argv.slice(2)): Promise<void> {
+    const [command = 'list', ...rest] = positional(args)
+    const json = args.includes('--json')
+
+    switch (command) {
+      case 'list':
+        return this.list(json)
+      case 'show':
+        return this.show(rest, json)
+      case 'diff':
+        return this.diff(rest, json)
+      default:
+        throw new Error(`Unknown command "${command}" (expected list, show or diff)`)
+    }
+  }
+
+  private async list(json: boolean): Promise<void> {
+    const ids = await listRunReports()
+    const reports = await Promise.all(ids.map(id => loadRunReport(id)))
+
+    if (json) {
+      console.log(JSON.stringify(reports.map(summarize), null, 2))
+      return
+    }
+    if (reports.length === 0) {
+      console.log(`No run reports in ${RUNS_DIR} yet — each scraper run that publishes commits one`)
+      return
+    }
+
+    console.log(`📋 ${reports.length} recorded runs\n`)
+    for (const report of reports) {
+      const { status, episodes, added, errors } = summarize(report)
+      console.log(`${report.id}  ${(status ?? 'unfinished').padEnd(16)} ${episodes} episodes, ${added} books added${errors ? `, ${errors} errors` : ''}`)
+    }
+  }
+
+  private async show(refs: string[], json: boolean): Promise<void> {
+    const report = await loadRunReport(refs[0] ?? (await this.latest(1))[0])
+    console.log(json ? JSON.stringify(report, null, 2) : formatRunReport(report))
+  }
+
+  private async diff(refs: string[], json: boolean): Promise<void> {
+    // One run given: compare it with the latest
+    const [fromRef, toRef] = refs.length >= 2
+      ? refs
+      : refs.length === 1 ? [refs[0], ...(await this.latest(1))] : await this.latest(2)
+    const diff = diffRunReports(await loadRunReport(fromRef), await loadRunReport(toRef))
+    console.log(json ? JSON.stringify(diff, null, 2) : formatRunDiff(diff))
+  }
+
+  private async latest(count: number): Promise<string[]> {
+    const ids = await listRunReports()
+    if (ids.length < count) {
+      throw new Error(`Need ${count} run reports in ${RUNS_DIR}, found ${ids.length}`)
+    }
+    return ids.slice(-count)
+  }
+}
+
+function summarize(report: RunReport) {
+  return {
+    id: report.id,
+    status: report.status,
+    durationMs: report.durationMs,
+    episodes: report.episodes.length,
+    added: report.books.added.length,
+    errors: report.errors.length
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  new RunReportCli().run().catch(error => {
+    console.error('❌ Run report failed:', error instanceof Error ? error.message : error)
+    process.exit(1)
+  })
+}
+
+export { RunReportCli }
@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+
+/**
+ * Snapshots Script
+ * Lists the books.json snapshots taken before each write (data/snapshots/)
+ * and restores one. A restore snapshots the shelf it replaces, so it can be
+ * undone the same way.
+ *
+ * Usage:
+ *   npm run list-snapshots
+ *   npm run restore-snapshot -- <snapshot id or prefix> [--dry-run]
+ */
+
+import { assertValidBooks } from '../lib/book-schema.js'
+import { listSnapshots, loadBooks, loadSnapshot, restoreSnapshot, SNAPSHOTS_DIR } from '../lib/book-store.js'
+import { diffShelves, formatShelfDiff } from '../lib/shelf-diff.js'
+
+class SnapshotsCli {
+  async run(args: string[] = process.argv.slice(2)): Promise<void> {
+    const [command = 'list', ...rest] = args
+
+    switch (command) {
+      case 'list':
+      case 'list-snapshots':
+        return this.list()
+      case 'restore':
+        return this.restore(rest)
+      default:
+        throw new Error(`Unknown command "${command}" (expected list-snapshots or restore)`)
+    }
+  }
+
+  private async list(): Promise<void> {
+    const snapshots = await listSnapshots()
+    if (snapshots.length === 0) {
+      console.log(`No snapshots in ${SNAPSHOTS_DIR} yet — one is taken before every books.json write`)
+      return
+    }
+
+    console.log(`📸 ${snapshots.length} snapshots (newest last)\n`)
+    for (const snapshot of snapshots) {
+      console.log(`${snapshot.id}  ${String(snapshot.bookCount).padStart(4)} books  before a write by ${snapshot.actor}`)
+    }
+    console.log('\nRestore one with: npm run restore-snapshot -- <id>')
+  }
+
+  private async restore(args: string[]): Promise<void> {
+    const ref = args.find(arg => !arg.startsWith('--'))
+    if (!ref) throw new Error('Pass a snapshot id (see `npm run list-snapshots`)')
+
+    const snapshot = await loadSnapshot(ref)
+    assertValidBooks(snapshot.books)
+    console.log(formatShelfDiff(diffShelves(await loadBooks(), snapshot.books)))
+
+    if (args.includes('--dry-run')) {
+      console.log('\n[dry-run] books.json left unchanged')
+      return
+    }
+
+    await restoreSnapshot(snapshot.id)
+    console.log(`\n✅ Restored books.json from ${snapshot.id} (${snapshot.books.length} books, taken ${snapshot.takenAt})`)
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  new SnapshotsCli().run().catch(error => {
+    console.error('❌ Snapshot command failed:', error instanceof Error ? error.message : error)
+    process.exit(1)
+  })
+}
+
+export { SnapshotsCli }
@@ -56,7 +56,7 @@ async function compareStorageApproaches() {
       coverUrl: sampleBook.coverUrl, // Single cover reference
       amazonUrl: sampleBook.amazonUrl,
       category: sampleBook.category,
-      episodeRef: sampleBook.episodeRef
+      episodeRefs: sampleBook.episodeRefs
     }, null, 2))
 
     console.log('\n📋 ENHANCED STRUCTURE:')
@@ -84,7 +84,7 @@ async function compareStorageApproaches() {
         subjects: ["Business", "Luxury goods", "Watches"],
         olid: "OL123456W"
       },
-      episodeRef: sampleBook.episodeRef,
+      episodeRefs: sampleBook.episodeRefs,
       addedAt: "2025-01-15T10:00:00Z",
       source: "manual"
     }, null, 2))
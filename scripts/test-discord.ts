@@ -39,7 +39,20 @@ async function testDiscord() {
     // Wait a bit between notifications
     await new Promise(resolve => setTimeout(resolve, 1000))
 
-    // Test 2: Unknown metadata notification
+    // Test 2: Books cited again notification
+    console.log('🔁 Sending "books cited again" test notification...')
+    await discord.notifyBooksCited([
+      {
+        title: 'Test Book 3',
+        author: 'Test Author',
+        episode: 'Another Test Episode'
+      }
+    ])
+    console.log('✅ Books cited again notification sent\n')
+
+    await new Promise(resolve => setTimeout(resolve, 1000))
+
+    // Test 3: Unknown metadata notification
     console.log('⚠️  Sending "unknown metadata" test notification...')
     await discord.notifyUnknownMetadata([
       {
@@ -54,7 +67,7 @@ async function testDiscord() {
     // Wait a bit
     await new Promise(resolve => setTimeout(resolve, 1000))
 
-    // Test 3: Error notification
+    // Test 4: Error notification
     console.log('❌ Sending "error" test notification...')
     await discord.notifyError('This is a test error', 'Discord webhook test')
     console.log('✅ Error notification sent\n')
@@ -21,7 +21,9 @@ async function testMigration() {
     console.log(`📚 Testing with ${testBooks.length} books:`)
     testBooks.forEach((book, i) => {
       console.log(`   ${i + 1}. "${book.title}" by ${book.author}`)
-      console.log(`      Episode: ${book.episodeRef.name} (S${book.episodeRef.seasonNumber}E${book.episodeRef.episodeNumber})`)
+      book.episodeRefs.forEach(ref => {
+        console.log(`      Episode: ${ref.name} (S${ref.seasonNumber}E${ref.episodeNumber})`)
+      })
       console.log(`      Cover: ${book.coverUrl}`)
       console.log(`      Category: ${book.category}`)
       console.log()
@@ -46,14 +48,12 @@ async function testMigration() {
       allHaveAmazonUrls: testBooks.every(book => book.amazonUrl),
       allHaveCategories: testBooks.every(book => book.category),
       allHaveEpisodes: testBooks.every(book => 
-        book.episodeRef && 
-        book.episodeRef.name && 
-        book.episodeRef.seasonNumber && 
-        book.episodeRef.episodeNumber
+        book.episodeRefs?.length > 0 &&
+        book.episodeRefs.every(ref => ref.name && ref.seasonNumber && ref.episodeNumber)
       ),
       uniqueIds: new Set(testBooks.map(b => b.id)).size === testBooks.length,
-      uniqueEpisodes: new Set(testBooks.map(b => 
-        `S${b.episodeRef.seasonNumber}E${b.episodeRef.episodeNumber}`
+      uniqueEpisodes: new Set(testBooks.flatMap(b => 
+        b.episodeRefs.map(ref => `S${ref.seasonNumber}E${ref.episodeNumber}`)
       )).size
     }
 